@@ -19,6 +19,21 @@ export default defineConfigDler({
   commonPubRegistry: "npm-jsr",
   commonVerbose: true,
 
+  // Publish configuration
+  pubChangelog: { enabled: false, fileName: "CHANGELOG.md" },
+  pubGit: {
+    enabled: false,
+    commitMessage: "chore(release): v{version}",
+    push: false,
+    remote: "origin",
+  },
+  pubLocalRegistry: "http://localhost:4873",
+  pubNpmAccess: "",
+  pubNpmClient: "auto",
+  pubNpmRegistry: "",
+  pubTag: "",
+  pubVerify: false,
+
   // Core configuration
   coreBuildOutDir: "bin",
   coreDeclarations: true,
@@ -26,6 +41,7 @@ export default defineConfigDler({
     "dler (prev. relidler) is a flexible, unified, and fully automated bundler for TypeScript and JavaScript projects, as well as an NPM and JSR publishing tool.",
   coreEntryFile: "mod.ts",
   coreEntrySrcDir: "src",
+  coreExports: {},
   coreIsCLI: { enabled: true, scripts: { dler: "cli.ts" } },
 
   // JSR-only config
@@ -41,7 +57,9 @@ export default defineConfigDler({
   // NPM-only config
   distNpmBuilder: "mkdist",
   distNpmDirName: "dist-npm",
+  distNpmDryRun: false,
   distNpmOutFilesExt: "js",
+  distNpmDualFormat: false,
 
   // Libraries Dler Plugin
   // Publish specific dirs as separate packages
@@ -124,6 +142,17 @@ export default defineConfigDler({
   // If you need to exclude some ts/js files from being built,
   // you can store them in the dirs with buildTemplatesDir name
   buildTemplatesDir: "templates",
+  // Skip unchanged build targets (cache is stored in node_modules/.cache/dler)
+  buildCache: true,
+  // Write a bundle size report to dist-analyze (same as `dler build --analyze`)
+  buildAnalyze: false,
+
+  // Output size budgets (e.g. dists: { "dist-npm": { gzip: "150 kB" } })
+  sizeBudgets: {
+    failOnExceed: true,
+    snapshotFile: "",
+    snapshotMaxGrowth: 5,
+  },
 
   // Dependency filtering
   // Global is always applied
@@ -159,6 +188,25 @@ export default defineConfigDler({
   runBeforeBuild: [],
   // Available: dler-check
   runAfterBuild: [],
+  // Custom rules for dler check
+  checkCustomRules: [
+    // example rule:
+    // {
+    //   id: "no-todo-comments",
+    //   description: "no TODO comments",
+    //   directories: ["src"],
+    //   severity: "warn",
+    //   run: async ({ directory }) => checkNoTodoComments(directory),
+    // },
+  ],
+  // Severity of dler check rules: "off", "warn" or "error"
+  checkRules: {
+    rules: {},
+    overrides: [
+      // example override:
+      // { files: ["src/legacy/**"], rules: { "no-dynamic-imports": "warn" } },
+    ],
+  },
 
   // Build hooks
   hooksBeforeBuild: [
@@ -0,0 +1,106 @@
+import { join, resolve } from "@reliverse/pathkit";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, rmSync } from "node:fs";
+
+import type { BuildCacheTarget } from "~/libs/sdk/sdk-impl/build/build-cache";
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import { computeBuildCacheHash, withBuildCache } from "~/libs/sdk/sdk-impl/build/build-cache";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+const config = { buildCache: true } as unknown as DlerConfig;
+
+describe("build cache", () => {
+  const dir = resolve(process.cwd(), `.test-build-cache-${Date.now()}`);
+  const id = `test-${Date.now()}`;
+  const cacheDir = join(PROJECT_ROOT, "node_modules", ".cache", "dler", id);
+  const target: BuildCacheTarget = {
+    id,
+    inputDirs: [join(dir, "src", "a"), join(dir, "src", "b")],
+    outDir: join(dir, "dist"),
+    settings: { minify: false, target: "node" },
+  };
+
+  // writes the dist from the current sources and counts the builds
+  let builds = 0;
+  const build = async () => {
+    builds++;
+    await Bun.write(
+      join(dir, "dist", "mod.js"),
+      await Bun.file(join(dir, "src", "a", "mod.ts")).text(),
+    );
+  };
+
+  beforeEach(async () => {
+    builds = 0;
+    await Bun.write(join(dir, "src", "a", "mod.ts"), "export const a = 1;\n");
+    await Bun.write(join(dir, "src", "b", "mod.ts"), "export const b = 1;\n");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  test("hashes the same inputs to the same key, whatever the settings key order", async () => {
+    const hash = await computeBuildCacheHash(config, target);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      await computeBuildCacheHash(config, {
+        ...target,
+        settings: { target: "node", minify: false },
+      }),
+    ).toBe(hash as string);
+  });
+
+  test("changes the key when any input dir or the settings change", async () => {
+    const hash = await computeBuildCacheHash(config, target);
+    await Bun.write(join(dir, "src", "b", "mod.ts"), "export const b = 2;\n");
+    const changedSource = await computeBuildCacheHash(config, target);
+    expect(changedSource).not.toBe(hash);
+    expect(
+      await computeBuildCacheHash(config, {
+        ...target,
+        settings: { minify: true, target: "node" },
+      }),
+    ).not.toBe(changedSource);
+  });
+
+  test("returns no key when an input dir is missing", async () => {
+    rmSync(join(dir, "src", "b"), { recursive: true, force: true });
+    expect(await computeBuildCacheHash(config, target)).toBeNull();
+  });
+
+  test("builds on a miss and restores the output on a hit", async () => {
+    await withBuildCache(config, target, build);
+    expect(builds).toBe(1);
+
+    rmSync(join(dir, "dist"), { recursive: true, force: true });
+    await withBuildCache(config, target, build);
+    expect(builds).toBe(1);
+    expect(await Bun.file(join(dir, "dist", "mod.js")).text()).toBe("export const a = 1;\n");
+  });
+
+  test("rebuilds when an input changes", async () => {
+    await withBuildCache(config, target, build);
+    await Bun.write(join(dir, "src", "a", "mod.ts"), "export const a = 2;\n");
+    await withBuildCache(config, target, build);
+    expect(builds).toBe(2);
+    expect(await Bun.file(join(dir, "dist", "mod.js")).text()).toBe("export const a = 2;\n");
+  });
+
+  test("always builds, without storing the output, when an input dir is missing", async () => {
+    rmSync(join(dir, "src", "b"), { recursive: true, force: true });
+    await withBuildCache(config, target, build);
+    await withBuildCache(config, target, build);
+    expect(builds).toBe(2);
+    expect(existsSync(cacheDir)).toBe(false);
+  });
+
+  test("always builds when the cache is disabled", async () => {
+    const disabled = { buildCache: false } as unknown as DlerConfig;
+    await withBuildCache(disabled, target, build);
+    await withBuildCache(disabled, target, build);
+    expect(builds).toBe(2);
+  });
+});
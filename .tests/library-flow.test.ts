@@ -0,0 +1,96 @@
+import { join, resolve } from "@reliverse/pathkit";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+
+import type { LibConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import {
+  library_getBuildLevels,
+  library_getDependencyGraph,
+  library_getLibsImportPrefixes,
+} from "~/libs/sdk/sdk-impl/library-flow";
+
+describe("library_getBuildLevels", () => {
+  test("builds dependencies before their dependents", () => {
+    const levels = library_getBuildLevels({
+      "@x/app": ["@x/core", "@x/utils"],
+      "@x/core": ["@x/utils"],
+      "@x/utils": [],
+    });
+    expect(levels).toEqual([["@x/utils"], ["@x/core"], ["@x/app"]]);
+  });
+
+  test("ignores dependencies outside of the graph", () => {
+    expect(library_getBuildLevels({ "@x/a": ["react"] })).toEqual([["@x/a"]]);
+  });
+
+  test("reports a cycle with its path", () => {
+    expect(() =>
+      library_getBuildLevels({
+        "@x/a": ["@x/b"],
+        "@x/b": ["@x/c"],
+        "@x/c": ["@x/a"],
+        "@x/d": [],
+      }),
+    ).toThrow(/Circular dependency between libraries: (@x\/[abc] -> ){3}@x\/[abc]/);
+  });
+});
+
+describe("library_getDependencyGraph", () => {
+  const libsDirSrc = `.test-libs-${Date.now()}`;
+  const libsDir = resolve(process.cwd(), libsDirSrc);
+  const libsList = {
+    "@x/a": {} as LibConfig,
+    "@x/b": {} as LibConfig,
+  };
+
+  beforeEach(async () => {
+    await mkdir(join(libsDir, "a"), { recursive: true });
+    await mkdir(join(libsDir, "b"), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(libsDir, { recursive: true, force: true });
+  });
+
+  test("only follows real imports, not specifiers in comments or strings", async () => {
+    await Bun.write(
+      join(libsDir, "a", "mod.ts"),
+      'import { b } from "../b/mod.js";\nexport const a = b;\n',
+    );
+    await Bun.write(
+      join(libsDir, "b", "mod.ts"),
+      '// import { a } from "../a/mod.js";\nexport const b = "import \'@x/a\'";\n',
+    );
+
+    const graph = await library_getDependencyGraph(libsList, libsDirSrc);
+    expect(graph).toEqual({ "@x/a": ["@x/b"], "@x/b": [] });
+    expect(library_getBuildLevels(graph)).toEqual([["@x/b"], ["@x/a"]]);
+  });
+
+  test("follows tsconfig aliases into the original libs dir of a copy", async () => {
+    await Bun.write(join(libsDir, "a", "mod.ts"), 'export { b } from "~/libs/b/mod";\n');
+    await Bun.write(join(libsDir, "b", "mod.ts"), "export const b = 1;\n");
+
+    expect(await library_getDependencyGraph(libsList, libsDirSrc, "src/libs")).toEqual({
+      "@x/a": ["@x/b"],
+      "@x/b": [],
+    });
+    // the copy itself is not covered by any alias
+    expect(await library_getDependencyGraph(libsList, libsDirSrc)).toEqual({
+      "@x/a": [],
+      "@x/b": [],
+    });
+  });
+});
+
+describe("library_getLibsImportPrefixes", () => {
+  test("derives the prefixes from the tsconfig paths", async () => {
+    // tsconfig.json maps "~/*" to "./src/*" and "@/*" to "./example/*"
+    expect(await library_getLibsImportPrefixes("src/libs")).toEqual(["~/libs/"]);
+    expect(await library_getLibsImportPrefixes("src")).toEqual(["~/"]);
+    expect(await library_getLibsImportPrefixes("example/libs")).toEqual(["@/libs/"]);
+    expect(await library_getLibsImportPrefixes("dist-tmp/tmp-libs")).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  extractImportedPackages,
+  getBuiltinModules,
+  normalizePackageName,
+} from "~/libs/sdk/sdk-impl/rules/reliverse/missing-deps/parser";
+
+describe("normalizePackageName", () => {
+  test("keeps the package name of bare specifiers", () => {
+    expect(normalizePackageName("ky")).toBe("ky");
+    expect(normalizePackageName("pkg-types/dist/index.mjs")).toBe("pkg-types");
+    expect(normalizePackageName("@reliverse/pathkit/utils")).toBe("@reliverse/pathkit");
+  });
+
+  test("skips relative and absolute paths", () => {
+    expect(normalizePackageName("./utils.js")).toBeNull();
+    expect(normalizePackageName("../mod.ts")).toBeNull();
+    expect(normalizePackageName("/abs/mod.js")).toBeNull();
+  });
+
+  test("skips URLs", () => {
+    expect(normalizePackageName("https://esm.sh/react")).toBeNull();
+    expect(normalizePackageName("data:text/javascript,export default 1")).toBeNull();
+    expect(normalizePackageName("file:///tmp/mod.js")).toBeNull();
+  });
+
+  test("maps node: specifiers to their builtin name", () => {
+    expect(normalizePackageName("node:fs")).toBe("fs");
+    expect(normalizePackageName("node:fs/promises")).toBe("fs");
+    expect(normalizePackageName("bun:test")).toBe("bun:test");
+  });
+});
+
+describe("getBuiltinModules", () => {
+  test("lists builtins without their node: prefix", () => {
+    const builtins = getBuiltinModules();
+    expect(builtins.has("fs")).toBe(true);
+    expect(builtins.has("test")).toBe(true);
+    expect([...builtins].some((name) => name.startsWith("node:"))).toBe(false);
+  });
+});
+
+describe("extractImportedPackages", () => {
+  test("splits runtime and type-only imports", () => {
+    const { runtime, typeOnly } = extractImportedPackages(
+      [
+        'import ky from "ky";',
+        'import type { PackageJson } from "pkg-types";',
+        'import { type Options } from "execa";',
+        'import type { Both } from "semver";',
+        'import semver from "semver";',
+        'export type { Foo } from "@scope/types";',
+        'const lazy = await import("@scope/lazy/sub");',
+        'type Meta = import("magic-string").MagicString;',
+      ].join("\n"),
+    );
+    expect([...runtime].sort()).toEqual(["@scope/lazy", "ky", "semver"]);
+    expect([...typeOnly].sort()).toEqual(["@scope/types", "execa", "magic-string", "pkg-types"]);
+  });
+
+  test("ignores URLs, relative files, comments and strings", () => {
+    const { runtime, typeOnly } = extractImportedPackages(
+      [
+        'const wasm = new URL("https://cdn.example.com/mod.wasm", import.meta.url);',
+        'const inline = new URL("data:text/javascript,1", import.meta.url);',
+        'const worker = new URL("./worker.js", import.meta.url);',
+        '// import "commented-out";',
+        "const text = \"import 'in-a-string'\";",
+        'import { readFile } from "node:fs/promises";',
+      ].join("\n"),
+    );
+    expect([...runtime]).toEqual(["fs"]);
+    expect([...typeOnly]).toEqual([]);
+  });
+
+  test("parses jsx files by their extension", () => {
+    const { runtime } = extractImportedPackages(
+      'import React from "react";\nexport const App = () => <div>{"import \'x\'"}</div>;\n',
+      "App.tsx",
+    );
+    expect([...runtime]).toEqual(["react"]);
+  });
+});
@@ -0,0 +1,129 @@
+import { join, resolve } from "@reliverse/pathkit";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+
+import type { CheckIssue, RulesCheckOptions } from "~/libs/sdk/sdk-impl/sdk-types";
+
+import { fixPathExtensions } from "~/libs/sdk/sdk-impl/rules/reliverse/path-extensions/path-extensions";
+import { createUnifiedDiff } from "~/libs/sdk/sdk-impl/utils/utils-diff";
+
+const options = (directory: RulesCheckOptions["directory"]): RulesCheckOptions => ({
+  directory,
+  strict: true,
+  moduleResolution: "bundler",
+});
+
+const issue = (file: string, line: number): CheckIssue => ({
+  file,
+  line,
+  message: "",
+  type: "path-extension",
+});
+
+describe("fixPathExtensions", () => {
+  const dir = resolve(process.cwd(), `.test-path-extensions-${Date.now()}`);
+  const file = join(dir, "mod.ts");
+
+  beforeEach(async () => {
+    await Bun.write(join(dir, "a.ts"), "export const a = 1;\n");
+    await Bun.write(join(dir, "utils", "index.ts"), "export const u = 1;\n");
+    await Bun.write(
+      file,
+      [
+        'import { a } from "./a.ts";',
+        "import { u } from './utils';",
+        'import { b } from "./b.ts";',
+        'import { missing } from "./missing";',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("rewrites the reported imports for javascript environments", async () => {
+    const fixes = await fixPathExtensions(options("src"), [
+      issue(file, 1),
+      issue(file, 2),
+      issue(file, 4),
+    ]);
+    expect(fixes).toEqual([
+      {
+        file,
+        content: [
+          'import { a } from "./a.js";',
+          "import { u } from './utils/index.js';",
+          'import { b } from "./b.ts";',
+          'import { missing } from "./missing";',
+          "",
+        ].join("\n"),
+      },
+    ]);
+  });
+
+  test("only rewrites .js imports to .ts when the .ts file exists", async () => {
+    await Bun.write(file, 'import { a } from "./a.js";\nimport { b } from "./b.js";\n');
+    const fixes = await fixPathExtensions(options("dist-jsr"), [issue(file, 1), issue(file, 2)]);
+    expect(fixes).toEqual([
+      { file, content: 'import { a } from "./a.ts";\nimport { b } from "./b.js";\n' },
+    ]);
+  });
+
+  test("returns no fix when nothing can be fixed", async () => {
+    expect(await fixPathExtensions(options("src"), [issue(file, 4)])).toEqual([]);
+  });
+});
+
+describe("createUnifiedDiff", () => {
+  test("returns an empty diff for equal contents", () => {
+    expect(createUnifiedDiff("a.ts", "a.ts", "x\n", "x\n")).toBe("");
+  });
+
+  test("shows the changed lines with their context", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8"].join("\n");
+    const after = ["1", "2", "3", "4", "five", "6", "7", "8"].join("\n");
+    expect(createUnifiedDiff("a.ts", "a.ts", before, after)).toBe(
+      [
+        "--- a/a.ts",
+        "+++ b/a.ts",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+      ].join("\n"),
+    );
+  });
+
+  test("splits distant changes into hunks", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = before.map((line, i) => (i === 0 || i === 19 ? `${line}!` : line));
+    const diff = createUnifiedDiff("a.ts", "b.ts", before.join("\n"), after.join("\n"), 1);
+    expect(diff).toBe(
+      [
+        "--- a/a.ts",
+        "+++ b/b.ts",
+        "@@ -1,2 +1,2 @@",
+        "-line 1",
+        "+line 1!",
+        " line 2",
+        "@@ -19,2 +19,2 @@",
+        " line 19",
+        "-line 20",
+        "+line 20!",
+      ].join("\n"),
+    );
+  });
+
+  test("treats an empty file as one empty line", () => {
+    expect(createUnifiedDiff("a.ts", "a.ts", "", "x")).toBe(
+      ["--- a/a.ts", "+++ b/a.ts", "@@ -1,1 +1,1 @@", "-", "+x"].join("\n"),
+    );
+  });
+});
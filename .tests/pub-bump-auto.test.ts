@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  diffDeclarationSurfaces,
+  getDeclarationSurface,
+} from "~/libs/sdk/sdk-impl/pub/pub-bump-auto";
+
+const pkgFiles = (pkg: object, files: Record<string, string>) =>
+  new Map([["package.json", JSON.stringify(pkg)], ...Object.entries(files)]);
+
+describe("getDeclarationSurface", () => {
+  test("collects the exports of every subpath from its types condition", () => {
+    const surface = getDeclarationSurface(
+      pkgFiles(
+        {
+          exports: {
+            ".": { types: "./bin/mod.d.ts", import: "./bin/mod.js" },
+            "./utils": { import: { types: "./bin/utils.d.mts", default: "./bin/utils.mjs" } },
+          },
+        },
+        {
+          "bin/mod.d.ts":
+            'export declare function defineConfig(): void;\nexport * from "./types";\n',
+          "bin/types.d.ts": "export interface Config {}\n",
+          "bin/utils.d.mts": "export declare const formatBytes: (n: number) => string;\n",
+        },
+      ),
+    );
+    expect([...surface].sort()).toEqual([". Config", ". defineConfig", "./utils formatBytes"]);
+  });
+
+  test("falls back to types and to declarations next to js entries", () => {
+    expect([
+      ...getDeclarationSurface(
+        pkgFiles({ types: "./bin/mod.d.ts" }, { "bin/mod.d.ts": "export declare const a: 1;\n" }),
+      ),
+    ]).toEqual([". a"]);
+    expect([
+      ...getDeclarationSurface(
+        pkgFiles(
+          { exports: { "./cli": "./bin/cli.js" } },
+          { "bin/cli.d.ts": "export declare const run: () => void;\n" },
+        ),
+      ),
+    ]).toEqual(["./cli run"]);
+  });
+
+  test("is empty without declaration files or package.json", () => {
+    expect(getDeclarationSurface(pkgFiles({ exports: { ".": "./bin/mod.js" } }, {})).size).toBe(0);
+    expect(getDeclarationSurface(new Map([["bin/mod.d.ts", "export {};"]])).size).toBe(0);
+  });
+});
+
+describe("diffDeclarationSurfaces", () => {
+  test("lists the added and removed exports, sorted", () => {
+    expect(
+      diffDeclarationSurfaces(
+        new Set([". b", ". a", "./utils c"]),
+        new Set([". a", ". d", "./utils e"]),
+      ),
+    ).toEqual({ added: [". d", "./utils e"], removed: [". b", "./utils c"] });
+  });
+
+  test("treats every export as added against an empty surface", () => {
+    expect(diffDeclarationSurfaces(new Set(), new Set([". a"]))).toEqual({
+      added: [". a"],
+      removed: [],
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { resolve } from "@reliverse/pathkit";
+import { afterEach, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+
+import {
+  getReleaseNotes,
+  getReleaseTagName,
+  parseConventionalCommit,
+  renderChangelogNotes,
+} from "~/libs/sdk/sdk-impl/pub/pub-changelog";
+
+describe("parseConventionalCommit", () => {
+  test("parses the type, scope and subject", () => {
+    expect(parseConventionalCommit("abc1234", "Feat(cli): add --dry-run")).toEqual({
+      hash: "abc1234",
+      type: "feat",
+      scope: "cli",
+      subject: "add --dry-run",
+      breaking: false,
+    });
+  });
+
+  test("detects breaking changes from ! or the body", () => {
+    expect(parseConventionalCommit("a", "feat!: drop node 18").breaking).toBe(true);
+    expect(
+      parseConventionalCommit("b", "refactor: rename config", "BREAKING CHANGE: renamed").breaking,
+    ).toBe(true);
+  });
+
+  test("keeps other messages as other changes", () => {
+    expect(parseConventionalCommit("c", "Update README")).toEqual({
+      hash: "c",
+      type: "other",
+      scope: "",
+      subject: "Update README",
+      breaking: false,
+    });
+  });
+});
+
+describe("renderChangelogNotes", () => {
+  test("lists breaking changes first, then sections sorted by scope", () => {
+    const notes = renderChangelogNotes([
+      parseConventionalCommit("1", "fix(pub): retry"),
+      parseConventionalCommit("2", "feat(cli): watch mode"),
+      parseConventionalCommit("3", "feat!: new config"),
+      parseConventionalCommit("4", "fix(build): cache"),
+      parseConventionalCommit("5", "chore: bump deps"),
+    ]);
+    expect(notes).toBe(
+      [
+        "### Breaking Changes\n\n- new config (3)",
+        "### Features\n\n- **cli:** watch mode (2)",
+        "### Bug Fixes\n\n- **build:** cache (4)\n- **pub:** retry (1)",
+      ].join("\n\n"),
+    );
+  });
+
+  test("renders nothing without notable commits", () => {
+    expect(renderChangelogNotes([parseConventionalCommit("1", "chore: lint")])).toBe("");
+  });
+});
+
+describe("getReleaseNotes", () => {
+  const file = resolve(process.cwd(), `.test-changelog-${Date.now()}.md`);
+
+  afterEach(() => {
+    rmSync(file, { force: true });
+  });
+
+  test("extracts the section of a version", async () => {
+    await Bun.write(
+      file,
+      "# Changelog\n\n## 1.1.0 (2025-01-02)\n\n### Features\n\n- b (2)\n\n## 1.0.0 (2025-01-01)\n\n- a (1)\n",
+    );
+    expect(await getReleaseNotes(file, "1.1.0")).toBe("### Features\n\n- b (2)");
+    expect(await getReleaseNotes(file, "1.0.0")).toBe("- a (1)");
+    expect(await getReleaseNotes(file, "2.0.0")).toBeUndefined();
+    expect(await getReleaseNotes(`${file}.missing`, "1.0.0")).toBeUndefined();
+  });
+});
+
+describe("getReleaseTagName", () => {
+  test("prefixes main versions with v and libraries with their name", () => {
+    expect(getReleaseTagName("1.2.3")).toBe("v1.2.3");
+    expect(getReleaseTagName("1.2.3", "@x/core")).toBe("@x/core@1.2.3");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+
+import type { ArchiveEntry } from "~/libs/sdk/sdk-impl/utils/utils-archive";
+
+import { diffTarballs, findStrayFiles } from "~/libs/sdk/sdk-impl/pub/pub-inspect";
+
+const entry = (name: string, content: string): ArchiveEntry => ({
+  name,
+  content: Buffer.from(content),
+  mode: 0o644,
+  mtime: new Date(0),
+});
+
+describe("findStrayFiles", () => {
+  test("accepts artifacts, declaration files and files npm always packs", () => {
+    expect(
+      findStrayFiles(
+        ["package.json", "README.md", "LICENSE", "bin/mod.js", "bin/mod.d.ts", "bin/utils.d.mts"],
+        ["bin", "README.md"],
+      ),
+    ).toEqual([]);
+  });
+
+  test("flags source maps, TypeScript sources and dist-tmp leftovers", () => {
+    expect(
+      findStrayFiles(["bin/mod.js.map", "bin/mod.ts", "bin/dist-tmp/mod.js"], ["bin"]),
+    ).toEqual([
+      { path: "bin/mod.js.map", reason: "source map" },
+      { path: "bin/mod.ts", reason: "TypeScript source in an npm dist" },
+      { path: "bin/dist-tmp/mod.js", reason: "dist-tmp leftover" },
+    ]);
+  });
+
+  test("flags files outside of the artifacts", () => {
+    expect(findStrayFiles(["binary/mod.js", "notes.txt"], ["bin"])).toEqual([
+      { path: "binary/mod.js", reason: "not listed in publishArtifacts" },
+      { path: "notes.txt", reason: "not listed in publishArtifacts" },
+    ]);
+  });
+});
+
+describe("diffTarballs", () => {
+  test("reports added, removed and changed files", () => {
+    const diff = diffTarballs(
+      [entry("package.json", "{}"), entry("bin/mod.js", "a"), entry("bin/old.js", "old")],
+      [entry("package.json", "{}"), entry("bin/mod.js", "abc"), entry("bin/new.js", "new!")],
+    );
+    expect(diff).toEqual({
+      added: [{ path: "bin/new.js", size: 4 }],
+      removed: [{ path: "bin/old.js", size: 3 }],
+      changed: [{ path: "bin/mod.js", previousSize: 1, size: 3 }],
+    });
+  });
+
+  test("compares contents, not only sizes", () => {
+    const diff = diffTarballs([entry("bin/mod.js", "abc")], [entry("bin/mod.js", "xyz")]);
+    expect(diff.changed).toEqual([{ path: "bin/mod.js", previousSize: 3, size: 3 }]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  getNpmPublishCommand,
+  type NpmPublishOptions,
+} from "~/libs/sdk/sdk-impl/pub/pub-npm-client";
+
+const options: NpmPublishOptions = {
+  dryRun: false,
+  tag: "next",
+  access: "public",
+  registry: "https://registry.example.com/",
+};
+const flags = [
+  "--tag",
+  "next",
+  "--access",
+  "public",
+  "--registry",
+  "https://registry.example.com/",
+];
+
+describe("getNpmPublishCommand", () => {
+  test("bun, npm and pnpm take the same flags", () => {
+    expect(getNpmPublishCommand("bun", options)).toEqual({
+      command: "bun",
+      args: ["publish", ...flags],
+    });
+    expect(getNpmPublishCommand("npm", { ...options, dryRun: true })).toEqual({
+      command: "npm",
+      args: ["publish", ...flags, "--dry-run"],
+    });
+    expect(getNpmPublishCommand("pnpm", options)).toEqual({
+      command: "pnpm",
+      args: ["publish", "--no-git-checks", ...flags],
+    });
+  });
+
+  test("omits the latest tag and empty options", () => {
+    expect(
+      getNpmPublishCommand("npm", { dryRun: false, tag: "latest", access: "", registry: "" }),
+    ).toEqual({ command: "npm", args: ["publish"] });
+  });
+
+  test("yarn 2+ passes the registry through the environment", () => {
+    expect(getNpmPublishCommand("yarn", options)).toEqual({
+      command: "yarn",
+      args: ["npm", "publish", "--tag", "next", "--access", "public"],
+      env: { YARN_NPM_PUBLISH_REGISTRY: "https://registry.example.com/" },
+    });
+    expect(getNpmPublishCommand("yarn", { ...options, dryRun: true })).toEqual({
+      command: "yarn",
+      args: ["pack", "--dry-run"],
+    });
+  });
+
+  test("yarn 1 publishes without prompts and dry-runs with npm", () => {
+    expect(getNpmPublishCommand("yarn-classic", options)).toEqual({
+      command: "yarn",
+      args: ["publish", "--non-interactive", "--no-git-tag-version", ...flags],
+    });
+    expect(getNpmPublishCommand("yarn-classic", { ...options, dryRun: true })).toEqual({
+      command: "npm",
+      args: ["publish", ...flags, "--dry-run"],
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { dirname } from "@reliverse/pathkit";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+import type { PubState } from "~/libs/sdk/sdk-impl/pub/pub-state";
+
+import {
+  createPubState,
+  finishPubState,
+  PUB_STATE_PATH,
+  resumePubState,
+  runPubTarget,
+  startPubState,
+} from "~/libs/sdk/sdk-impl/pub/pub-state";
+
+const config = (overrides: Record<string, unknown> = {}) =>
+  ({
+    libsActMode: "main-and-libs",
+    commonPubRegistry: "npm-jsr",
+    distJsrDryRun: false,
+    distNpmDryRun: false,
+    libsList: {
+      "@x/a": {},
+      "@x/b": { libPubRegistry: "npm" },
+      "@x/paused": { libPubPause: true },
+    },
+    ...overrides,
+  }) as unknown as DlerConfig;
+
+const targetsOf = (state: PubState) =>
+  state.targets.map(({ target, registry, status }) => `${target} ${registry} ${status}`);
+
+describe("createPubState", () => {
+  test("lists every target and registry as pending, without paused libs", () => {
+    const state = createPubState(config(), "1.2.3");
+    expect(state.version).toBe("1.2.3");
+    expect(targetsOf(state)).toEqual([
+      "main npm pending",
+      "main jsr pending",
+      "@x/a npm pending",
+      "@x/a jsr pending",
+      "@x/b npm pending",
+    ]);
+  });
+
+  test("leaves out the main project for libs-only publishes", () => {
+    expect(targetsOf(createPubState(config({ libsActMode: "libs-only" }), "1.2.3"))).toEqual([
+      "@x/a npm pending",
+      "@x/a jsr pending",
+      "@x/b npm pending",
+    ]);
+  });
+
+  test("leaves out the registries in dry-run mode", () => {
+    expect(targetsOf(createPubState(config({ distJsrDryRun: true }), "1.2.3"))).toEqual([
+      "main npm pending",
+      "@x/a npm pending",
+      "@x/b npm pending",
+    ]);
+    expect(
+      createPubState(config({ distJsrDryRun: true, distNpmDryRun: true }), "1.2.3").targets,
+    ).toEqual([]);
+  });
+});
+
+describe("resumePubState", () => {
+  test("keeps the targets published by the previous run as published", () => {
+    const previous = createPubState(config(), "1.2.3");
+    for (const target of previous.targets) {
+      if (target.registry === "npm") target.status = "published";
+    }
+    (previous.targets[1] as PubState["targets"][number]).status = "failed";
+
+    const state = resumePubState(createPubState(config(), "1.2.3"), previous);
+    expect(targetsOf(state)).toEqual([
+      "main npm published",
+      "main jsr pending",
+      "@x/a npm published",
+      "@x/a jsr pending",
+      "@x/b npm published",
+    ]);
+  });
+});
+
+describe("runPubTarget", () => {
+  afterEach(async () => {
+    await finishPubState();
+    rmSync(dirname(PUB_STATE_PATH), { recursive: true, force: true });
+  });
+
+  const readJournal = () => JSON.parse(readFileSync(PUB_STATE_PATH, "utf8")) as PubState;
+
+  test("runs the task without an active journal", async () => {
+    let runs = 0;
+    await runPubTarget("npm", undefined, async () => {
+      runs++;
+    });
+    expect(runs).toBe(1);
+    expect(existsSync(PUB_STATE_PATH)).toBe(false);
+  });
+
+  test("records published and failed targets in the journal", async () => {
+    await startPubState(createPubState(config({ libsActMode: "main-project-only" }), "1.2.3"));
+
+    await runPubTarget("npm", undefined, async () => undefined);
+    await expect(
+      runPubTarget("jsr", undefined, async () => {
+        throw new Error("401 Unauthorized");
+      }),
+    ).rejects.toThrow("401 Unauthorized");
+
+    expect(readJournal().targets.map(({ status, error }) => ({ status, error }))).toEqual([
+      { status: "published", error: undefined },
+      { status: "failed", error: "401 Unauthorized" },
+    ]);
+    expect((await finishPubState()).map(({ registry }) => registry)).toEqual(["jsr"]);
+    expect(existsSync(PUB_STATE_PATH)).toBe(true);
+  });
+
+  test("skips the targets that are already published", async () => {
+    const state = createPubState(config({ libsActMode: "main-project-only" }), "1.2.3");
+    for (const target of state.targets) target.status = "published";
+    await startPubState(state);
+
+    let runs = 0;
+    await runPubTarget("npm", undefined, async () => {
+      runs++;
+    });
+    expect(runs).toBe(0);
+    expect(await finishPubState()).toEqual([]);
+    expect(existsSync(PUB_STATE_PATH)).toBe(false);
+  });
+
+  test("keeps the task's outcome when the journal can't be written", async () => {
+    await startPubState(createPubState(config({ libsActMode: "main-project-only" }), "1.2.3"));
+    // a file in place of the journal dir makes every write fail
+    rmSync(dirname(PUB_STATE_PATH), { recursive: true, force: true });
+    writeFileSync(dirname(PUB_STATE_PATH), "");
+
+    await runPubTarget("npm", undefined, async () => undefined);
+    await expect(
+      runPubTarget("jsr", undefined, async () => {
+        throw new Error("network error");
+      }),
+    ).rejects.toThrow("network error");
+  });
+});
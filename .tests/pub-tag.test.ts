@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+
+import { getPrereleaseVersion, resolveDistTag } from "~/libs/sdk/sdk-impl/pub/pub-tag";
+
+describe("getPrereleaseVersion", () => {
+  test("starts a prerelease of the next patch", () => {
+    expect(getPrereleaseVersion("1.2.3", "beta")).toBe("1.2.4-beta.0");
+  });
+
+  test("increments the counter of the same preid", () => {
+    expect(getPrereleaseVersion("1.3.0-beta.1", "beta")).toBe("1.3.0-beta.2");
+  });
+
+  test("restarts the counter for a different preid", () => {
+    expect(getPrereleaseVersion("1.3.0-alpha.4", "beta")).toBe("1.3.0-beta.0");
+  });
+
+  test("uses a numeric prerelease without a preid", () => {
+    expect(getPrereleaseVersion("1.2.3", "")).toBe("1.2.4-0");
+  });
+
+  test("rejects an invalid version", () => {
+    expect(() => getPrereleaseVersion("not-a-version", "beta")).toThrow(
+      "Failed to bump version not-a-version to a prerelease",
+    );
+  });
+});
+
+describe("resolveDistTag", () => {
+  test("publishes stable versions under pubTag or latest", () => {
+    expect(resolveDistTag("", "1.2.3")).toBe("latest");
+    expect(resolveDistTag("next", "1.2.3")).toBe("next");
+  });
+
+  test("publishes prereleases under their preid when pubTag is empty", () => {
+    expect(resolveDistTag("", "1.3.0-beta.2")).toBe("beta");
+    expect(resolveDistTag("", "1.3.0-0")).toBe("next");
+  });
+
+  test("prefers pubTag for prereleases", () => {
+    expect(resolveDistTag("canary", "1.3.0-beta.2")).toBe("canary");
+  });
+
+  test("never publishes a prerelease under latest", () => {
+    expect(() => resolveDistTag("latest", "1.3.0-beta.2")).toThrow(
+      /can't be published under the "latest" dist-tag/,
+    );
+  });
+});
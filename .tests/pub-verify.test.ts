@@ -0,0 +1,130 @@
+import { join, resolve } from "@reliverse/pathkit";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import {
+  comparePackument,
+  type RegistryPackument,
+  verifyPublishedPackages,
+} from "~/libs/sdk/sdk-impl/pub/pub-verify";
+
+const expected = {
+  name: "@x/pkg",
+  distTag: "latest",
+  exports: { ".": "./bin/mod.js" },
+  bin: { pkg: "bin/cli.js" },
+  fileCount: 3,
+};
+
+const packument = (
+  version: Record<string, unknown> = {},
+  distTags: Record<string, string> = { latest: "1.0.0" },
+): RegistryPackument => ({
+  "dist-tags": distTags,
+  versions: {
+    "1.0.0": {
+      exports: { ".": "./bin/mod.js" },
+      bin: { pkg: "./bin/cli.js" },
+      dist: { fileCount: 3 },
+      ...version,
+    },
+  },
+});
+
+describe("comparePackument", () => {
+  test("matches a packument published from the same dist", () => {
+    expect(comparePackument(packument(), "1.0.0", expected)).toEqual([]);
+  });
+
+  test("reports a version missing from the registry", () => {
+    expect(comparePackument(undefined, "1.0.0", expected)).toEqual([
+      { field: "version", expected: "1.0.0", actual: "not found on the registry" },
+    ]);
+  });
+
+  test("reports an outdated dist-tag", () => {
+    expect(comparePackument(packument({}, { latest: "0.9.0" }), "1.0.0", expected)).toEqual([
+      { field: "dist-tag", expected: "latest → 1.0.0", actual: "latest → 0.9.0" },
+    ]);
+  });
+
+  test("reports exports, bin and file count mismatches", () => {
+    const mismatches = comparePackument(
+      packument({ exports: { ".": "./mod.js" }, bin: "./bin/cli.js", dist: { fileCount: 5 } }),
+      "1.0.0",
+      expected,
+    );
+    expect(mismatches.map((m) => m.field)).toEqual(["exports", "fileCount"]);
+  });
+
+  test("skips the file count when the registry doesn't report it", () => {
+    expect(comparePackument(packument({ dist: {} }), "1.0.0", expected)).toEqual([]);
+  });
+});
+
+describe("verifyPublishedPackages", () => {
+  const distNpmDirName = `.test-verify-${Date.now()}`;
+  const distDir = resolve(process.cwd(), distNpmDirName);
+  const config = {
+    libsActMode: "main-project-only",
+    commonPubRegistry: "npm",
+    distNpmDirName,
+    pubTag: "",
+    pubNpmRegistry: "",
+  } as DlerConfig;
+
+  beforeEach(async () => {
+    await Bun.write(
+      join(distDir, "package.json"),
+      JSON.stringify({
+        name: "@x/pkg",
+        version: "1.0.0",
+        exports: { ".": "./bin/mod.js" },
+        bin: { pkg: "./bin/cli.js" },
+      }),
+    );
+    await Bun.write(join(distDir, "bin", "mod.js"), "export {};\n");
+    await Bun.write(join(distDir, "bin", "cli.js"), "#!/usr/bin/env node\n");
+  });
+
+  afterEach(() => {
+    rmSync(distDir, { recursive: true, force: true });
+  });
+
+  test("compares the built dist with the fetched metadata", async () => {
+    const requested: string[] = [];
+    const results = await verifyPublishedPackages(config, async (name) => {
+      requested.push(name);
+      return packument({ bin: { pkg: "./bin/other.js" } });
+    });
+
+    expect(requested).toEqual(["@x/pkg"]);
+    expect(results).toEqual([
+      {
+        target: "main",
+        name: "@x/pkg",
+        version: "1.0.0",
+        mismatches: [
+          { field: "bin", expected: '{"pkg":"bin/cli.js"}', actual: '{"pkg":"bin/other.js"}' },
+        ],
+      },
+    ]);
+  });
+
+  test("reports a failed fetch as an unverified package instead of throwing", async () => {
+    const results = await verifyPublishedPackages(config, async () => {
+      throw new Error("Request failed with status code 503 Service Unavailable");
+    });
+    expect(results).toEqual([
+      {
+        target: "main",
+        name: "@x/pkg",
+        version: "1.0.0",
+        mismatches: [],
+        error: "Request failed with status code 503 Service Unavailable",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+
+import type { CheckReportEntry } from "~/libs/sdk/sdk-impl/rules/rules-report";
+import type { CheckIssue } from "~/libs/sdk/sdk-impl/sdk-types";
+
+import {
+  createJUnitReport,
+  createSarifReport,
+  formatCheckReport,
+} from "~/libs/sdk/sdk-impl/rules/rules-report";
+
+const rule = {
+  id: "path-extensions",
+  description: "import path extensions",
+  severity: "error",
+} as const;
+
+const entry = (directory: string, issues: CheckIssue[], error?: string): CheckReportEntry => ({
+  rule,
+  directory,
+  result: {
+    success: error === undefined && !issues.some((issue) => issue.severity === "error"),
+    issues,
+    stats: { filesChecked: 2, importsChecked: 4, timeElapsed: 1500 },
+  },
+  ...(error !== undefined && { error }),
+});
+
+const errorIssue: CheckIssue = {
+  file: "src\\mod.ts",
+  line: 3,
+  column: 8,
+  message: 'import uses .ts extension: "./a.ts" & <b>',
+  type: "path-extension",
+  severity: "error",
+};
+const warnIssue: CheckIssue = {
+  file: "src/b.ts",
+  message: "no line",
+  type: "path-extension",
+  severity: "warn",
+};
+
+describe("createSarifReport", () => {
+  test("reports one result per issue with its location", () => {
+    const report = createSarifReport([entry("src", [errorIssue, warnIssue])]);
+    const [run] = report.runs;
+
+    expect(run?.tool.driver.rules).toEqual([
+      {
+        id: "path-extensions",
+        shortDescription: { text: "import path extensions" },
+        defaultConfiguration: { level: "error" },
+      },
+    ]);
+    expect(run?.results).toEqual([
+      {
+        ruleId: "path-extensions",
+        level: "error",
+        message: { text: errorIssue.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "src/mod.ts" },
+              region: { startLine: 3, startColumn: 8 },
+            },
+          },
+        ],
+      },
+      {
+        ruleId: "path-extensions",
+        level: "warning",
+        message: { text: "no line" },
+        locations: [{ physicalLocation: { artifactLocation: { uri: "src/b.ts" } } }],
+      },
+    ]);
+    expect(run?.invocations).toEqual([
+      { executionSuccessful: true, toolExecutionNotifications: [] },
+    ]);
+  });
+
+  test("reports a rule that threw as a tool execution notification", () => {
+    const [run] = createSarifReport([entry("dist-npm", [], "ENOENT")]).runs;
+    expect(run?.results).toEqual([]);
+    expect(run?.invocations).toEqual([
+      {
+        executionSuccessful: false,
+        toolExecutionNotifications: [
+          {
+            level: "error",
+            message: { text: "path-extensions failed to check dist-npm: ENOENT" },
+            associatedRule: { id: "path-extensions" },
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("createJUnitReport", () => {
+  test("writes a test case per rule and directory", () => {
+    const report = createJUnitReport([
+      entry("src", [errorIssue, warnIssue]),
+      entry("dist-npm", []),
+    ]);
+    expect(report).toContain(
+      '<testsuites name="dler check" tests="2" failures="1" errors="0" time="3.000">',
+    );
+    expect(report).toContain(
+      '<testsuite name="src" tests="1" failures="1" errors="0" time="1.500">',
+    );
+    expect(report).toContain(
+      '<failure message="1 issue(s)" type="path-extensions">src\\mod.ts:3:8: import uses .ts extension: &quot;./a.ts&quot; &amp; &lt;b&gt;</failure>',
+    );
+    expect(report).toContain("<system-out>src/b.ts: no line</system-out>");
+    expect(report).toContain(
+      '<testcase classname="dist-npm" name="path-extensions" time="1.500" />',
+    );
+  });
+
+  test("reports a rule that threw as an error, not a failure", () => {
+    const report = createJUnitReport([entry("src", [], "boom")]);
+    expect(report).toContain('tests="1" failures="0" errors="1"');
+    expect(report).toContain('<error message="boom" type="path-extensions">boom</error>');
+    expect(report).not.toContain("<failure");
+  });
+});
+
+describe("formatCheckReport", () => {
+  test("adds the error of a rule that threw to the json report", () => {
+    const report = JSON.parse(
+      formatCheckReport("json", [entry("src", []), entry("dist-npm", [], "boom")]),
+    ) as { rule: string; directory: string; success: boolean; error?: string }[];
+    expect(report.map(({ directory, success, error }) => ({ directory, success, error }))).toEqual([
+      { directory: "src", success: true, error: undefined },
+      { directory: "dist-npm", success: false, error: "boom" },
+    ]);
+  });
+});
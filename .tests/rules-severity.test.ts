@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import {
+  getCheckRuleLevel,
+  isCheckRuleOff,
+  isIssueIgnored,
+  parseIgnoreComments,
+} from "~/libs/sdk/sdk-impl/rules/rules-severity";
+
+describe("parseIgnoreComments", () => {
+  test("a comment alone on its line covers the next line", () => {
+    const comments = parseIgnoreComments(
+      [
+        "// dler-check-ignore path-extensions -- generated",
+        'import a from "./a.ts";',
+        'import b from "./b.ts";',
+      ].join("\n"),
+    );
+    expect(isIssueIgnored(comments, "path-extensions", 2)).toBe(true);
+    expect(isIssueIgnored(comments, "path-extensions", 3)).toBe(false);
+    expect(isIssueIgnored(comments, "missing-deps", 2)).toBe(false);
+  });
+
+  test("a trailing comment covers its own line only", () => {
+    const comments = parseIgnoreComments(
+      'import a from "./a.ts"; // dler-check-ignore path-extensions, missing-deps\nexport {};',
+    );
+    expect(comments.lines.get(1)).toEqual(new Set(["path-extensions", "missing-deps"]));
+    expect(comments.lines.has(2)).toBe(false);
+  });
+
+  test("block comments are parsed like line comments", () => {
+    const comments = parseIgnoreComments(
+      [
+        "/* dler-check-ignore path-extensions -- generated */",
+        'import a from "./a.ts";',
+        '/* dler-check-ignore missing-deps */ import b from "b";',
+        'import c from "c"; /* dler-check-ignore-file self-include */',
+      ].join("\n"),
+    );
+    expect(comments.lines.get(2)).toEqual(new Set(["path-extensions"]));
+    expect(comments.lines.get(3)).toEqual(new Set(["missing-deps"]));
+    expect(comments.lines.has(4)).toBe(false);
+    expect(comments.file).toEqual(new Set(["self-include"]));
+  });
+
+  test("a comment without rule ids ignores every rule", () => {
+    const comments = parseIgnoreComments("// dler-check-ignore\nconst x = 1;");
+    expect(comments.lines.get(2)).toBe("all");
+    expect(isIssueIgnored(comments, "any-rule", 2)).toBe(true);
+  });
+
+  test("file comments ignore rules in the whole file", () => {
+    expect(parseIgnoreComments("// dler-check-ignore-file\n").file).toBe("all");
+
+    const comments = parseIgnoreComments(
+      "// dler-check-ignore-file no-index-files\n// dler-check-ignore-file self-include\n",
+    );
+    expect(comments.file).toEqual(new Set(["no-index-files", "self-include"]));
+    expect(isIssueIgnored(comments, "self-include")).toBe(true);
+    expect(isIssueIgnored(comments, "missing-deps", 10)).toBe(false);
+  });
+});
+
+describe("getCheckRuleLevel", () => {
+  const rule = { id: "path-extensions", severity: "error" } as const;
+  const config = {
+    checkRules: {
+      rules: { "path-extensions": "warn" },
+      overrides: [
+        { files: ["src/**/*.ts"], rules: { "path-extensions": "error" } },
+        { files: ["src/generated/**"], rules: { "path-extensions": "off" } },
+      ],
+    },
+  } as unknown as DlerConfig;
+
+  test("uses the rule's default severity without settings", () => {
+    expect(getCheckRuleLevel({} as DlerConfig, rule)).toBe("error");
+  });
+
+  test("prefers checkRules.rules over the default", () => {
+    expect(getCheckRuleLevel(config, rule)).toBe("warn");
+    expect(getCheckRuleLevel(config, rule, "tests/a.ts")).toBe("warn");
+  });
+
+  test("applies the last matching override", () => {
+    expect(getCheckRuleLevel(config, rule, "src/mod.ts")).toBe("error");
+    expect(getCheckRuleLevel(config, rule, "src/generated/types.ts")).toBe("off");
+  });
+
+  test("keeps a rule that an override turns back on", () => {
+    const offConfig = {
+      checkRules: {
+        rules: { "path-extensions": "off" },
+        overrides: [{ files: ["src/**"], rules: { "path-extensions": "warn" } }],
+      },
+    } as unknown as DlerConfig;
+    expect(isCheckRuleOff(offConfig, rule)).toBe(false);
+    const alwaysOffConfig = {
+      checkRules: { rules: { "path-extensions": "off" } },
+    } as unknown as DlerConfig;
+    expect(isCheckRuleOff(alwaysOffConfig, rule)).toBe(true);
+  });
+});
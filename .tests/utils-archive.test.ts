@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { crc32, inflateRawSync } from "node:zlib";
+
+import {
+  type ArchiveEntry,
+  createTarGz,
+  createZip,
+  extractTarGz,
+} from "~/libs/sdk/sdk-impl/utils/utils-archive";
+
+const mtime = new Date("2024-05-06T07:08:10Z");
+const entries: ArchiveEntry[] = [
+  { name: "bin/cli", content: Buffer.from("#!/usr/bin/env node\n"), mode: 0o755, mtime },
+  { name: "README.md", content: Buffer.from("# héllo\n".repeat(100)), mode: 0o644, mtime },
+  { name: "empty.txt", content: Buffer.alloc(0), mode: 0o644, mtime },
+];
+
+// reads the local file headers of a zip archive
+function readZip(archive: Buffer) {
+  const files: { name: string; content: Buffer; checksum: number }[] = [];
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const checksum = archive.readUInt32LE(offset + 14);
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const extraLength = archive.readUInt16LE(offset + 28);
+    const nameStart = offset + 30;
+    const dataStart = nameStart + nameLength + extraLength;
+    files.push({
+      name: archive.subarray(nameStart, nameStart + nameLength).toString("utf8"),
+      content: inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)),
+      checksum,
+    });
+    offset = dataStart + compressedSize;
+  }
+  return { files, centralDirOffset: offset };
+}
+
+describe("createTarGz", () => {
+  test("round-trips names, contents, modes and mtimes", () => {
+    expect(extractTarGz(createTarGz(entries))).toEqual(entries);
+  });
+
+  test("rejects names longer than the ustar header", () => {
+    const name = `${"a".repeat(98)}/b.js`;
+    expect(() => createTarGz([{ ...entries[0]!, name }])).toThrow("Archive entry name is too long");
+  });
+});
+
+describe("createZip", () => {
+  test("round-trips names and contents with valid checksums", () => {
+    const { files } = readZip(createZip(entries));
+    expect(files.map(({ name, content }) => ({ name, content }))).toEqual(
+      entries.map(({ name, content }) => ({ name, content })),
+    );
+    for (const file of files) {
+      expect(file.checksum).toBe(crc32(file.content));
+    }
+  });
+
+  test("keeps unix modes in the central directory", () => {
+    const archive = createZip(entries);
+    const { centralDirOffset } = readZip(archive);
+    expect(archive.readUInt32LE(centralDirOffset)).toBe(0x02014b50);
+    expect(archive.readUInt32LE(centralDirOffset + 38) >>> 16).toBe(0o100755);
+
+    // the end of central directory record lists every entry
+    const end = archive.subarray(archive.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(entries.length);
+    expect(end.readUInt32LE(16)).toBe(centralDirOffset);
+  });
+});
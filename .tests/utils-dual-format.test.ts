@@ -0,0 +1,51 @@
+import { join, resolve } from "@reliverse/pathkit";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import { mkdir, readFile } from "node:fs/promises";
+
+import { finalizeDualFormatOutput } from "~/libs/sdk/sdk-impl/utils/utils-dual-format";
+
+describe("finalizeDualFormatOutput", () => {
+  const outDir = resolve(process.cwd(), `.test-dual-${Date.now()}`);
+
+  beforeEach(async () => {
+    await mkdir(outDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  test("points relative .js specifiers to the file's own format", async () => {
+    await Bun.write(
+      join(outDir, "mod.mjs"),
+      '// see "./legacy.js"\nimport { a } from "./a.js";\nexport * from "../b.js";\nimport x from "pkg/x.js";\nconst c = await import("./c.js");\n',
+    );
+    await Bun.write(
+      join(outDir, "mod.cjs"),
+      'const a = require("./a.js");\nconst s = "require(\'./b.js\')";\n',
+    );
+
+    await finalizeDualFormatOutput(outDir);
+
+    expect(await readFile(join(outDir, "mod.mjs"), "utf8")).toBe(
+      '// see "./legacy.js"\nimport { a } from "./a.mjs";\nexport * from "../b.mjs";\nimport x from "pkg/x.js";\nconst c = await import("./c.mjs");\n',
+    );
+    expect(await readFile(join(outDir, "mod.cjs"), "utf8")).toBe(
+      'const a = require("./a.cjs");\nconst s = "require(\'./b.js\')";\n',
+    );
+  });
+
+  test("emits .d.mts and .d.cts declarations next to each .d.ts", async () => {
+    await Bun.write(join(outDir, "mod.d.ts"), 'export type { A } from "./a.js";\n');
+
+    await finalizeDualFormatOutput(outDir);
+
+    expect(await readFile(join(outDir, "mod.d.mts"), "utf8")).toBe(
+      'export type { A } from "./a.mjs";\n',
+    );
+    expect(await readFile(join(outDir, "mod.d.cts"), "utf8")).toBe(
+      'export type { A } from "./a.cjs";\n',
+    );
+  });
+});
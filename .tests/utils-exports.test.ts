@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  createDualPackageExportsMap,
+  createJsrExportsMap,
+  createPackageExportsMap,
+  resolveExportEntries,
+} from "~/libs/sdk/sdk-impl/utils/utils-exports";
+
+describe("resolveExportEntries", () => {
+  test("merges the main entry with normalized subpaths", () => {
+    expect(
+      resolveExportEntries("./mod.ts", { utils: "./utils/mod.ts", "./cli/": "cli/mod.ts" }),
+    ).toEqual({ ".": "mod.ts", "./utils": "utils/mod.ts", "./cli": "cli/mod.ts" });
+  });
+
+  test("reserves the . subpath for the main entry", () => {
+    expect(() => resolveExportEntries("mod.ts", { ".": "other.ts" })).toThrow(/reserved/);
+  });
+
+  test("rejects a subpath without a source file", () => {
+    expect(() => resolveExportEntries("mod.ts", { utils: "" })).toThrow(
+      'Export "./utils" has no source entry file.',
+    );
+  });
+});
+
+describe("createPackageExportsMap", () => {
+  test("lists types first, then import and default", () => {
+    const exportsMap = createPackageExportsMap(
+      { ".": "mod.ts", "./utils": "utils/mod.ts" },
+      "bin",
+      "js",
+      true,
+    );
+    expect(exportsMap).toEqual({
+      ".": { types: "./bin/mod.d.ts", import: "./bin/mod.js", default: "./bin/mod.js" },
+      "./utils": {
+        types: "./bin/utils/mod.d.ts",
+        import: "./bin/utils/mod.js",
+        default: "./bin/utils/mod.js",
+      },
+    });
+    expect(Object.keys(exportsMap["."] ?? {})).toEqual(["types", "import", "default"]);
+  });
+
+  test("replaces .tsx, .mts and .cts source extensions", () => {
+    expect(
+      createPackageExportsMap(
+        { ".": "mod.tsx", "./server": "server.mts", "./legacy": "legacy.cts" },
+        "bin",
+        "js",
+        true,
+      ),
+    ).toEqual({
+      ".": { types: "./bin/mod.d.ts", import: "./bin/mod.js", default: "./bin/mod.js" },
+      "./server": {
+        types: "./bin/server.d.ts",
+        import: "./bin/server.js",
+        default: "./bin/server.js",
+      },
+      "./legacy": {
+        types: "./bin/legacy.d.ts",
+        import: "./bin/legacy.js",
+        default: "./bin/legacy.js",
+      },
+    });
+  });
+
+  test("omits types without declarations", () => {
+    expect(createPackageExportsMap({ ".": "mod.ts" }, "bin", "js", false)).toEqual({
+      ".": { import: "./bin/mod.js", default: "./bin/mod.js" },
+    });
+  });
+});
+
+describe("createJsrExportsMap", () => {
+  test("keeps a single entry as a string", () => {
+    expect(createJsrExportsMap({ ".": "mod.ts" }, "bin")).toBe("./bin/mod.ts");
+  });
+
+  test("maps several entries by subpath", () => {
+    expect(createJsrExportsMap({ ".": "mod.ts", "./utils": "utils/mod.ts" }, "bin")).toEqual({
+      ".": "./bin/mod.ts",
+      "./utils": "./bin/utils/mod.ts",
+    });
+  });
+});
+
+describe("createDualPackageExportsMap", () => {
+  test("nests import (.mjs) and require (.cjs) conditions with their own types", () => {
+    expect(
+      createDualPackageExportsMap({ ".": "mod.ts", "./utils": "utils/mod.ts" }, "bin", true),
+    ).toEqual({
+      ".": {
+        import: { types: "./bin/mod.d.mts", default: "./bin/mod.mjs" },
+        require: { types: "./bin/mod.d.cts", default: "./bin/mod.cjs" },
+      },
+      "./utils": {
+        import: { types: "./bin/utils/mod.d.mts", default: "./bin/utils/mod.mjs" },
+        require: { types: "./bin/utils/mod.d.cts", default: "./bin/utils/mod.cjs" },
+      },
+    });
+  });
+
+  test("omits types without declarations", () => {
+    expect(createDualPackageExportsMap({ ".": "mod.ts" }, "bin", false)).toEqual({
+      ".": { import: { default: "./bin/mod.mjs" }, require: { default: "./bin/mod.cjs" } },
+    });
+  });
+});
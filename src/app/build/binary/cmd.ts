@@ -32,9 +32,18 @@
  * # Exclude specific packages from bundling
  * bun dler build binary --external=c12,terminal-kit,problematic-package
  *
+ * # Custom base name of the output files (defaults to the coreIsCLI script or package name)
+ * bun dler build binary --name=mycli
+ *
+ * # Package each target with README/LICENSE into .tar.gz (linux/darwin) or .zip (windows)
+ * bun dler build binary --archive --archive-name="[name]-v[version]-[target]"
+ *
  * # Create bundled scripts instead of executables (for debugging)
  * bun dler build binary --no-compile
  *
+ * Every build also writes SHA256SUMS and manifest.json (target, file, size, hash, version)
+ * next to the built files.
+ *
  * @see https://bun.com/docs/bundler/executables
  */
 
@@ -52,7 +61,11 @@ import {
   cleanOutputDir,
   buildForTarget,
   getOutputFileName,
+  getDefaultBinaryName,
+  writeBinaryManifest,
+  DEFAULT_ARCHIVE_NAME,
 } from "~/libs/sdk/sdk-impl/build/providers/bun/single-file";
+import { getConfigDler } from "~/libs/sdk/sdk-impl/config/load";
 
 export default defineCommand({
   meta: {
@@ -76,6 +89,11 @@ export default defineCommand({
       description: "Output directory for built executables",
       default: "dist",
     },
+    name: {
+      type: "string",
+      description:
+        "Base name of the output files (defaults to the coreIsCLI script name or the package name)",
+    },
     minify: {
       type: "boolean",
       description: "Minify the output",
@@ -120,6 +138,18 @@ export default defineCommand({
       description: "External dependencies to exclude from bundle",
       default: ["c12", "terminal-kit"],
     },
+    archive: {
+      type: "boolean",
+      description:
+        "Package each target with README/LICENSE into .tar.gz (linux/darwin) or .zip (windows)",
+      default: false,
+    },
+    "archive-name": {
+      type: "string",
+      description:
+        "Archive name template without extension ([name], [version], [platform], [arch], [target])",
+      default: DEFAULT_ARCHIVE_NAME,
+    },
     "no-compile": {
       type: "boolean",
       description:
@@ -147,7 +177,9 @@ export default defineCommand({
       }
 
       // Build options
+      const name = args.name || (await getDefaultBinaryName(args.input, await getConfigDler()));
       const options: BuildOptions = {
+        name,
         minify: args.minify,
         sourcemap: args.sourcemap,
         bytecode: args.bytecode,
@@ -158,6 +190,8 @@ export default defineCommand({
         assetNaming: args["asset-naming"],
         external: args.external as string[],
         compile: !args["no-compile"],
+        archive: args.archive,
+        archiveName: args["archive-name"],
       };
 
       // Clean output directory
@@ -188,6 +222,7 @@ export default defineCommand({
       }
 
       // Build targets
+      const builtTargets: typeof targets = [];
       if (args.parallel && targets.length > 1) {
         relinka("info", "Building targets in parallel...");
         const buildPromises = targets.map((target) => buildForTarget(target, args.input, options));
@@ -197,9 +232,10 @@ export default defineCommand({
         let successCount = 0;
         let failureCount = 0;
 
-        for (const result of results) {
+        for (const [index, result] of results.entries()) {
           if (result.status === "fulfilled") {
             successCount++;
+            builtTargets.push(targets[index]!);
           } else {
             failureCount++;
             relinka("error", `Build failed: ${result.reason}`);
@@ -229,6 +265,7 @@ export default defineCommand({
           try {
             await buildForTarget(target, args.input, options);
             sequentialSuccessCount++;
+            builtTargets.push(target);
           } catch (error) {
             sequentialFailureCount++;
           }
@@ -253,17 +290,25 @@ export default defineCommand({
         const fileType = options.compile ? "executables" : "bundled scripts";
         relinka("info", `Generated ${fileType}:`);
         for (const target of targets) {
-          const filePath = join(options.outdir, getOutputFileName(target, "dler", options.compile));
+          const filePath = join(
+            options.outdir,
+            getOutputFileName(target, options.name, options.compile),
+          );
           if (existsSync(filePath)) {
             const stat = await Bun.file(filePath).size;
             const sizeMB = (stat / (1024 * 1024)).toFixed(2);
             relinka(
               "info",
-              `  ${getOutputFileName(target, "dler", options.compile)} (${sizeMB} MB)`,
+              `  ${getOutputFileName(target, options.name, options.compile)} (${sizeMB} MB)`,
             );
           }
         }
       }
+
+      // Write checksums and manifest for release uploads
+      if (builtTargets.length > 0) {
+        await writeBinaryManifest(builtTargets, options);
+      }
     } catch (error) {
       relinka("error", `Build failed: ${error}`);
       process.exit(1);
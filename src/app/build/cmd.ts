@@ -1,6 +1,7 @@
 import { defineArgs, defineCommand } from "@reliverse/rempts";
 
 import { dlerBuild } from "~/app/build/impl";
+import { dlerBuildWatch } from "~/app/build/watch";
 import { ensureDlerConfig } from "~/libs/sdk/sdk-impl/config/init";
 import { getConfigDler } from "~/libs/sdk/sdk-impl/config/load";
 import { finalizeBuild } from "~/libs/sdk/sdk-mod";
@@ -15,6 +16,11 @@ export default defineCommand({
       type: "boolean",
       description: "Runs the CLI in dev mode",
     },
+    analyze: {
+      type: "boolean",
+      description:
+        "Write a bundle composition report (HTML treemap + JSON) to dist-analyze (bun and rollup builders)",
+    },
     debugOnlyCopyNonBuildFiles: {
       type: "boolean",
       description: "Only copy non-build files to dist directories",
@@ -24,18 +30,34 @@ export default defineCommand({
       description:
         "Don't copy non-build files to dist directories, only build buildPreExtensions files",
     },
+    updateSizeSnapshot: {
+      type: "boolean",
+      description: "Overwrite the sizeBudgets.snapshotFile with the current output sizes",
+    },
+    watch: {
+      type: "boolean",
+      description:
+        "Watch coreEntrySrcDir and libsDirSrc, and rebuild only the affected targets on change",
+    },
   }),
   async run({ args }) {
     const isDev = args.dev || process.env.DLER_DEV_MODE === "true";
     await ensureDlerConfig(isDev);
 
-    const config = await getConfigDler();
+    const loadedConfig = await getConfigDler();
+    const config = args.analyze ? { ...loadedConfig, buildAnalyze: true } : loadedConfig;
+
+    if (args.watch) {
+      await dlerBuildWatch(isDev, config, args.debugDontCopyNonBuildFiles);
+      return;
+    }
 
     const { timer } = await dlerBuild(
       isDev,
       config,
       args.debugOnlyCopyNonBuildFiles,
       args.debugDontCopyNonBuildFiles,
+      args.updateSizeSnapshot,
     );
 
     await finalizeBuild(timer, false, "build");
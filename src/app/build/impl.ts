@@ -4,6 +4,7 @@ import { relinka } from "@reliverse/relinka";
 
 import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
 
+import { writeBundleAnalysisReport } from "~/libs/sdk/sdk-impl/build/build-analyze";
 import { getConfigDler } from "~/libs/sdk/sdk-impl/config/load";
 import { library_buildFlow } from "~/libs/sdk/sdk-impl/library-flow";
 import { regular_buildFlow } from "~/libs/sdk/sdk-impl/regular-flow";
@@ -29,6 +30,7 @@ export async function dlerBuild(
   config?: DlerConfig,
   debugOnlyCopyNonBuildFiles?: boolean,
   debugDontCopyNonBuildFiles?: boolean,
+  updateSizeSnapshot?: boolean,
 ) {
   // Create a performance timer
   const timer = createPerfTimer();
@@ -74,24 +76,18 @@ export async function dlerBuild(
 
     // Build main project and, if configured, libraries
     // Use temporary directories as source for bundlers
-    const tempDirs = {
-      npm: "dist-tmp/tmp-npm",
-      jsr: "dist-tmp/tmp-jsr",
-      libs: "dist-tmp/tmp-libs",
-    };
-
-    // Create a modified config that points to temp directories
-    const tempConfig = {
-      ...effectiveConfig,
-      coreEntrySrcDir: tempDirs.npm,
-      libsDirSrc: tempDirs.libs,
-    };
+    const tempConfig = createTempBuildConfig(effectiveConfig);
 
     await regular_buildFlow(timer, isDev, tempConfig);
-    await library_buildFlow(timer, isDev, tempConfig);
+    await library_buildFlow(timer, isDev, tempConfig, undefined, effectiveConfig.libsDirSrc);
+
+    // Write the bundle composition report collected while bundling
+    if (effectiveConfig.buildAnalyze) {
+      await writeBundleAnalysisReport();
+    }
 
     // Run post checks/tools/hooks and copy non-build files
-    await dlerPostBuild(isDev, debugDontCopyNonBuildFiles);
+    await dlerPostBuild(isDev, debugDontCopyNonBuildFiles, undefined, updateSizeSnapshot);
 
     // Clean up temp directories
     if (effectiveConfig.postBuildSettings?.deleteDistTmpAfterBuild) {
@@ -103,3 +99,21 @@ export async function dlerBuild(
     handleDlerError(error);
   }
 }
+
+/**
+ * Creates a modified config that points bundlers to the temp directories
+ * filled by `dlerPreBuild`.
+ */
+export function createTempBuildConfig(config: DlerConfig): DlerConfig {
+  const tempDirs = {
+    npm: "dist-tmp/tmp-npm",
+    jsr: "dist-tmp/tmp-jsr",
+    libs: "dist-tmp/tmp-libs",
+  };
+
+  return {
+    ...config,
+    coreEntrySrcDir: tempDirs.npm,
+    libsDirSrc: tempDirs.libs,
+  };
+}
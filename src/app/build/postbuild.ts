@@ -8,11 +8,13 @@ import type { DlerConfig } from "~/libs/sdk/sdk-mod";
 
 import { getCheckCmd } from "~/app/cmds";
 import { getConfigDler } from "~/libs/sdk/sdk-impl/config/load";
+import { extractFolderName } from "~/libs/sdk/sdk-impl/library-flow";
 import { applyMagicSpells } from "~/libs/sdk/sdk-impl/magic/magic-apply";
 import { resolveAllCrossLibs } from "~/libs/sdk/sdk-impl/utils/resolve-cross-libs";
 import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
 
-import { directoryExists, executeDlerHooks } from "./ppb-utils";
+import { type DlerBuildScope, directoryExists, executeDlerHooks } from "./ppb-utils";
+import { checkSizeBudgets } from "./size-budgets";
 
 const ALIAS_TO_REPLACE = "~";
 
@@ -26,6 +28,8 @@ interface PostBuildTool {
 export async function dlerPostBuild(
   isDev: boolean,
   debugDontCopyNonBuildFiles?: boolean,
+  scope?: DlerBuildScope,
+  updateSizeSnapshot?: boolean,
 ): Promise<void> {
   relinka("info", "— — — dlerPostBuild — — —");
 
@@ -41,13 +45,13 @@ export async function dlerPostBuild(
 
   // Copy non-build files to dist directories
   if (!debugDontCopyNonBuildFiles) {
-    await wrapper_CopyNonBuildFiles(config);
+    await wrapper_CopyNonBuildFiles(config, scope);
   }
 
   // Apply magic spells only when building dler itself
   // Users should call applyMagicSpells manually in their codebase
   if (isDev) {
-    await applyMagicSpells(["dist-jsr", "dist-npm", "dist-libs"]);
+    await applyMagicSpells(getMagicSpellsTargets(config, scope));
   }
 
   // Convert alias to relative paths
@@ -73,13 +77,37 @@ export async function dlerPostBuild(
   // Compare file structures if dist-jsr exists and has bin directory
   const distJsrPath = path.join(PROJECT_ROOT, config.distJsrDirName);
   const distJsrBinPath = path.join(distJsrPath, "bin");
-  if ((await directoryExists(distJsrPath)) && (await directoryExists(distJsrBinPath))) {
+  if (
+    scope?.type !== "lib" &&
+    (await directoryExists(distJsrPath)) &&
+    (await directoryExists(distJsrBinPath))
+  ) {
     await compareFileStructures(path.join(PROJECT_ROOT, config.coreEntrySrcDir), distJsrPath);
   }
+
+  // Check output sizes against the configured budgets
+  await checkSizeBudgets(config, updateSizeSnapshot);
+}
+
+/**
+ * Gets the dist targets for magic spells, limited to the scoped target if any.
+ */
+function getMagicSpellsTargets(config: DlerConfig, scope?: DlerBuildScope): string[] {
+  if (!scope) return ["dist-jsr", "dist-npm", "dist-libs"];
+  if (scope.type === "main") return ["dist-jsr", "dist-npm"];
+  return [`dist-libs/${extractFolderName(scope.libName, config.libsList[scope.libName])}`];
 }
 
-export async function wrapper_CopyNonBuildFiles(config: DlerConfig): Promise<void> {
-  if (config.commonPubRegistry === "npm" || config.commonPubRegistry === "npm-jsr") {
+export async function wrapper_CopyNonBuildFiles(
+  config: DlerConfig,
+  scope?: DlerBuildScope,
+): Promise<void> {
+  const includeMain = scope?.type !== "lib";
+
+  if (
+    includeMain &&
+    (config.commonPubRegistry === "npm" || config.commonPubRegistry === "npm-jsr")
+  ) {
     await copyNonBuildFiles(
       path.join(PROJECT_ROOT, config.coreEntrySrcDir),
       path.join(PROJECT_ROOT, config.distNpmDirName),
@@ -88,7 +116,10 @@ export async function wrapper_CopyNonBuildFiles(config: DlerConfig): Promise<voi
     );
   }
 
-  if (config.commonPubRegistry === "jsr" || config.commonPubRegistry === "npm-jsr") {
+  if (
+    includeMain &&
+    (config.commonPubRegistry === "jsr" || config.commonPubRegistry === "npm-jsr")
+  ) {
     await copyNonBuildFiles(
       path.join(PROJECT_ROOT, config.coreEntrySrcDir),
       path.join(PROJECT_ROOT, config.distJsrDirName),
@@ -97,8 +128,13 @@ export async function wrapper_CopyNonBuildFiles(config: DlerConfig): Promise<voi
     );
   }
 
-  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
-    for (const [_, libConfig] of Object.entries(config.libsList)) {
+  if (
+    scope?.type !== "main" &&
+    (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs")
+  ) {
+    for (const [libName, libConfig] of Object.entries(config.libsList)) {
+      if (scope?.type === "lib" && scope.libName !== libName) continue;
+
       const srcPath = path.join(PROJECT_ROOT, config.libsDirSrc, libConfig.libDirName);
       const distPath = path.join(PROJECT_ROOT, config.libsDirDist, libConfig.libDirName);
 
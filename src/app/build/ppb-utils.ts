@@ -8,6 +8,13 @@ import { readPackageJSON } from "pkg-types";
 
 export type PackageManager = "bun" | "npm" | "yarn" | "pnpm";
 
+/**
+ * Part of the project handled by a build step:
+ * the main project (`coreEntrySrcDir`) or a single library from `libsList`.
+ * Steps called without a scope handle the whole project.
+ */
+export type DlerBuildScope = { type: "main" } | { type: "lib"; libName: string };
+
 // Map CLI commands to their package names
 const COMMAND_TO_PACKAGE: Record<string, string> = {
   tsc: "typescript",
@@ -0,0 +1,248 @@
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import { readFile } from "node:fs/promises";
+import { brotliCompressSync, gzipSync } from "node:zlib";
+import prettyBytes from "pretty-bytes";
+import { glob } from "tinyglobby";
+
+import type { DlerConfig, SizeBudget } from "~/libs/sdk/sdk-impl/config/types";
+
+import { extractFolderName } from "~/libs/sdk/sdk-impl/library-flow";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+type SizeMetric = "raw" | "gzip" | "brotli";
+
+const SIZE_METRICS: SizeMetric[] = ["raw", "gzip", "brotli"];
+
+type Sizes = Record<SizeMetric, number>;
+
+// Measured target, e.g. "dist-npm/bin" or "dist-libs/sdk/npm/bin/sdk-mod.js"
+interface SizeTarget {
+  id: string;
+  budget?: SizeBudget;
+}
+
+interface SizeViolation {
+  id: string;
+  message: string;
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1000,
+  mb: 1000 ** 2,
+  gb: 1000 ** 3,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+};
+
+/**
+ * Parses a size budget value: a number of bytes or a string with a unit (e.g. "20 kB").
+ */
+function parseSizeLimit(value: number | string): number {
+  if (typeof value === "number") return value;
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+  const unit = SIZE_UNITS[(match?.[2] || "b").toLowerCase()];
+  if (!match?.[1] || unit === undefined) {
+    throw new Error(`Invalid size budget "${value}". Use bytes or a unit like "20 kB"`);
+  }
+  return Math.round(Number.parseFloat(match[1]) * unit);
+}
+
+/**
+ * Measures the dists, libraries and entry files configured in `sizeBudgets`,
+ * prints a size table, and throws when a budget or the snapshot growth limit is exceeded.
+ */
+export async function checkSizeBudgets(
+  config: DlerConfig,
+  updateSnapshot?: boolean,
+): Promise<void> {
+  const budgets = config.sizeBudgets;
+  const hasBudgets =
+    Object.keys(budgets?.dists ?? {}).length > 0 ||
+    Object.keys(budgets?.libs ?? {}).length > 0 ||
+    Object.keys(budgets?.entries ?? {}).length > 0;
+  if (!budgets || (!hasBudgets && !budgets.snapshotFile)) return;
+
+  const sizes: Record<string, Sizes> = {};
+  const targets = await getSizeTargets(config);
+  for (const target of targets) {
+    const targetSizes = await measureSizes(path.join(PROJECT_ROOT, target.id));
+    if (targetSizes) sizes[target.id] = targetSizes;
+  }
+
+  const snapshotPath = budgets.snapshotFile
+    ? path.resolve(PROJECT_ROOT, budgets.snapshotFile)
+    : undefined;
+  const snapshot =
+    snapshotPath && !updateSnapshot ? await readSizeSnapshot(snapshotPath) : undefined;
+
+  const violations: SizeViolation[] = [];
+  for (const target of targets) {
+    const targetSizes = sizes[target.id];
+    if (!targetSizes) {
+      if (target.budget) {
+        violations.push({ id: target.id, message: "not found in the build output" });
+      }
+      continue;
+    }
+    for (const metric of SIZE_METRICS) {
+      const limit = target.budget?.[metric];
+      if (limit !== undefined && targetSizes[metric] > parseSizeLimit(limit)) {
+        violations.push({
+          id: target.id,
+          message: `${metric} size ${prettyBytes(targetSizes[metric])} exceeds budget ${prettyBytes(parseSizeLimit(limit))}`,
+        });
+      }
+      const previous = snapshot?.[target.id]?.[metric];
+      if (previous && targetSizes[metric] > previous * (1 + budgets.snapshotMaxGrowth / 100)) {
+        violations.push({
+          id: target.id,
+          message: `${metric} size grew ${formatGrowth(targetSizes[metric], previous)} since the snapshot (max +${budgets.snapshotMaxGrowth}%)`,
+        });
+      }
+    }
+  }
+
+  printSizeTable(targets, sizes, snapshot);
+
+  if (violations.length > 0) {
+    const details = violations.map(({ id, message }) => `  ${id}: ${message}`).join("\n");
+    if (budgets.failOnExceed) {
+      throw new Error(`Size budgets exceeded:\n${details}`);
+    }
+    relinka("warn", `Size budgets exceeded:\n${details}`);
+    return;
+  }
+
+  if (snapshotPath && (updateSnapshot || !snapshot)) {
+    await fs.ensureDir(path.dirname(snapshotPath));
+    await fs.writeJSON(snapshotPath, sizes, { spaces: 2 });
+    relinka("info", `Size snapshot written to ${path.relative(PROJECT_ROOT, snapshotPath)}`);
+  }
+}
+
+/**
+ * Collects the measured targets: main dists, each library's dists and entry files.
+ * Existing dists are measured even without a budget, so they show up in the table and snapshot.
+ */
+async function getSizeTargets(config: DlerConfig): Promise<SizeTarget[]> {
+  const budgets = config.sizeBudgets;
+  const targets: SizeTarget[] = [];
+
+  for (const dist of ["dist-npm", "dist-jsr"] as const) {
+    const distDirName = dist === "dist-npm" ? config.distNpmDirName : config.distJsrDirName;
+    const id = `${distDirName}/bin`;
+    const budget = budgets.dists?.[dist];
+    if (budget || (await fs.pathExists(path.join(PROJECT_ROOT, id)))) {
+      targets.push({ id, budget });
+    }
+  }
+
+  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
+    for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+      const budget = budgets.libs?.[libName];
+      const folderName = extractFolderName(libName, libConfig);
+      for (const registry of ["npm", "jsr"]) {
+        const id = `${config.libsDirDist}/${folderName}/${registry}/bin`;
+        if (await fs.pathExists(path.join(PROJECT_ROOT, id))) {
+          targets.push({ id, budget });
+        }
+      }
+    }
+  }
+
+  for (const [entry, budget] of Object.entries(budgets.entries ?? {})) {
+    targets.push({ id: entry.replace(/^\.\//, ""), budget });
+  }
+
+  return targets;
+}
+
+/**
+ * Measures a file or a directory (sum of its files). Compressed sizes are computed per file.
+ */
+async function measureSizes(targetPath: string): Promise<Sizes | undefined> {
+  if (!(await fs.pathExists(targetPath))) return undefined;
+
+  const files = (await fs.stat(targetPath)).isDirectory()
+    ? await glob("**/*", { absolute: true, cwd: targetPath, dot: true, onlyFiles: true })
+    : [targetPath];
+
+  const sizes: Sizes = { raw: 0, gzip: 0, brotli: 0 };
+  for (const file of files) {
+    // Read raw bytes: relifso's readFile decodes to a string
+    const content = await readFile(file);
+    sizes.raw += content.length;
+    sizes.gzip += gzipSync(content, { level: 9 }).length;
+    sizes.brotli += brotliCompressSync(content).length;
+  }
+  return sizes;
+}
+
+async function readSizeSnapshot(snapshotPath: string): Promise<Record<string, Sizes> | undefined> {
+  if (!(await fs.pathExists(snapshotPath))) return undefined;
+  try {
+    return JSON.parse(await fs.readFile(snapshotPath, "utf8")) as Record<string, Sizes>;
+  } catch (error) {
+    throw new Error(
+      `Failed to read size snapshot ${snapshotPath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function printSizeTable(
+  targets: SizeTarget[],
+  sizes: Record<string, Sizes>,
+  snapshot: Record<string, Sizes> | undefined,
+): void {
+  const header = ["Target", "Raw", "Gzip", "Brotli", "Budget"];
+  if (snapshot) header.push("Snapshot");
+
+  const rows = targets.map(({ id, budget }) => {
+    const targetSizes = sizes[id];
+    const budgetText = budget
+      ? SIZE_METRICS.filter((metric) => budget[metric] !== undefined)
+          .map(
+            (metric) =>
+              `${metric} ${prettyBytes(parseSizeLimit(budget[metric] as number | string))}`,
+          )
+          .join(", ")
+      : "-";
+    const row = [
+      id,
+      ...SIZE_METRICS.map((metric) => (targetSizes ? prettyBytes(targetSizes[metric]) : "-")),
+      budgetText,
+    ];
+    if (snapshot) {
+      const previous = snapshot[id];
+      row.push(
+        targetSizes && previous ? formatGrowth(targetSizes.gzip, previous.gzip) + " gzip" : "new",
+      );
+    }
+    return row;
+  });
+
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map((row) => (row[i] ?? "").length)),
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, i) => (i === 0 ? cell.padEnd(widths[i] ?? 0) : cell.padStart(widths[i] ?? 0)))
+      .join("  ");
+
+  relinka("info", "Output sizes:");
+  relinka("log", formatRow(header));
+  for (const row of rows) {
+    relinka("log", formatRow(row));
+  }
+}
+
+function formatGrowth(current: number, previous: number): string {
+  if (previous === 0) return current === 0 ? "±0%" : "+∞";
+  const percent = ((current - previous) / previous) * 100;
+  if (Math.abs(percent) < 0.05) return "±0%";
+  return `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+}
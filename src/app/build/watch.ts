@@ -0,0 +1,219 @@
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import { type FSWatcher, watch } from "node:fs";
+import prettyMilliseconds from "pretty-ms";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+import type { PerfTimer } from "~/libs/sdk/sdk-impl/sdk-types";
+
+import { writeBundleAnalysisReport } from "~/libs/sdk/sdk-impl/build/build-analyze";
+import { extractFolderName, library_buildFlow } from "~/libs/sdk/sdk-impl/library-flow";
+import { regular_buildFlow } from "~/libs/sdk/sdk-impl/regular-flow";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+import { createPerfTimer, getElapsedPerfTime } from "~/libs/sdk/sdk-impl/utils/utils-perf";
+
+import type { DlerBuildScope } from "./ppb-utils";
+
+import { createTempBuildConfig, dlerBuild } from "./impl";
+import { dlerPostBuild } from "./postbuild";
+import { dlerPreBuild } from "./prebuild";
+
+// Changes arriving within this window are merged into a single rebuild
+const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Runs a full build, then watches `coreEntrySrcDir` and `libsDirSrc`
+ * and rebuilds only the main project or libraries affected by each change.
+ * Resolves when the process receives SIGINT/SIGTERM.
+ */
+export async function dlerBuildWatch(
+  isDev: boolean,
+  config: DlerConfig,
+  debugDontCopyNonBuildFiles?: boolean,
+): Promise<void> {
+  // The whole pipeline is rerun on change, so bundler-level watchers must stay off
+  const watchConfig: DlerConfig = { ...config, transpileWatch: false };
+
+  relinka("info", "[watch] Running initial build...");
+  await dlerBuild(isDev, watchConfig, undefined, debugDontCopyNonBuildFiles);
+
+  const watchDirs = await getWatchDirs(watchConfig);
+  if (watchDirs.length === 0) {
+    relinka("warn", "[watch] Nothing to watch: coreEntrySrcDir and libsDirSrc do not exist");
+    return;
+  }
+
+  const pendingFiles = new Set<string>();
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let isRebuilding = false;
+  let cycle = 0;
+
+  const runCycle = async () => {
+    // A running cycle reschedules itself when it finishes, picking up pending changes
+    if (isRebuilding) return;
+
+    const changedFiles = [...pendingFiles];
+    pendingFiles.clear();
+    const scopes = getAffectedBuildScopes(watchConfig, changedFiles);
+    if (scopes.length === 0) return;
+
+    isRebuilding = true;
+    cycle++;
+    relinka(
+      "info",
+      `[watch] #${cycle} ${changedFiles.length} file(s) changed -> rebuilding ${scopes.map(formatBuildScope).join(", ")}`,
+    );
+    for (const file of changedFiles) {
+      relinka("verbose", `[watch]   ${path.relative(PROJECT_ROOT, file)}`);
+    }
+
+    try {
+      const timer = await dlerRebuildScopes(isDev, watchConfig, scopes, debugDontCopyNonBuildFiles);
+      relinka(
+        "success",
+        `[watch] #${cycle} rebuilt in ${prettyMilliseconds(getElapsedPerfTime(timer))}, waiting for changes...`,
+      );
+    } catch (error) {
+      relinka(
+        "error",
+        `[watch] #${cycle} rebuild failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      relinka("info", "[watch] Waiting for changes...");
+    } finally {
+      isRebuilding = false;
+      if (pendingFiles.size > 0) scheduleCycle();
+    }
+  };
+
+  const scheduleCycle = () => {
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => void runCycle(), WATCH_DEBOUNCE_MS);
+  };
+
+  const watchers: FSWatcher[] = watchDirs.map((dir) =>
+    watch(dir, { recursive: true }, (_event, filename) => {
+      if (!filename) return;
+      pendingFiles.add(path.join(dir, filename.toString()));
+      scheduleCycle();
+    }),
+  );
+
+  relinka(
+    "info",
+    `[watch] Watching ${watchDirs.map((dir) => path.relative(PROJECT_ROOT, dir) || ".").join(", ")} for changes (Ctrl+C to stop)...`,
+  );
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      clearTimeout(debounceTimer);
+      for (const watcher of watchers) watcher.close();
+      relinka("info", "[watch] Stopped watching");
+      resolve();
+    };
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+  });
+}
+
+/**
+ * Rebuilds the given scopes: refreshes the temp dirs, then builds and post-builds
+ * each scope into a freshly cleaned dist directory.
+ */
+export async function dlerRebuildScopes(
+  isDev: boolean,
+  config: DlerConfig,
+  scopes: DlerBuildScope[],
+  debugDontCopyNonBuildFiles?: boolean,
+): Promise<PerfTimer> {
+  const timer = createPerfTimer();
+
+  // Library NPM builds read from the main temp dir as well, so all temp dirs are refreshed
+  await dlerPreBuild(config);
+  const tempConfig = createTempBuildConfig(config);
+
+  for (const scope of scopes) {
+    if (scope.type === "main") {
+      await fs.remove(path.join(PROJECT_ROOT, config.distNpmDirName));
+      await fs.remove(path.join(PROJECT_ROOT, config.distJsrDirName));
+      await regular_buildFlow(timer, isDev, tempConfig);
+    } else {
+      const libConfig = config.libsList[scope.libName];
+      if (!libConfig) {
+        throw new Error(`Library ${scope.libName} is not defined in libsList`);
+      }
+      const libDistDir = extractFolderName(scope.libName, libConfig);
+      await fs.remove(path.join(PROJECT_ROOT, config.libsDirDist, libDistDir));
+      await library_buildFlow(timer, isDev, tempConfig, [scope.libName], config.libsDirSrc);
+    }
+
+    await dlerPostBuild(isDev, debugDontCopyNonBuildFiles, scope);
+  }
+
+  // The report only covers the rebuilt targets
+  if (config.buildAnalyze) {
+    await writeBundleAnalysisReport();
+  }
+
+  return timer;
+}
+
+/**
+ * Maps changed source files to the build scopes they affect.
+ * A file inside a library's source dir affects that library,
+ * and a file inside `coreEntrySrcDir` affects the main project.
+ */
+export function getAffectedBuildScopes(
+  config: DlerConfig,
+  changedFiles: string[],
+): DlerBuildScope[] {
+  const scopes: DlerBuildScope[] = [];
+  const isMainEnabled = config.libsActMode !== "libs-only";
+  const isLibsEnabled =
+    config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs";
+
+  const mainSrcDir = path.resolve(PROJECT_ROOT, config.coreEntrySrcDir);
+  if (isMainEnabled && changedFiles.some((file) => isInsideDir(file, mainSrcDir))) {
+    scopes.push({ type: "main" });
+  }
+
+  if (isLibsEnabled) {
+    for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+      const libSrcDir = path.resolve(
+        PROJECT_ROOT,
+        config.libsDirSrc,
+        extractFolderName(libName, libConfig),
+      );
+      if (changedFiles.some((file) => isInsideDir(file, libSrcDir))) {
+        scopes.push({ type: "lib", libName });
+      }
+    }
+  }
+
+  return scopes;
+}
+
+async function getWatchDirs(config: DlerConfig): Promise<string[]> {
+  const candidates = [path.resolve(PROJECT_ROOT, config.coreEntrySrcDir)];
+  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
+    candidates.push(path.resolve(PROJECT_ROOT, config.libsDirSrc));
+  }
+
+  const watchDirs: string[] = [];
+  for (const dir of candidates) {
+    // Skip missing dirs and dirs already covered by a recursive watcher on a parent
+    if (!(await fs.pathExists(dir))) continue;
+    if (watchDirs.some((watched) => isInsideDir(dir, watched))) continue;
+    watchDirs.push(dir);
+  }
+  return watchDirs;
+}
+
+function isInsideDir(file: string, dir: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+function formatBuildScope(scope: DlerBuildScope): string {
+  return scope.type === "main" ? "main project" : `library ${scope.libName}`;
+}
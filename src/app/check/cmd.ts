@@ -1,25 +1,33 @@
 import path from "@reliverse/pathkit";
 import { re } from "@reliverse/relico";
+import fs from "@reliverse/relifso";
 import { relinka } from "@reliverse/relinka";
 import { defineCommand, selectPrompt, multiselectPrompt, defineArgs } from "@reliverse/rempts";
+import { readTSConfig } from "pkg-types";
 
+import type { CheckRuleContext, CheckRuleDirectory } from "~/libs/sdk/sdk-impl/config/types";
 import type { FinderOptions } from "~/libs/sdk/sdk-impl/rules/reliverse/missing-deps/deps-types";
-import type { AllowedFileExtensionsType } from "~/libs/sdk/sdk-impl/rules/rules-consts";
-import type { DirectoryType } from "~/libs/sdk/sdk-impl/sdk-types";
+import type { CheckReportEntry } from "~/libs/sdk/sdk-impl/rules/rules-report";
+import type { RulesCheckOptions } from "~/libs/sdk/sdk-impl/sdk-types";
 
-import { checkDlerConfigHealth } from "~/libs/sdk/sdk-impl/rules/reliverse/dler-config-health/dler-config-health";
-import { checkFileExtensions } from "~/libs/sdk/sdk-impl/rules/reliverse/file-extensions/file-extensions";
 import { analyzeDependencies } from "~/libs/sdk/sdk-impl/rules/reliverse/missing-deps/analyzer";
-import { checkMissingDependencies } from "~/libs/sdk/sdk-impl/rules/reliverse/missing-deps/deps-mod";
 import { formatOutput } from "~/libs/sdk/sdk-impl/rules/reliverse/missing-deps/formatter";
-import { checkNoDynamicImports } from "~/libs/sdk/sdk-impl/rules/reliverse/no-dynamic-imports/no-dynamic-imports";
-import { checkNoIndexFiles } from "~/libs/sdk/sdk-impl/rules/reliverse/no-index-files/no-index-files";
-import { checkPackageJsonHealth } from "~/libs/sdk/sdk-impl/rules/reliverse/package-json-health/package-json-health";
-import { checkPathExtensions } from "~/libs/sdk/sdk-impl/rules/reliverse/path-extensions/path-extensions";
-import { checkSelfInclude } from "~/libs/sdk/sdk-impl/rules/reliverse/self-include/self-include";
-import { checkTsConfigHealth } from "~/libs/sdk/sdk-impl/rules/reliverse/tsconfig-health/tsconfig-health";
+import { fixCheckRuleIssues } from "~/libs/sdk/sdk-impl/rules/rules-fix";
 import { displayCheckResults } from "~/libs/sdk/sdk-impl/rules/rules-mod";
-import { ensureDlerConfig } from "~/libs/sdk/sdk-mod";
+import {
+  CHECK_DIRECTORIES,
+  getCheckRule,
+  getCheckRules,
+  registerConfigCheckRules,
+  runCheckRule,
+} from "~/libs/sdk/sdk-impl/rules/rules-registry";
+import {
+  CHECK_REPORT_FORMATS,
+  formatCheckReport,
+  isCheckReportFormat,
+} from "~/libs/sdk/sdk-impl/rules/rules-report";
+import { getCheckRuleLevel } from "~/libs/sdk/sdk-impl/rules/rules-severity";
+import { ensureDlerConfig, getConfigDler } from "~/libs/sdk/sdk-mod";
 
 export default defineCommand({
   meta: {
@@ -43,7 +51,11 @@ export default defineCommand({
     checks: {
       type: "string",
       description:
-        "comma-separated list of checks to run (missing-deps,file-extensions,path-extensions,dler-config-health,self-include,tsconfig-health,package-json-health,no-index-files)",
+        "comma-separated list of check rules to run (see --list for the registered rules)",
+    },
+    list: {
+      type: "boolean",
+      description: "list the registered check rules (built-in and checkCustomRules) and exit",
     },
     strict: {
       type: "boolean",
@@ -51,7 +63,15 @@ export default defineCommand({
     },
     json: {
       type: "boolean",
-      description: "output results in JSON format",
+      description: "output results in JSON format (same as --format json)",
+    },
+    format: {
+      type: "string",
+      description: "output format: pretty (default), json, sarif or junit",
+    },
+    output: {
+      type: "string",
+      description: "write the json/sarif/junit report to a file instead of stdout",
     },
     "no-exit": {
       type: "boolean",
@@ -89,7 +109,11 @@ export default defineCommand({
     },
     fix: {
       type: "boolean",
-      description: "automatically add missing dependencies to package.json (for deps)",
+      description: "fix what the rules can fix (import paths, file names) and check again",
+    },
+    "dry-run": {
+      type: "boolean",
+      description: "with --fix, print the fixes as a unified diff without writing them",
     },
     depth: {
       type: "number",
@@ -137,18 +161,60 @@ export default defineCommand({
       return;
     }
 
-    // --- Otherwise, run the original check logic ---
-    relinka("info", "this command checks your codebase for extension and dependency issues.");
-    relinka("info", "📁 file rules: .ts files allowed in src/jsr dirs, .js files in npm dirs");
-    relinka("info", "📦 import rules: use .js imports in src/npm dirs, .ts imports in jsr dirs");
-    relinka(
-      "info",
-      "🔄 self-include rules: no importing from main package or self-imports in libs",
-    );
-    relinka(
-      "info",
-      "📚 index files: avoid using index.{ts,js} files to prevent module resolution confusion",
-    );
+    // --- Otherwise, run the registered check rules ---
+    const config = await getConfigDler();
+    registerConfigCheckRules(config);
+    const rules = getCheckRules();
+
+    const format = args.format ?? (args.json ? "json" : "pretty");
+    if (!isCheckReportFormat(format)) {
+      relinka(
+        "error",
+        `unknown format "${format}" (use one of: ${CHECK_REPORT_FORMATS.join(", ")})`,
+      );
+      process.exit(1);
+    }
+    if (args.output && format === "pretty") {
+      relinka("error", "--output needs a report format: --format json, sarif or junit");
+      process.exit(1);
+    }
+    // a report on stdout replaces the pretty output, so it can be piped
+    const showPrettyOutput = format === "pretty" || Boolean(args.output);
+    // --fix messages and --dry-run diffs go to stderr then, to keep the report intact
+    const logFix = (level: "info" | "success" | "warn" | "log", message: string) => {
+      if (showPrettyOutput) relinka(level, message);
+      else process.stderr.write(`${message}\n`);
+    };
+
+    if (args.list) {
+      const idWidth = Math.max(...rules.map((rule) => rule.id.length));
+      for (const rule of rules) {
+        const directories =
+          rule.directories.length === CHECK_DIRECTORIES.length
+            ? "all directories"
+            : rule.directories.join(", ");
+        const level = getCheckRuleLevel(config, rule);
+        relinka(
+          "log",
+          `${rule.id.padEnd(idWidth)}  ${level.padEnd(5)}  ${rule.description} (${directories})`,
+        );
+      }
+      return;
+    }
+
+    if (showPrettyOutput) {
+      relinka("info", "this command checks your codebase for extension and dependency issues.");
+      relinka("info", "📁 file rules: .ts files allowed in src/jsr dirs, .js files in npm dirs");
+      relinka("info", "📦 import rules: use .js imports in src/npm dirs, .ts imports in jsr dirs");
+      relinka(
+        "info",
+        "🔄 self-include rules: no importing from main package or self-imports in libs",
+      );
+      relinka(
+        "info",
+        "📚 index files: avoid using index.{ts,js} files to prevent module resolution confusion",
+      );
+    }
 
     let dir: string;
     let checks: string[];
@@ -172,45 +238,19 @@ export default defineCommand({
 
     // Handle checks selection
     if (args.checks) {
-      checks = args.checks.split(",");
+      checks = args.checks.split(",").map((id) => id.trim());
+      const unknownChecks = checks.filter((id) => !getCheckRule(id));
+      if (unknownChecks.length > 0) {
+        relinka(
+          "error",
+          `unknown check rule(s): ${unknownChecks.join(", ")}. run 'dler check --list' to see the registered rules`,
+        );
+        process.exit(1);
+      }
     } else {
       checks = await multiselectPrompt({
         title: "select checks to run",
-        options: [
-          { label: "missing dependencies", value: "missing-deps" },
-          {
-            label: "file extensions (.ts/.js files)",
-            value: "file-extensions",
-          },
-          {
-            label: "import path extensions (.ts/.js imports)",
-            value: "path-extensions",
-          },
-          {
-            label: "dler configuration",
-            value: "dler-config-health",
-          },
-          {
-            label: "self-include (no self-imports)",
-            value: "self-include",
-          },
-          {
-            label: "tsconfig.json validation",
-            value: "tsconfig-health",
-          },
-          {
-            label: "package.json validation",
-            value: "package-json-health",
-          },
-          {
-            label: "no index files",
-            value: "no-index-files",
-          },
-          {
-            label: "no dynamic imports",
-            value: "no-dynamic-imports",
-          },
-        ],
+        options: rules.map((rule) => ({ label: rule.description, value: rule.id })),
       });
     }
 
@@ -220,124 +260,44 @@ export default defineCommand({
     }
 
     // determine directories to check
-    const directories =
-      dir === "all"
-        ? ([
-            "src",
-            "dist-npm",
-            "dist-jsr",
-            "dist-libs/npm",
-            "dist-libs/jsr",
-          ] as AllowedFileExtensionsType[])
-        : [dir as AllowedFileExtensionsType];
+    const directories = dir === "all" ? CHECK_DIRECTORIES : [dir as CheckRuleDirectory];
+
+    // path rules (and their fixes) depend on how typescript resolves imports
+    const tsconfig = await readTSConfig().catch(() => undefined);
+    const moduleResolution =
+      String(tsconfig?.compilerOptions?.moduleResolution).toLowerCase() === "nodenext"
+        ? "nodenext"
+        : "bundler";
+
+    // reports need every result, so a failure doesn't stop the other checks
+    const reportEntries: CheckReportEntry[] = [];
+    let hasFailed = false;
 
     // run checks for each directory
     for (const directory of directories) {
-      relinka("info", `\nchecking directory: ${directory}`);
+      if (showPrettyOutput) relinka("info", `\nchecking directory: ${directory}`);
 
       // progress callback for user feedback
-      const onProgress = args["no-progress"]
-        ? undefined
-        : (current: number, total: number) => {
-            if (current % 10 === 0 || current === total) {
-              process.stdout.write(`\r  progress: ${current}/${total} files...`);
-            }
-          };
-
-      try {
-        if (checks.includes("package-json-health")) {
-          const result = await checkPackageJsonHealth();
-          displayCheckResults("package.json health", directory, result);
-          if (!result.success && !args["no-exit"]) {
-            process.exit(1);
-          }
-        }
-
-        if (checks.includes("tsconfig-health")) {
-          const result = await checkTsConfigHealth();
-          displayCheckResults("tsconfig.json health", directory, result);
-          if (!result.success && !args["no-exit"]) {
-            process.exit(1);
-          }
-        }
-
-        if (checks.includes("dler-config-health")) {
-          const result = await checkDlerConfigHealth();
-          displayCheckResults("dler configuration health", directory, result);
-          if (!result.success && !args["no-exit"]) {
-            process.exit(1);
-          }
-        }
-
-        if (checks.includes("file-extensions")) {
-          const result = await checkFileExtensions({
-            directory: directory as DirectoryType,
-            strict: args.strict,
-            moduleResolution: "bundler",
-            onProgress,
-          });
-          displayCheckResults("file extensions", directory, result);
-          if (!result.success && !args["no-exit"]) {
-            process.exit(1);
-          }
-        }
-
-        if (checks.includes("path-extensions")) {
-          const result = await checkPathExtensions({
-            directory: directory as DirectoryType,
-            strict: args.strict,
-            moduleResolution: "bundler",
-            onProgress,
-          });
-          displayCheckResults("path extensions", directory, result);
-          if (!result.success && !args["no-exit"]) {
-            process.exit(1);
-          }
-        }
-
-        if (checks.includes("self-include")) {
-          const result = await checkSelfInclude({
-            directory: directory as DirectoryType,
-            strict: args.strict,
-            moduleResolution: "bundler",
-            onProgress,
-          });
-          displayCheckResults("self-include", directory, result);
-          if (!result.success && !args["no-exit"]) {
-            process.exit(1);
-          }
-        }
-
-        if (checks.includes("no-index-files")) {
-          const result = await checkNoIndexFiles({
-            directory: directory as DirectoryType,
-            strict: args.strict,
-            moduleResolution: "bundler",
-            onProgress,
-          });
-          displayCheckResults("no index files", directory, result);
-          if (!result.success && !args["no-exit"]) {
-            process.exit(1);
-          }
-        }
-
-        if (checks.includes("no-dynamic-imports")) {
-          const result = await checkNoDynamicImports({
-            directory: directory as DirectoryType,
-            onProgress,
-          });
-          displayCheckResults("no dynamic imports", directory, result);
-          if (!result.success && !args["no-exit"]) {
-            process.exit(1);
-          }
-        }
+      const onProgress =
+        args["no-progress"] || !showPrettyOutput
+          ? undefined
+          : (current: number, total: number) => {
+              if (current % 10 === 0 || current === total) {
+                process.stdout.write(`\r  progress: ${current}/${total} files...`);
+              }
+            };
 
-        if (checks.includes("missing-deps")) {
-          const result = await checkMissingDependencies({
-            directory: directory as DirectoryType,
+      // registered order, whatever the order of --checks
+      for (const rule of rules.filter((rule) => checks.includes(rule.id))) {
+        const startTime = Date.now();
+        try {
+          const ctx: CheckRuleContext & RulesCheckOptions = {
+            directory,
             strict: args.strict,
-            moduleResolution: "bundler",
+            moduleResolution,
             onProgress,
+            config,
+            // used by missing-deps
             json: args.json,
             builtins: args.builtins,
             dev: isDev,
@@ -345,20 +305,64 @@ export default defineCommand({
             optional: args.optional,
             fix: args.fix,
             depth: args.depth,
-          });
-          displayCheckResults("missing dependencies", directory, result);
+          };
+          let result = await runCheckRule(rule, ctx);
+          if (!result) continue;
+
+          // only "error" issues fail the result, "warn" ones are reported
+          if (showPrettyOutput) displayCheckResults(rule.description, directory, result);
+
+          // fix what the rule can fix, then check again to confirm
+          if (args.fix && rule.fix && result.issues.length > 0) {
+            const fixes = await fixCheckRuleIssues(rule, ctx, result, args["dry-run"], (message) =>
+              logFix("log", message),
+            );
+            if (fixes.length === 0) {
+              logFix("warn", `${rule.id}: no issue can be fixed automatically`);
+            } else if (args["dry-run"]) {
+              logFix("info", `[dry-run] ${rule.id}: ${fixes.length} file(s) would be fixed`);
+            } else {
+              logFix("success", `${rule.id}: fixed ${fixes.length} file(s), checking again...`);
+              result = (await runCheckRule(rule, ctx)) ?? result;
+              if (showPrettyOutput) displayCheckResults(rule.description, directory, result);
+            }
+          }
+
+          reportEntries.push({ rule, directory, result });
           if (!result.success && !args["no-exit"]) {
-            process.exit(1);
+            if (format === "pretty") process.exit(1);
+            hasFailed = true;
           }
+        } catch (error) {
+          // a rule that crashed is a failure, whatever --no-exit says, and the other rules still run
+          const message = error instanceof Error ? error.message : "unknown error";
+          relinka("error", `${rule.id} failed to check ${directory}: ${message}`);
+          reportEntries.push({
+            rule,
+            directory,
+            result: {
+              success: false,
+              issues: [],
+              stats: { filesChecked: 0, importsChecked: 0, timeElapsed: Date.now() - startTime },
+            },
+            error: message,
+          });
+          hasFailed = true;
         }
-      } catch (error) {
-        relinka(
-          "error",
-          `failed to check ${directory}: ${error instanceof Error ? error.message : "unknown error"}`,
-        );
       }
     }
 
-    relinka("success", "all checks completed!");
+    if (format !== "pretty") {
+      const report = formatCheckReport(format, reportEntries);
+      if (args.output) {
+        await fs.outputFile(args.output, report);
+        relinka("success", `${format} report written to ${args.output}`);
+      } else {
+        console.log(report);
+      }
+    }
+    if (hasFailed) process.exit(1);
+
+    if (showPrettyOutput) relinka("success", "all checks completed!");
   },
 });
@@ -14,6 +14,26 @@ export default defineCommand({
       type: "boolean",
       description: "Runs the CLI in dev mode",
     },
+    "dry-run": {
+      type: "boolean",
+      description:
+        "Run the whole pipeline without side effects: bump the version in memory, build, pack and publish with --dry-run to every registry",
+    },
+    inspect: {
+      type: "boolean",
+      description:
+        "Pack each npm dist after the build, list its files and sizes, flag stray files and diff it against the previous version",
+    },
+    local: {
+      type: "boolean",
+      description:
+        "Publish the dists to a local registry (pubLocalRegistry, started if needed) and smoke test them: install into a scratch project and import each export",
+    },
+    resume: {
+      type: "boolean",
+      description:
+        "Resumes a failed publish: skips the version bump and publishes only the targets that were not published",
+    },
   }),
   async run({ args }) {
     const isDev = args.dev || process.env.DLER_DEV_MODE === "true";
@@ -21,6 +41,6 @@ export default defineCommand({
 
     const config = await getConfigDler();
 
-    await dlerPub(isDev, config);
+    await dlerPub(isDev, config, args.resume, args.inspect, args["dry-run"], args.local);
   },
 });
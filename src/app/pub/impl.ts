@@ -1,12 +1,52 @@
 import { bumpHandler, isBumpDisabled, setBumpDisabledValueTo } from "@reliverse/bleump";
+import path from "@reliverse/pathkit";
+import { relinka } from "@reliverse/relinka";
+import { readPackageJSON } from "pkg-types";
 
 import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+import type { ReleaseLevel } from "~/libs/sdk/sdk-impl/pub/pub-bump-auto";
 
 import { dlerBuild } from "~/app/build/impl";
 import { getConfigDler } from "~/libs/sdk/sdk-impl/config/load";
 import { library_pubFlow } from "~/libs/sdk/sdk-impl/library-flow";
+import {
+  getApiReleaseLevel,
+  getCommitReleaseLevel,
+  maxReleaseLevel,
+} from "~/libs/sdk/sdk-impl/pub/pub-bump-auto";
+import {
+  getCommitsSince,
+  getLastReleaseTag,
+  writeChangelogs,
+} from "~/libs/sdk/sdk-impl/pub/pub-changelog";
+import {
+  applyDryRunVersion,
+  getBumpedVersion,
+  getDryRunTargets,
+  printDryRunSummary,
+} from "~/libs/sdk/sdk-impl/pub/pub-dry-run";
+import { createGitRelease } from "~/libs/sdk/sdk-impl/pub/pub-git";
+import { inspectTarballs } from "~/libs/sdk/sdk-impl/pub/pub-inspect";
+import { publishLocal } from "~/libs/sdk/sdk-impl/pub/pub-local";
+import {
+  createPubState,
+  finishPubState,
+  formatPubTarget,
+  PUB_STATE_PATH,
+  readPubState,
+  resumePubState,
+  startPubState,
+} from "~/libs/sdk/sdk-impl/pub/pub-state";
+import { resolveDistTag } from "~/libs/sdk/sdk-impl/pub/pub-tag";
+import { verifyPublishedPackages } from "~/libs/sdk/sdk-impl/pub/pub-verify";
 import { regular_pubFlow } from "~/libs/sdk/sdk-impl/regular-flow";
-import { finalizeBuild, finalizePub } from "~/libs/sdk/sdk-impl/utils/finalize";
+import {
+  finalizeBuild,
+  finalizeDryRun,
+  finalizeLocalPub,
+  finalizePub,
+} from "~/libs/sdk/sdk-impl/utils/finalize";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
 import { handleDlerError } from "~/libs/sdk/sdk-impl/utils/utils-error-cwd";
 
 // ==========================
@@ -16,10 +56,29 @@ import { handleDlerError } from "~/libs/sdk/sdk-impl/utils/utils-error-cwd";
 /**
  * Main entry point for the dler build and publish process.
  * Handles building and publishing for both main project and libraries.
+ * With `resume`, the version bump and changelogs are skipped and only the targets
+ * that the previous (failed) publish left unpublished are published.
+ * With `inspect`, the npm dists are packed and reviewed after the build, before publishing.
+ * With `dryRun`, the whole pipeline runs without side effects: the version is bumped in memory
+ * (`bumpFilter` files and `bumpDisable` are left untouched), the dists are built and packed,
+ * both registries are published to with `--dry-run`, and a summary of what would have been
+ * published is printed.
+ * With `local`, the current version is built and published to the local registry
+ * (`pubLocalRegistry`) instead, then installed into a scratch project and imported:
+ * no bump, changelog, journal or git release, and `commonPubPause` is ignored.
  * @see `src/app/build/impl.ts` for build main function implementation.
  */
-export async function dlerPub(isDev: boolean, config?: DlerConfig) {
+export async function dlerPub(
+  isDev: boolean,
+  config?: DlerConfig,
+  resume = false,
+  inspect = false,
+  dryRun = false,
+  local = false,
+) {
   let effectiveConfig = config;
+  // In-memory version bump of a dry run
+  let dryRunBump: { from: string; to: string } | undefined;
 
   try {
     if (!effectiveConfig) {
@@ -27,33 +86,171 @@ export async function dlerPub(isDev: boolean, config?: DlerConfig) {
       // This config load is a single source of truth
       effectiveConfig = await getConfigDler();
     }
+    if (local && (resume || dryRun)) {
+      throw new Error("`--local` can't be combined with `--resume` or `--dry-run`");
+    }
+    if (dryRun) {
+      if (resume) throw new Error("`--dry-run` can't be combined with `--resume`");
+      effectiveConfig = {
+        ...effectiveConfig,
+        commonPubPause: false,
+        distJsrDryRun: true,
+        distNpmDryRun: true,
+      };
+    }
 
-    // Handle version bumping if enabled
+    // A failed publish must be resumed (or its journal deleted) before the next release
+    const previousPubState = await readPubState();
+    if (resume) {
+      if (!previousPubState) {
+        throw new Error(
+          `Nothing to resume: no unfinished publish was found (${path.relative(PROJECT_ROOT, PUB_STATE_PATH)})`,
+        );
+      }
+      const pkg = await readPackageJSON(PROJECT_ROOT);
+      if (pkg.version !== previousPubState.version) {
+        throw new Error(
+          `Cannot resume: the unfinished publish is for version ${previousPubState.version}, but package.json has ${pkg.version}`,
+        );
+      }
+      relinka("info", `[resume] Resuming the publish of ${previousPubState.version}`);
+    } else if (previousPubState && !effectiveConfig.commonPubPause && !dryRun && !local) {
+      throw new Error(
+        `The publish of ${previousPubState.version} is unfinished. Run \`dler pub --resume\` to publish the remaining targets, or delete ${path.relative(PROJECT_ROOT, PUB_STATE_PATH)} to start over`,
+      );
+    }
+
+    // Handle version bumping if enabled (a resumed publish keeps the version it was started with)
     const bumpIsDisabled = await isBumpDisabled();
-    if (!bumpIsDisabled && !effectiveConfig.commonPubPause) {
+    const { version = "0.0.0" } = await readPackageJSON(PROJECT_ROOT);
+    let newVersion = version;
+    let bumpMode: Exclude<DlerConfig["bumpMode"], "auto"> | undefined;
+    if (!resume && !local && !bumpIsDisabled && !effectiveConfig.commonPubPause) {
+      bumpMode =
+        effectiveConfig.bumpMode === "auto"
+          ? await resolveAutoBumpMode(effectiveConfig)
+          : effectiveConfig.bumpMode;
+      newVersion = getBumpedVersion(
+        version,
+        bumpMode,
+        effectiveConfig.bumpSet,
+        effectiveConfig.bumpPreid,
+      );
+    }
+
+    // Fail before bumping and building when a prerelease would be published under "latest"
+    if (!effectiveConfig.commonPubPause && effectiveConfig.commonPubRegistry !== "jsr") {
+      resolveDistTag(effectiveConfig.pubTag, newVersion);
+    }
+
+    if (bumpMode && dryRun) {
+      dryRunBump = { from: version, to: newVersion };
+      relinka("info", `[dry-run] Version ${version} → ${newVersion} (not written)`);
+    } else if (bumpMode) {
       try {
-        await bumpHandler(
-          effectiveConfig.bumpMode,
-          false,
-          effectiveConfig.bumpFilter,
-          effectiveConfig.bumpSet,
-        );
+        // The prerelease version is computed above and applied as a manual bump
+        if (bumpMode === "prerelease") {
+          await bumpHandler("manual", false, effectiveConfig.bumpFilter, newVersion);
+        } else {
+          await bumpHandler(bumpMode, false, effectiveConfig.bumpFilter, effectiveConfig.bumpSet);
+        }
         await setBumpDisabledValueTo(true);
       } catch {
         throw new Error("[.config/dler.ts] Failed to set bumpDisable to true");
       }
     }
 
+    // Record the changes of the new version before building,
+    // so library changelogs are copied to their dists
+    if (
+      !resume &&
+      !dryRun &&
+      !local &&
+      effectiveConfig.pubChangelog.enabled &&
+      !effectiveConfig.commonPubPause
+    ) {
+      await writeChangelogs(effectiveConfig);
+    }
+
     // Build step
     const { timer, effectiveConfig: buildConfig } = await dlerBuild(isDev, effectiveConfig);
+    if (dryRunBump) {
+      await applyDryRunVersion(buildConfig, dryRunBump.from, dryRunBump.to);
+    }
+
+    // List what each npm tarball would contain, and how it changed since the previous version
+    if (inspect || dryRun) {
+      await inspectTarballs(buildConfig, dryRun);
+    }
+
+    // Publish to the local registry and smoke test the installed packages
+    if (local) {
+      await publishLocal(buildConfig);
+      await finalizeLocalPub(
+        timer,
+        buildConfig.libsList,
+        buildConfig.distNpmDirName,
+        buildConfig.distJsrDirName,
+        buildConfig.libsDirDist,
+      );
+      return;
+    }
 
     if (effectiveConfig.commonPubPause) {
       // Finalize build
       await finalizeBuild(timer, effectiveConfig.commonPubPause, "pub");
     } else {
+      // Journal every target that is really published, so a failed publish can be resumed
+      const pkg = await readPackageJSON(PROJECT_ROOT);
+      const pubState = createPubState(buildConfig, pkg.version ?? "0.0.0");
+      if (pubState.targets.length > 0) {
+        await startPubState(
+          resume && previousPubState ? resumePubState(pubState, previousPubState) : pubState,
+        );
+      }
+
       // Publish step
-      await regular_pubFlow(timer, isDev, buildConfig);
-      await library_pubFlow(timer, isDev, buildConfig);
+      try {
+        await regular_pubFlow(timer, isDev, buildConfig);
+        await library_pubFlow(timer, isDev, buildConfig);
+      } catch (error) {
+        const unfinishedTargets = await finishPubState();
+        if (effectiveConfig.pubGit.enabled) {
+          relinka("error", "[git] A publish failed, so no release commit or tags were created");
+        }
+        if (unfinishedTargets.length > 0) {
+          relinka(
+            "error",
+            `[resume] Not published: ${unfinishedTargets.map(formatPubTarget).join(", ")}. Fix the problem and run \`dler pub --resume\` to publish only these targets`,
+          );
+        }
+        // Parallel publishes report all their failures at once
+        if (error instanceof AggregateError) {
+          throw new Error(
+            error.errors.map((e) => (e instanceof Error ? e.message : String(e))).join("\n"),
+          );
+        }
+        throw error;
+      }
+      await finishPubState();
+
+      if (dryRun) {
+        printDryRunSummary(await getDryRunTargets(buildConfig));
+        await finalizeDryRun(
+          timer,
+          buildConfig.libsList,
+          buildConfig.distNpmDirName,
+          buildConfig.distJsrDirName,
+          buildConfig.libsDirDist,
+        );
+        return;
+      }
+
+      // Read the published metadata back before the dists are removed
+      const verifyResults =
+        buildConfig.pubVerify && !buildConfig.distNpmDryRun
+          ? await verifyPublishedPackages(buildConfig)
+          : [];
 
       // Finalize publish
       await finalizePub(
@@ -63,8 +260,51 @@ export async function dlerPub(isDev: boolean, config?: DlerConfig) {
         buildConfig.distJsrDirName,
         buildConfig.libsDirDist,
       );
+
+      // A release whose registry metadata doesn't match the dists (or couldn't be fetched)
+      // is not committed nor tagged
+      const unverifiedPackages = verifyResults.filter(
+        (result) => result.error !== undefined || result.mismatches.length > 0,
+      );
+      if (unverifiedPackages.length > 0) {
+        throw new Error(
+          `[verify] The registry metadata of ${unverifiedPackages.map((result) => `${result.name}@${result.version}`).join(", ")} doesn't match the built dists or couldn't be fetched${effectiveConfig.pubGit.enabled ? ", skipping the release commit and tags" : ""}`,
+        );
+      }
+
+      // Commit and tag the release once everything is published,
+      // unless every registry is a dry run (the journaled targets are the ones really published)
+      if (effectiveConfig.pubGit.enabled) {
+        if (pubState.targets.length === 0) {
+          relinka("log", "[git] Dry run, skipping the release commit and tags");
+        } else {
+          await createGitRelease(effectiveConfig);
+        }
+      }
     }
   } catch (error) {
     handleDlerError(error);
   }
 }
+
+/**
+ * Resolves `bumpMode: "auto"` from the conventional commits since the last release tag
+ * and, unless the commits already require a major bump, from the public API changes:
+ * the exports of the source entry files are compared with the declarations
+ * of the previous release on the registry.
+ */
+async function resolveAutoBumpMode(config: DlerConfig): Promise<ReleaseLevel> {
+  const commitLevel = getCommitReleaseLevel(await getCommitsSince(await getLastReleaseTag()));
+  if (commitLevel === "major") {
+    relinka("info", "[bump] auto: major (breaking changes in commits)");
+    return commitLevel;
+  }
+
+  relinka("info", "[bump] auto: comparing the public API with the previous release...");
+  const pkg = await readPackageJSON(PROJECT_ROOT);
+  const apiLevel = await getApiReleaseLevel(config, pkg.version ?? "0.0.0");
+
+  const level = maxReleaseLevel(commitLevel, apiLevel);
+  relinka("info", `[bump] auto: ${level} (commits: ${commitLevel}, public API: ${apiLevel})`);
+  return level;
+}
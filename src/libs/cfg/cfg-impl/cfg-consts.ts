@@ -7,14 +7,29 @@ export const DEFAULT_CONFIG_DLER: DlerConfig = {
   bumpDisable: false,
   bumpFilter: ["package.json", ".config/rse.ts"],
   bumpMode: "patch",
+  bumpPreid: "beta",
   bumpSet: "",
   commonPubPause: true,
   commonPubRegistry: "npm",
   commonVerbose: false,
+  pubChangelog: { enabled: false, fileName: "CHANGELOG.md" },
+  pubGit: {
+    enabled: false,
+    commitMessage: "chore(release): v{version}",
+    push: false,
+    remote: "origin",
+  },
+  pubLocalRegistry: "http://localhost:4873",
+  pubNpmAccess: "",
+  pubNpmClient: "auto",
+  pubNpmRegistry: "",
+  pubTag: "",
+  pubVerify: false,
   coreDeclarations: true,
   coreDescription: "",
   coreEntryFile: "mod.ts",
   coreEntrySrcDir: "src",
+  coreExports: {},
   coreBuildOutDir: "bin",
   coreIsCLI: { enabled: false, scripts: {} },
   distJsrAllowDirty: true,
@@ -27,7 +42,9 @@ export const DEFAULT_CONFIG_DLER: DlerConfig = {
   distJsrSlowTypes: true,
   distNpmBuilder: "mkdist",
   distNpmDirName: "dist-npm",
+  distNpmDryRun: false,
   distNpmOutFilesExt: "js",
+  distNpmDualFormat: false,
   libsActMode: "main-project-only",
   libsDirDist: "dist-libs",
   libsDirSrc: "src/libs",
@@ -46,6 +63,8 @@ export const DEFAULT_CONFIG_DLER: DlerConfig = {
   // Code quality tools
   runBeforeBuild: [], // tsc, eslint, biome, knip, dler-check
   runAfterBuild: [], // dler-check
+  checkCustomRules: [],
+  checkRules: { rules: {}, overrides: [] },
 
   // Build hooks
   hooksBeforeBuild: [
@@ -89,6 +108,17 @@ export const DEFAULT_CONFIG_DLER: DlerConfig = {
   // If you need to exclude some ts/js files from being built,
   // you can store them in the dirs with buildTemplatesDir name
   buildTemplatesDir: "templates",
+  // Skip unchanged build targets (cache is stored in node_modules/.cache/dler)
+  buildCache: true,
+  // Write a bundle size report to dist-analyze (same as `dler build --analyze`)
+  buildAnalyze: false,
+
+  // Output size budgets (e.g. dists: { "dist-npm": { gzip: "150 kB" } })
+  sizeBudgets: {
+    failOnExceed: true,
+    snapshotFile: "",
+    snapshotMaxGrowth: 5,
+  },
 };
 
 // TODO: implement migrator from build.config.ts to .config/dler.ts
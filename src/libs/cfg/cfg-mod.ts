@@ -6,6 +6,20 @@ export type {
   BundlerName,
   NpmOutExt,
   LibConfig,
+  SizeBudget,
+  SizeBudgetsConfig,
+  ChangelogConfig,
+  PubGitConfig,
+  CheckRuleSeverity,
+  CheckRuleDirectory,
+  CheckRuleContext,
+  CheckRuleIssue,
+  CheckRuleResult,
+  CheckRule,
+  CheckRuleFix,
+  CheckRuleLevel,
+  CheckRulesConfig,
+  CheckRulesOverride,
   Esbuild,
   transpileFormat,
   Sourcemap,
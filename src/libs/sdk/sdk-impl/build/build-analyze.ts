@@ -0,0 +1,304 @@
+import type { BuildMetafile } from "bun";
+import type { Plugin } from "rollup";
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import prettyBytes from "pretty-bytes";
+
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+const ANALYZE_DIR_NAME = "dist-analyze";
+const ANALYZE_REPORT_NAME = "bundle-report";
+
+/** Size contributed by a single source module to an output file */
+export interface BundleAnalysisModule {
+  id: string; // Module path relative to the project root (e.g., "node_modules/pkg/index.js")
+  bytes: number; // Rendered size of the module inside the output file
+}
+
+/** A single file emitted by a bundler */
+export interface BundleAnalysisOutput {
+  file: string; // Output file path relative to the target's out dir
+  bytes: number;
+  modules: BundleAnalysisModule[];
+}
+
+/** Module-level size data of one bundled build target */
+export interface BundleAnalysis {
+  target: string; // Out dir relative to the project root (e.g., "dist-npm/bin")
+  bundler: "bun" | "rollup";
+  outputs: BundleAnalysisOutput[];
+}
+
+interface TreemapNode {
+  name: string;
+  bytes: number;
+  children?: TreemapNode[];
+}
+
+// Collected during the build and flushed by `writeBundleAnalysisReport`
+const collectedAnalyses: BundleAnalysis[] = [];
+
+/**
+ * Records the module-level size data from Bun's build metafile.
+ */
+export function recordBunMetafile(outDirBin: string, metafile: BuildMetafile | undefined): void {
+  if (!metafile) {
+    relinka("warn", `[analyze] Bun did not return a metafile for ${outDirBin}`);
+    return;
+  }
+
+  const outputs = Object.entries(metafile.outputs).map(([file, output]) => ({
+    file: toOutputPath(outDirBin, file),
+    bytes: output.bytes,
+    modules: Object.entries(output.inputs).map(([id, input]) => ({
+      id: toModuleId(id),
+      bytes: input.bytesInOutput,
+    })),
+  }));
+  addAnalysis(outDirBin, "bun", outputs);
+}
+
+/**
+ * Creates a rollup plugin that records the module-level size data of every generated bundle.
+ */
+export function bundleAnalyzerPlugin(outDirBin: string): Plugin {
+  return {
+    name: "dler:bundle-analyzer",
+    generateBundle(_options, bundle) {
+      const outputs: BundleAnalysisOutput[] = [];
+      for (const chunk of Object.values(bundle)) {
+        if (chunk.type !== "chunk") continue;
+        outputs.push({
+          file: chunk.fileName,
+          bytes: Buffer.byteLength(chunk.code, "utf8"),
+          modules: Object.entries(chunk.modules).map(([id, mod]) => ({
+            id: toModuleId(id),
+            bytes: mod.renderedLength,
+          })),
+        });
+      }
+      addAnalysis(outDirBin, "rollup", outputs);
+    },
+  };
+}
+
+/**
+ * Writes the collected data as a JSON report and a self-contained HTML treemap
+ * into `dist-analyze`, next to the dist folders.
+ *
+ * @returns Paths of the written reports, or an empty array when nothing was collected
+ */
+export async function writeBundleAnalysisReport(): Promise<string[]> {
+  const analyses = collectedAnalyses.splice(0);
+  if (analyses.length === 0) {
+    relinka(
+      "warn",
+      "[analyze] No bundle data was collected. Only the bun and rollup builders are analyzed.",
+    );
+    return [];
+  }
+
+  const reportDir = path.join(PROJECT_ROOT, ANALYZE_DIR_NAME);
+  const jsonPath = path.join(reportDir, `${ANALYZE_REPORT_NAME}.json`);
+  const htmlPath = path.join(reportDir, `${ANALYZE_REPORT_NAME}.html`);
+  const tree = createTreemapData(analyses);
+
+  await fs.ensureDir(reportDir);
+  await fs.writeJSON(
+    jsonPath,
+    { generatedAt: new Date().toISOString(), targets: analyses },
+    { spaces: 2 },
+  );
+  await fs.writeFile(htmlPath, renderTreemapHtml(tree), "utf8");
+
+  for (const analysis of analyses) {
+    const largest = getLargestModules(analysis, 3)
+      .map(({ id, bytes }) => `${id} (${prettyBytes(bytes)})`)
+      .join(", ");
+    relinka(
+      "info",
+      `[analyze] ${analysis.target} (${analysis.bundler}): largest modules: ${largest}`,
+    );
+  }
+  relinka(
+    "success",
+    `[analyze] Bundle report written to ${path.relative(PROJECT_ROOT, htmlPath)} and ${path.relative(PROJECT_ROOT, jsonPath)}`,
+  );
+  return [htmlPath, jsonPath];
+}
+
+function addAnalysis(
+  outDirBin: string,
+  bundler: BundleAnalysis["bundler"],
+  outputs: BundleAnalysisOutput[],
+): void {
+  const target = path.relative(PROJECT_ROOT, outDirBin) || ".";
+  const existing = collectedAnalyses.find(
+    (analysis) => analysis.target === target && analysis.bundler === bundler,
+  );
+  // Dual-format builds produce one bundle per format for the same target
+  if (existing) {
+    existing.outputs.push(...outputs);
+  } else {
+    collectedAnalyses.push({ target, bundler, outputs });
+  }
+}
+
+function toModuleId(id: string): string {
+  // Rollup prefixes virtual modules with a null byte
+  const cleanId = id.replace(/^\0/, "").replace(/\?.*$/, "");
+  if (!path.isAbsolute(cleanId)) return cleanId;
+  const relative = path.relative(PROJECT_ROOT, cleanId);
+  return relative.startsWith("..") ? cleanId : relative;
+}
+
+function toOutputPath(outDirBin: string, file: string): string {
+  return path.isAbsolute(file) ? path.relative(outDirBin, file) : file.replace(/^\.\//, "");
+}
+
+function getLargestModules(analysis: BundleAnalysis, count: number): BundleAnalysisModule[] {
+  const totals = new Map<string, number>();
+  for (const output of analysis.outputs) {
+    for (const mod of output.modules) {
+      totals.set(mod.id, (totals.get(mod.id) ?? 0) + mod.bytes);
+    }
+  }
+  return [...totals.entries()]
+    .map(([id, bytes]) => ({ id, bytes }))
+    .sort((a, b) => b.bytes - a.bytes)
+    .slice(0, count);
+}
+
+/**
+ * Builds the treemap hierarchy: target -> output file -> module path segments.
+ */
+function createTreemapData(analyses: BundleAnalysis[]): TreemapNode {
+  const root: TreemapNode = { name: "dist", bytes: 0, children: [] };
+
+  for (const analysis of analyses) {
+    const targetNode: TreemapNode = {
+      name: `${analysis.target} (${analysis.bundler})`,
+      bytes: 0,
+      children: [],
+    };
+    for (const output of analysis.outputs) {
+      const outputNode: TreemapNode = { name: output.file, bytes: 0, children: [] };
+      for (const mod of output.modules) {
+        if (mod.bytes <= 0) continue;
+        let node = outputNode;
+        for (const segment of mod.id.split("/")) {
+          node.children ??= [];
+          let child = node.children.find((c) => c.name === segment);
+          if (!child) {
+            child = { name: segment, bytes: 0 };
+            node.children.push(child);
+          }
+          node = child;
+        }
+        node.bytes += mod.bytes;
+      }
+      targetNode.children?.push(outputNode);
+    }
+    root.children?.push(targetNode);
+  }
+
+  sumTreemapNode(root);
+  return root;
+}
+
+function sumTreemapNode(node: TreemapNode): number {
+  if (node.children?.length) {
+    node.bytes = node.children.reduce((sum, child) => sum + sumTreemapNode(child), 0);
+    node.children.sort((a, b) => b.bytes - a.bytes);
+  }
+  return node.bytes;
+}
+
+function renderTreemapHtml(tree: TreemapNode): string {
+  // Escape "<" so module names can't close the inline script
+  const data = JSON.stringify(tree).replace(/</g, "\\u003c");
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>dler bundle report</title>
+<style>
+  body { margin: 0; font: 12px/1.4 system-ui, sans-serif; background: #111; color: #eee; }
+  header { padding: 8px 12px; display: flex; gap: 12px; align-items: center; }
+  header button { font: inherit; }
+  #map { position: relative; height: calc(100vh - 40px); margin: 0 12px 12px; }
+  .node { position: absolute; box-sizing: border-box; overflow: hidden; border: 1px solid #111;
+    padding: 2px 4px; cursor: pointer; white-space: nowrap; text-overflow: ellipsis; }
+  .node:hover { filter: brightness(1.2); }
+</style>
+</head>
+<body>
+<header><button id="up">Up</button><span id="path"></span></header>
+<div id="map"></div>
+<script>
+const root = ${data};
+const map = document.getElementById("map");
+const pathEl = document.getElementById("path");
+const stack = [root];
+const fmt = (b) => b < 1000 ? b + " B" : b < 1e6 ? (b / 1e3).toFixed(1) + " kB" : (b / 1e6).toFixed(2) + " MB";
+const color = (name) => { let h = 0; for (const c of name) h = (h * 31 + c.charCodeAt(0)) % 360; return "hsl(" + h + ",45%,35%)"; };
+
+function squarify(nodes, x, y, w, h, out) {
+  const total = nodes.reduce((s, n) => s + n.bytes, 0);
+  if (!nodes.length || total <= 0) return;
+  const scale = (w * h) / total;
+  let row = [], rest = nodes.slice();
+  const worst = (r, side) => {
+    const s = r.reduce((a, n) => a + n.bytes * scale, 0);
+    const max = Math.max(...r.map((n) => n.bytes * scale)), min = Math.min(...r.map((n) => n.bytes * scale));
+    return Math.max((side * side * max) / (s * s), (s * s) / (side * side * min));
+  };
+  while (rest.length) {
+    const side = Math.min(w, h);
+    const next = rest[0];
+    if (!row.length || worst(row.concat(next), side) <= worst(row, side)) { row.push(rest.shift()); continue; }
+    [x, y, w, h] = layoutRow(row, x, y, w, h, scale, out);
+    row = [];
+  }
+  if (row.length) layoutRow(row, x, y, w, h, scale, out);
+}
+
+function layoutRow(row, x, y, w, h, scale, out) {
+  const area = row.reduce((a, n) => a + n.bytes * scale, 0);
+  if (w >= h) {
+    const rw = area / h; let cy = y;
+    for (const n of row) { const nh = (n.bytes * scale) / rw; out.push([n, x, cy, rw, nh]); cy += nh; }
+    return [x + rw, y, w - rw, h];
+  }
+  const rh = area / w; let cx = x;
+  for (const n of row) { const nw = (n.bytes * scale) / rh; out.push([n, cx, y, nw, rh]); cx += nw; }
+  return [x, y + rh, w, h - rh];
+}
+
+function render() {
+  const current = stack[stack.length - 1];
+  pathEl.textContent = stack.map((n) => n.name).join(" / ") + " — " + fmt(current.bytes);
+  map.innerHTML = "";
+  const rects = [];
+  squarify((current.children || []).filter((n) => n.bytes > 0), 0, 0, map.clientWidth, map.clientHeight, rects);
+  for (const [n, x, y, w, h] of rects) {
+    const el = document.createElement("div");
+    el.className = "node";
+    Object.assign(el.style, { left: x + "px", top: y + "px", width: w + "px", height: h + "px", background: color(n.name) });
+    el.textContent = n.name + " " + fmt(n.bytes);
+    el.title = stack.map((s) => s.name).concat(n.name).join("/") + "\\n" + fmt(n.bytes) + " (" + ((n.bytes / current.bytes) * 100).toFixed(1) + "%)";
+    if (n.children && n.children.length) el.onclick = () => { stack.push(n); render(); };
+    map.appendChild(el);
+  }
+}
+
+document.getElementById("up").onclick = () => { if (stack.length > 1) { stack.pop(); render(); } };
+window.onresize = render;
+render();
+</script>
+</body>
+</html>
+`;
+}
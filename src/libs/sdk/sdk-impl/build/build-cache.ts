@@ -0,0 +1,182 @@
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { glob } from "tinyglobby";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import { dlerVersion } from "~/libs/sdk/sdk-impl/config/info";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+const BUILD_CACHE_DIR = path.join(PROJECT_ROOT, "node_modules", ".cache", "dler");
+const BUILD_CACHE_MANIFEST = "manifest.json";
+const BUILD_CACHE_OUTPUT = "output";
+
+// Root files every build reads: the tsconfig resolves path aliases, the lockfile pins the bundled deps
+const BUILD_CACHE_ROOT_FILES = [
+  "package.json",
+  "tsconfig.json",
+  "bun.lock",
+  "bun.lockb",
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+];
+
+/** A single cacheable build target (e.g. the regular NPM dist or one library's JSR dist) */
+export interface BuildCacheTarget {
+  id: string; // Unique cache entry name (e.g., "regular-npm", "lib-sdk-jsr")
+  inputDirs: string[]; // Absolute paths to the directories the build reads sources from
+  outDir: string; // Absolute path to the dist directory produced by the build
+  settings: unknown; // Resolved settings the build depends on
+}
+
+interface BuildCacheManifest {
+  hash: string;
+  dlerVersion: string;
+  createdAt: string;
+}
+
+/**
+ * Checks whether the build cache can be used for the given config.
+ * Stub and watch builds always run, since their output is not a plain snapshot.
+ * Analyze builds always run, since the bundle data is collected while bundling.
+ */
+export function isBuildCacheEnabled(config: DlerConfig): boolean {
+  return (
+    config.buildCache && !config.transpileStub && !config.transpileWatch && !config.buildAnalyze
+  );
+}
+
+/**
+ * Runs the build of a single target, or restores its previous output
+ * when the content hash of its inputs hasn't changed since the last build.
+ */
+export async function withBuildCache(
+  config: DlerConfig,
+  target: BuildCacheTarget,
+  build: () => Promise<void>,
+): Promise<void> {
+  if (!isBuildCacheEnabled(config)) {
+    await build();
+    return;
+  }
+
+  const cacheDir = path.join(BUILD_CACHE_DIR, toCacheDirName(target.id));
+  const manifestPath = path.join(cacheDir, BUILD_CACHE_MANIFEST);
+  const cachedOutputDir = path.join(cacheDir, BUILD_CACHE_OUTPUT);
+  const hash = await computeBuildCacheHash(config, target);
+  if (hash === null) {
+    relinka(
+      "verbose",
+      `[cache] ${target.id}: an input directory is missing, building without cache`,
+    );
+    await build();
+    return;
+  }
+
+  const manifest = await readCacheManifest(manifestPath);
+  if (manifest?.hash === hash && (await fs.pathExists(cachedOutputDir))) {
+    await fs.remove(target.outDir);
+    await fs.copy(cachedOutputDir, target.outDir);
+    relinka(
+      "success",
+      `[cache] ${target.id}: inputs unchanged, restored previous output -> ${path.relative(PROJECT_ROOT, target.outDir)}`,
+    );
+    return;
+  }
+
+  relinka("verbose", `[cache] ${target.id}: ${manifest ? "inputs changed" : "no entry"}, building`);
+  await build();
+
+  try {
+    await fs.remove(cacheDir);
+    if (await fs.pathExists(target.outDir)) {
+      await fs.copy(target.outDir, cachedOutputDir);
+      const newManifest: BuildCacheManifest = {
+        hash,
+        dlerVersion,
+        createdAt: new Date().toISOString(),
+      };
+      await fs.writeJSON(manifestPath, newManifest, { spaces: 2 });
+    }
+  } catch (error) {
+    // A failed cache write must never fail the build itself
+    relinka(
+      "warn",
+      `[cache] ${target.id}: failed to store build output: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Computes the content hash of a build target's inputs: source files, root package.json,
+ * tsconfig.json and lockfile, global publish artifacts, resolved settings, and dler version.
+ *
+ * @returns The hash, or `null` when an input directory doesn't exist (the build can't be cached)
+ */
+export async function computeBuildCacheHash(
+  config: DlerConfig,
+  target: BuildCacheTarget,
+): Promise<string | null> {
+  const hash = createHash("sha256");
+  hash.update(`dler@${dlerVersion}\0`);
+  hash.update(`${stableStringify(target.settings)}\0`);
+
+  for (const inputDir of target.inputDirs) {
+    hash.update(`dir:${path.relative(PROJECT_ROOT, inputDir)}\0`);
+    if (!(await fs.pathExists(inputDir))) return null;
+    const files = (await glob("**/*", { cwd: inputDir, dot: true, onlyFiles: true })).sort();
+    for (const file of files) {
+      hash.update(`${file}\0`);
+      hash.update(await readFile(path.join(inputDir, file)));
+      hash.update("\0");
+    }
+  }
+
+  // Global publish artifacts are copied into the dist
+  const rootFiles = [
+    ...new Set([
+      ...BUILD_CACHE_ROOT_FILES,
+      ...(config.publishArtifacts?.global ?? ["README.md", "LICENSE"]),
+    ]),
+  ];
+  for (const file of rootFiles) {
+    const filePath = path.join(PROJECT_ROOT, file);
+    if ((await fs.pathExists(filePath)) && (await fs.stat(filePath)).isFile()) {
+      hash.update(`root:${file}\0`);
+      hash.update(await readFile(filePath));
+      hash.update("\0");
+    }
+  }
+
+  return hash.digest("hex");
+}
+
+async function readCacheManifest(manifestPath: string): Promise<BuildCacheManifest | null> {
+  try {
+    if (!(await fs.pathExists(manifestPath))) return null;
+    return JSON.parse(await fs.readFile(manifestPath, "utf8")) as BuildCacheManifest;
+  } catch {
+    return null;
+  }
+}
+
+function toCacheDirName(id: string): string {
+  return id.replace(/[^\w.-]+/g, "_");
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal settings always produce the same hash.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.entries(val as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : val,
+  );
+}
@@ -22,6 +22,8 @@ import type {
 } from "~/libs/sdk/sdk-impl/config/types";
 import type { PerfTimer, UnifiedBuildConfig } from "~/libs/sdk/sdk-impl/sdk-types";
 
+import { bundleAnalyzerPlugin, recordBunMetafile } from "~/libs/sdk/sdk-impl/build/build-analyze";
+import { type BuildCacheTarget, withBuildCache } from "~/libs/sdk/sdk-impl/build/build-cache";
 import { unifiedBuild } from "~/libs/sdk/sdk-impl/build/providers/build";
 import {
   getBunSourcemapOption,
@@ -34,6 +36,14 @@ import {
   validExtensions,
 } from "~/libs/sdk/sdk-impl/utils/utils-consts";
 import { determineDistName } from "~/libs/sdk/sdk-impl/utils/utils-determine";
+import {
+  DUAL_FORMAT_PASSES,
+  finalizeDualFormatOutput,
+} from "~/libs/sdk/sdk-impl/utils/utils-dual-format";
+import {
+  getAdditionalEntryFiles,
+  resolveExportEntries,
+} from "~/libs/sdk/sdk-impl/utils/utils-exports";
 import {
   copyRootFile,
   deleteSpecificFiles,
@@ -79,6 +89,8 @@ export type LibraryBuildOptions = DlerConfig & {
   libMainFile: string;
   isDev: boolean;
   libsList: Record<string, LibConfig>;
+  siblingLibs: string[]; // Libs from libsList this lib imports directly, pinned as its dependencies
+  libDeps: Record<string, string>; // Libs this lib imports (directly or through other libs), mapped to their absolute source dirs
   timer: PerfTimer;
   libTranspileMinify: boolean;
   transpileTarget: transpileTarget;
@@ -98,6 +110,7 @@ interface BuildTargetParams {
   builder: BundlerName;
   libSourceDir: string; // The specific source directory for this library
   entryFilePath: string; // Absolute path to the entry file or directory
+  additionalEntryPoints: string[]; // Absolute paths to the libExports entry files
   outputDirRoot: string; // Absolute path to the root output dir for this target (e.g., dist/npm/lib-a)
   outputDirBin: string; // Absolute path to the 'bin' subdir within outputDirRoot
   libDeclarations: boolean;
@@ -109,6 +122,7 @@ interface BuildTargetParams {
 /** Parameters required by the individual bundler executor functions (Bun, Unified, JSR Copy) */
 interface BundleExecutorParams {
   entryPoint: string; // Absolute path to entry file OR directory (for 'jsr' copy)
+  additionalEntryPoints: string[]; // Absolute paths to extra entry files (for bun/rollup)
   outDir: string; // Absolute path to output directory (usually the 'bin' subdir)
   libName: string; // For logging context
   timer: PerfTimer;
@@ -124,6 +138,8 @@ interface BundleExecutorParams {
   transpileStub: boolean; // For unified
   transpileWatch: boolean; // For unified (or potentially others)
   unifiedBundlerOutExt: NpmOutExt; // For bun/unified
+  dualFormat: boolean; // Emit both ESM and CJS (NPM only, for bun/unified)
+  analyze: boolean; // Collect bundle composition data (for bun/rollup)
 }
 
 /** Parameters for the central bundler dispatcher function `library_bundleWithBuilder` */
@@ -142,6 +158,7 @@ interface CommonStepsParams {
   isJsr: boolean;
   libName: string;
   libsList: Record<string, LibConfig>;
+  siblingLibs: string[];
   config: DlerConfig;
   unifiedBundlerOutExt: NpmOutExt;
   distJsrOutFilesExt: NpmOutExt;
@@ -188,7 +205,11 @@ async function executeBuildTasks(options: LibraryBuildOptions): Promise<void> {
         `Build Error (executeBuildTasks): JSR config missing for ${libName} when registry includes JSR.`,
       );
     }
-    buildTasks.push(() => library_buildJsrDist(options)); // options includes jsr.jsrOutDir
+    buildTasks.push(() =>
+      withBuildCache(options, library_getBuildCacheTarget(options, "jsr", jsr.jsrOutDir), () =>
+        library_buildJsrDist(options),
+      ),
+    ); // options includes jsr.jsrOutDir
   }
 
   if (effectivePubRegistry === "npm" || effectivePubRegistry === "npm-jsr") {
@@ -197,7 +218,11 @@ async function executeBuildTasks(options: LibraryBuildOptions): Promise<void> {
         `Build Error (executeBuildTasks): NPM config missing for ${libName} when registry includes NPM.`,
       );
     }
-    buildTasks.push(() => library_buildNpmDist(options)); // options includes npm.npmOutDir
+    buildTasks.push(() =>
+      withBuildCache(options, library_getBuildCacheTarget(options, "npm", npm.npmOutDir), () =>
+        library_buildNpmDist(options),
+      ),
+    ); // options includes npm.npmOutDir
   }
 
   if (buildTasks.length === 0) {
@@ -209,6 +234,33 @@ async function executeBuildTasks(options: LibraryBuildOptions): Promise<void> {
   relinka("success", `All build tasks completed for ${libName}.`);
 }
 
+/**
+ * Describes one of the library's dists as a build cache target.
+ * Both dists are built from copies of the same library sources, so `mainDir` covers them,
+ * along with the sources of the libs it imports, since those get bundled in.
+ * Only the configs of these libs are part of the settings, so that changes
+ * to unrelated libs (or a build limited to some of them) keep the cache valid.
+ */
+function library_getBuildCacheTarget(
+  options: LibraryBuildOptions,
+  targetType: "npm" | "jsr",
+  outDir: string,
+): BuildCacheTarget {
+  const { libName, libsList, libDeps, mainDir } = options;
+  return {
+    id: `lib-${libName}-${targetType}`,
+    inputDirs: [path.resolve(PROJECT_ROOT, mainDir), ...Object.values(libDeps)],
+    outDir: path.resolve(PROJECT_ROOT, outDir),
+    settings: {
+      ...options,
+      timer: undefined,
+      libsList: Object.fromEntries(
+        [libName, ...Object.keys(libDeps)].map((name) => [name, libsList[name]]),
+      ),
+    },
+  };
+}
+
 // ============================================================================
 // Target-Specific Build Entry Points (NPM & JSR)
 // ============================================================================
@@ -247,6 +299,12 @@ async function library_buildJsrDist(options: LibraryBuildOptions): Promise<void>
 
   const libConfig = libsList[libName];
   const libDeclarations = libConfig?.libDeclarations ?? false;
+  const additionalEntryPoints = await library_resolveAdditionalEntryPoints(
+    libName,
+    libSourceDirResolved,
+    libMainFile,
+    libConfig?.libExports,
+  );
 
   // Determine libDirName for JSR from config.
   const actualLibDirName = libConfig?.libDirName;
@@ -263,6 +321,7 @@ async function library_buildJsrDist(options: LibraryBuildOptions): Promise<void>
     builder: distJsrBuilder,
     libSourceDir: libSourceDirResolved, // e.g., /abs/path/to/project/src/libs/sdk
     entryFilePath: bundlerEntryPoint,
+    additionalEntryPoints,
     outputDirRoot: outputDirRootResolved,
     outputDirBin: outputDirBinResolved,
     libDeclarations,
@@ -282,6 +341,7 @@ async function library_buildJsrDist(options: LibraryBuildOptions): Promise<void>
     options,
     libName,
     libConfig?.libDescription ?? "",
+    options.siblingLibs,
   );
   await renameTsxFiles(outputDirBinResolved);
 
@@ -345,6 +405,12 @@ async function library_buildNpmDist(options: LibraryBuildOptions): Promise<void>
 
   const libConfig = libsList[libName];
   const libDeclarations = libConfig?.libDeclarations ?? false;
+  const additionalEntryPoints = await library_resolveAdditionalEntryPoints(
+    libName,
+    libSpecificSrcDir,
+    libMainFile,
+    libConfig?.libExports,
+  );
 
   // Prepare parameters for the core build function
   const buildParams: BuildTargetParams = {
@@ -352,6 +418,7 @@ async function library_buildNpmDist(options: LibraryBuildOptions): Promise<void>
     builder: distNpmBuilder,
     libSourceDir: libSpecificSrcDir,
     entryFilePath: entryFilePathResolved,
+    additionalEntryPoints,
     outputDirRoot: outputDirRootResolved,
     outputDirBin: outputDirBinResolved,
     libDeclarations,
@@ -390,6 +457,7 @@ async function library_buildDistributionTarget(
     targetType,
     builder,
     entryFilePath, // Entry for bundler (file path or dir path for 'jsr' copy)
+    additionalEntryPoints,
     outputDirRoot,
     outputDirBin,
     libDeclarations,
@@ -418,6 +486,7 @@ async function library_buildDistributionTarget(
   } = options;
 
   const isJsr = targetType === "jsr";
+  const dualFormat = !isJsr && options.distNpmDualFormat && builder !== "jsr";
   const logPrefix = isJsr
     ? "[JSR]"
     : `[NPM:${determineDistName(path.relative(PROJECT_ROOT, outputDirRoot), false, libsList)}]`;
@@ -434,6 +503,7 @@ async function library_buildDistributionTarget(
   const bundleRequest: BundleRequestParams = {
     builder,
     entryPoint: entryFilePath,
+    additionalEntryPoints,
     outDir: outputDirBin,
     libName,
     timer,
@@ -448,9 +518,15 @@ async function library_buildDistributionTarget(
     transpileStub,
     transpileWatch,
     unifiedBundlerOutExt,
+    dualFormat,
+    analyze: options.buildAnalyze,
   };
   await library_bundleWithBuilder(bundleRequest);
 
+  if (dualFormat) {
+    await finalizeDualFormatOutput(outputDirBin);
+  }
+
   // --- Common Post-Bundling Steps ---
   const commonStepsParams: CommonStepsParams = {
     coreEntryFileName: path.basename(libMainFile),
@@ -459,6 +535,7 @@ async function library_buildDistributionTarget(
     isJsr,
     libName,
     libsList,
+    siblingLibs: options.siblingLibs,
     config: options,
     unifiedBundlerOutExt,
     distJsrOutFilesExt,
@@ -501,6 +578,7 @@ async function library_bundleWithBuilder(params: BundleRequestParams): Promise<v
       // Bundling with Bun
 
       await library_bundleUsingBun(entryPoint, outDir, libName, {
+        additionalEntryPoints: executorParams.additionalEntryPoints,
         timer: executorParams.timer,
         libTranspileMinify: executorParams.libTranspileMinify,
         transpileTarget: executorParams.transpileTarget,
@@ -508,6 +586,8 @@ async function library_bundleWithBuilder(params: BundleRequestParams): Promise<v
         transpileSplitting: executorParams.transpileSplitting,
         transpileSourcemap: executorParams.transpileSourcemap,
         transpilePublicPath: executorParams.transpilePublicPath,
+        dualFormat: executorParams.dualFormat,
+        analyze: executorParams.analyze,
       });
       break;
     case "rollup":
@@ -520,6 +600,7 @@ async function library_bundleWithBuilder(params: BundleRequestParams): Promise<v
         builder,
         path.dirname(entryPoint), // Source directory context
         {
+          additionalEntryPoints: executorParams.additionalEntryPoints,
           timer: executorParams.timer,
           libDeclarations: executorParams.libDeclarations,
           libTranspileMinify: executorParams.libTranspileMinify,
@@ -527,6 +608,8 @@ async function library_bundleWithBuilder(params: BundleRequestParams): Promise<v
           transpileEsbuild: executorParams.transpileEsbuild,
           transpileStub: executorParams.transpileStub,
           unifiedBundlerOutExt: executorParams.unifiedBundlerOutExt,
+          dualFormat: executorParams.dualFormat,
+          analyze: executorParams.analyze,
         },
       );
       break;
@@ -586,6 +669,7 @@ async function library_bundleUsingBun(
   // Select only options relevant to Bun
   options: Pick<
     BundleExecutorParams,
+    | "additionalEntryPoints"
     | "timer"
     | "libTranspileMinify"
     | "transpileTarget"
@@ -593,9 +677,12 @@ async function library_bundleUsingBun(
     | "transpileSplitting"
     | "transpileSourcemap"
     | "transpilePublicPath"
+    | "dualFormat"
+    | "analyze"
   >,
 ): Promise<void> {
   const {
+    additionalEntryPoints,
     timer,
     libTranspileMinify,
     transpileTarget,
@@ -603,6 +690,8 @@ async function library_bundleUsingBun(
     transpileSplitting,
     transpileSourcemap,
     transpilePublicPath,
+    dualFormat,
+    analyze,
   } = options;
 
   relinka("verbose", `[Bun:${libName}] Starting Bun build...`);
@@ -615,54 +704,61 @@ async function library_bundleUsingBun(
     throw new Error(`[Bun:${libName}] Entry point must be a file for Bun bundler: ${entryPoint}`);
   }
 
+  // Dual-format builds run one pass per format, each with its own file extension
+  const passes = dualFormat ? DUAL_FORMAT_PASSES : [{ format: transpileFormat, ext: "[ext]" }];
+
   try {
-    const buildConfig: BuildConfig = {
-      entrypoints: [entryPoint],
-      outdir: outDirBin,
-      target: transpileTarget,
-      format: transpileFormat,
-      splitting: transpileSplitting,
-      minify: libTranspileMinify,
-      sourcemap: getBunSourcemapOption(transpileSourcemap),
-      publicPath: transpilePublicPath,
-      naming: {
-        entry: "[dir]/[name].[ext]",
-        chunk: "[name]-[hash].[ext]",
-        asset: "[name]-[hash].[ext]",
-      },
-      define: {
-        "process.env.NODE_ENV": JSON.stringify(process.env.NODE_ENV || "production"),
-      },
-      plugins: [],
-      loader: {},
-      banner: `/* ${libName} - Bundled by @reliverse/dler (Bun) */`,
-      throw: true, // Ensure build errors are thrown
-    };
+    for (const { format, ext } of passes) {
+      const buildConfig: BuildConfig = {
+        entrypoints: [entryPoint, ...additionalEntryPoints],
+        outdir: outDirBin,
+        target: transpileTarget,
+        format,
+        metafile: analyze,
+        splitting: transpileSplitting,
+        minify: libTranspileMinify,
+        sourcemap: getBunSourcemapOption(transpileSourcemap),
+        publicPath: transpilePublicPath,
+        naming: {
+          entry: `[dir]/[name].${ext}`,
+          chunk: `[name]-[hash].${ext}`,
+          asset: "[name]-[hash].[ext]",
+        },
+        define: {
+          "process.env.NODE_ENV": JSON.stringify(process.env.NODE_ENV || "production"),
+        },
+        plugins: [],
+        loader: {},
+        banner: `/* ${libName} - Bundled by @reliverse/dler (Bun) */`,
+        throw: true, // Ensure build errors are thrown
+      };
 
-    const buildResult = await bunBuild(buildConfig);
-    const duration = getElapsedPerfTime(timer);
+      const buildResult = await bunBuild(buildConfig);
+      const duration = getElapsedPerfTime(timer);
+      if (analyze) recordBunMetafile(outDirBin, buildResult.metafile);
 
-    if (buildResult.success) {
-      relinka(
-        "success",
-        `[Bun:${libName}] Library build completed in ${prettyMilliseconds(duration)} (${buildResult.outputs.length} outputs).`,
-      );
-      if (buildResult.logs?.length > 0) {
-        for (const log of buildResult.logs) {
-          relinka("verbose", `[Bun Log:${log.level}] ${log.message}`);
+      if (buildResult.success) {
+        relinka(
+          "success",
+          `[Bun:${libName}] Library build (${format}) completed in ${prettyMilliseconds(duration)} (${buildResult.outputs.length} outputs).`,
+        );
+        if (buildResult.logs?.length > 0) {
+          for (const log of buildResult.logs) {
+            relinka("verbose", `[Bun Log:${log.level}] ${log.message}`);
+          }
         }
-      }
-    } else {
-      relinka(
-        "error",
-        `[Bun:${libName}] Library build failed after ${prettyMilliseconds(duration)}.`,
-      );
-      if (buildResult.logs?.length > 0) {
-        for (const log of buildResult.logs) {
-          relinka("error", `[Bun Log:${log.level}] ${log.message}`);
+      } else {
+        relinka(
+          "error",
+          `[Bun:${libName}] Library build (${format}) failed after ${prettyMilliseconds(duration)}.`,
+        );
+        if (buildResult.logs?.length > 0) {
+          for (const log of buildResult.logs) {
+            relinka("error", `[Bun Log:${log.level}] ${log.message}`);
+          }
         }
+        throw new Error(`[Bun:${libName}] Build process reported failure. Check logs.`);
       }
-      throw new Error(`[Bun:${libName}] Build process reported failure. Check logs.`);
     }
   } catch (error) {
     relinka(
@@ -682,6 +778,7 @@ async function library_bundleUsingUnified(
   // Select only options relevant to Unified/Unbuild
   options: Pick<
     BundleExecutorParams,
+    | "additionalEntryPoints"
     | "timer"
     | "libDeclarations"
     | "libTranspileMinify"
@@ -689,9 +786,12 @@ async function library_bundleUsingUnified(
     | "transpileEsbuild"
     | "transpileStub"
     | "unifiedBundlerOutExt"
+    | "dualFormat"
+    | "analyze"
   >,
 ): Promise<void> {
   const {
+    additionalEntryPoints,
     timer,
     libDeclarations,
     libTranspileMinify,
@@ -699,6 +799,8 @@ async function library_bundleUsingUnified(
     transpileEsbuild,
     transpileStub,
     unifiedBundlerOutExt,
+    dualFormat,
+    analyze,
   } = options;
 
   relinka("verbose", `[Unified:${builder}] Starting ${builder} build...`);
@@ -717,20 +819,33 @@ async function library_bundleUsingUnified(
   const inputRelative = path.relative(rootDir, entryPoint);
   const outDirRelative = path.relative(rootDir, outDirBin);
 
+  // mkdist needs one entry per format in dual-format mode, rollup emits both formats itself
+  const mkdistPasses = builder === "mkdist" && dualFormat ? DUAL_FORMAT_PASSES : [undefined];
+
   const unifiedBuildConfig: UnifiedBuildConfig = {
     clean: false,
     declaration: libDeclarations ? "compatible" : false,
     entries: [
-      {
+      ...mkdistPasses.map((pass) => ({
         builder: builder,
         input: inputRelative,
         outDir: outDirRelative,
+        ext: pass?.ext ?? validatedExt,
+        ...(pass && { format: pass.format }),
+        isLib: true,
+      })),
+      // mkdist already builds the whole directory, rollup needs each export entry
+      ...(builder === "mkdist" ? [] : additionalEntryPoints).map((entryFile) => ({
+        builder,
+        input: path.relative(rootDir, entryFile),
+        name: path.relative(path.dirname(entryPoint), entryFile).replace(/\.ts$/, ""),
+        outDir: outDirRelative,
         ext: validatedExt,
         isLib: true,
-      },
+      })),
     ],
     rollup: {
-      emitCJS: false,
+      emitCJS: dualFormat,
       esbuild: {
         minify: libTranspileMinify,
         target: transpileEsbuild,
@@ -740,7 +855,14 @@ async function library_bundleUsingUnified(
         sourcemap: getUnifiedSourcemapOption(transpileSourcemap),
       },
     },
-    hooks: {},
+    hooks:
+      analyze && builder === "rollup"
+        ? {
+            "rollup:options": (_ctx, rollupOptions) => {
+              rollupOptions.plugins.push(bundleAnalyzerPlugin(outDirBin));
+            },
+          }
+        : {},
     stub: transpileStub,
   };
 
@@ -785,6 +907,7 @@ async function library_performCommonBuildSteps(params: CommonStepsParams): Promi
     isJsr,
     libName,
     libsList,
+    siblingLibs,
     config,
     unifiedBundlerOutExt,
     distJsrOutFilesExt,
@@ -812,6 +935,7 @@ async function library_performCommonBuildSteps(params: CommonStepsParams): Promi
     libsList,
     config,
     unifiedBundlerOutExt,
+    siblingLibs,
   );
   relinka("verbose", `${logPrefix} Created package.json.`);
 
@@ -900,6 +1024,30 @@ async function library_performCommonBuildSteps(params: CommonStepsParams): Promi
   relinka("verbose", `${logPrefix} Completed common build steps.`);
 }
 
+/**
+ * Resolves the source files of `libExports` subpaths and ensures they exist.
+ * Paths are resolved relative to the library's source directory.
+ */
+async function library_resolveAdditionalEntryPoints(
+  libName: string,
+  libSourceDir: string,
+  libMainFile: string,
+  libExports: Record<string, string> | undefined,
+): Promise<string[]> {
+  const entries = resolveExportEntries(path.basename(libMainFile), libExports);
+  const entryPoints = getAdditionalEntryFiles(entries).map((file) =>
+    path.resolve(libSourceDir, file),
+  );
+
+  for (const entryPoint of entryPoints) {
+    if (!(await fs.pathExists(entryPoint))) {
+      throw new Error(`[${libName}] libExports entry file not found: ${entryPoint}`);
+    }
+  }
+
+  return entryPoints;
+}
+
 /**
  * Determines the specific source directory for an NPM library.
  * @returns An object containing the resolved `libSpecificSrcDir` and `libDirName` (if found).
@@ -1,7 +1,7 @@
 import path, { convertImportsAliasToRelative, convertImportsExt } from "@reliverse/pathkit";
 import fs from "@reliverse/relifso";
 import { relinka } from "@reliverse/relinka";
-import { build as bunBuild } from "bun";
+import { type BuildOutput, build as bunBuild } from "bun";
 import prettyMilliseconds from "pretty-ms";
 
 import type {
@@ -14,6 +14,7 @@ import type {
 } from "~/libs/sdk/sdk-impl/config/types";
 import type { PerfTimer, UnifiedBuildConfig } from "~/libs/sdk/sdk-impl/sdk-types";
 
+import { bundleAnalyzerPlugin, recordBunMetafile } from "~/libs/sdk/sdk-impl/build/build-analyze";
 import { unifiedBuild } from "~/libs/sdk/sdk-impl/build/providers/build";
 import {
   getBunSourcemapOption,
@@ -25,6 +26,14 @@ import {
   PROJECT_ROOT,
   validExtensions,
 } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+import {
+  DUAL_FORMAT_PASSES,
+  finalizeDualFormatOutput,
+} from "~/libs/sdk/sdk-impl/utils/utils-dual-format";
+import {
+  getAdditionalEntryFiles,
+  resolveExportEntries,
+} from "~/libs/sdk/sdk-impl/utils/utils-exports";
 import { copyRootFile, deleteSpecificFiles } from "~/libs/sdk/sdk-impl/utils/utils-fs";
 import { createJsrJSON, renameTsxFiles } from "~/libs/sdk/sdk-impl/utils/utils-jsr-json";
 import { regular_createPackageJSON } from "~/libs/sdk/sdk-impl/utils/utils-package-json-regular";
@@ -63,6 +72,11 @@ export async function regular_buildJsrDist(
   const outDirBin = path.join(outDirRoot, config.coreBuildOutDir || "bin");
   const singleFile = path.join(process.cwd(), coreEntrySrcDir, coreEntryFile);
   const srcDir = path.join(process.cwd(), coreEntrySrcDir);
+  const additionalEntryFiles = await regular_resolveAdditionalEntryFiles(
+    srcDir,
+    coreEntryFile,
+    config.coreExports,
+  );
 
   relinka("log", `Building JSR distribution (isDev=${isDev}, isJsr=${isJsr})...`);
 
@@ -73,7 +87,10 @@ export async function regular_buildJsrDist(
     // Bundle the project
     await regular_bundleWithBuilder(distJsrBuilder, {
       coreIsCLI: { enabled: coreIsCLI.enabled, scripts: coreIsCLI.scripts },
+      additionalEntryFiles,
+      analyze: config.buildAnalyze,
       coreDeclarations,
+      dualFormat: false,
       outDir: outDirBin,
       singleFile,
       srcDir,
@@ -164,8 +181,15 @@ export async function regular_buildNpmDist(
   const outDirBin = path.join(outDirRoot, config.coreBuildOutDir || "bin");
   const singleFile = path.join(process.cwd(), coreEntrySrcDir, coreEntryFile);
   const srcDir = path.join(process.cwd(), coreEntrySrcDir);
+  const additionalEntryFiles = await regular_resolveAdditionalEntryFiles(
+    srcDir,
+    coreEntryFile,
+    config.coreExports,
+  );
 
-  relinka("log", `Building NPM distribution (isDev=${isDev})...`);
+  const dualFormat = config.distNpmDualFormat && distNpmBuilder !== "jsr";
+
+  relinka("log", `Building NPM distribution (isDev=${isDev}, dualFormat=${dualFormat})...`);
 
   try {
     // Create the output directory
@@ -174,7 +198,10 @@ export async function regular_buildNpmDist(
     // Bundle the project
     await regular_bundleWithBuilder(distNpmBuilder, {
       coreIsCLI: { enabled: coreIsCLI.enabled, scripts: coreIsCLI.scripts },
+      additionalEntryFiles,
+      analyze: config.buildAnalyze,
       coreDeclarations,
+      dualFormat,
       outDir: outDirBin,
       singleFile,
       srcDir,
@@ -190,6 +217,10 @@ export async function regular_buildNpmDist(
       unifiedBundlerOutExt,
     });
 
+    if (dualFormat) {
+      await finalizeDualFormatOutput(outDirBin);
+    }
+
     // Perform common build steps
     await regular_performCommonBuildSteps({
       coreIsCLI,
@@ -224,9 +255,12 @@ export async function regular_buildNpmDist(
  */
 async function regular_bundleUsingBun(
   coreEntryFile: string,
+  additionalEntryFiles: string[],
   outDirBin: string,
   transpileTarget: transpileTarget,
   transpileFormat: transpileFormat,
+  dualFormat: boolean,
+  analyze: boolean,
   transpileSplitting: boolean,
   transpileMinify: boolean,
   transpileSourcemap: Sourcemap,
@@ -243,29 +277,40 @@ async function regular_bundleUsingBun(
     throw new Error(`Entry file not found: ${coreEntryFile}`);
   }
 
+  // Dual-format builds run one pass per format, each with its own file extension
+  const passes = dualFormat ? DUAL_FORMAT_PASSES : [{ format: transpileFormat, ext: "[ext]" }];
+
   try {
-    const buildResult = await bunBuild({
-      banner: "/* Bundled by @reliverse/dler */",
-      define: {
-        "process.env.NODE_ENV": JSON.stringify(process.env.NODE_ENV || "production"),
-      },
-      drop: ["debugger"],
-      entrypoints: [coreEntryFile],
-      footer: "/* End of bundle */",
-      format: transpileFormat,
-      minify: transpileMinify,
-      naming: {
-        asset: "[name]-[hash].[ext]",
-        chunk: "[name]-[hash].[ext]",
-        entry: "[dir]/[name]-[hash].[ext]",
-      },
-      outdir: outDirBin,
-      publicPath: transpilePublicPath || "/",
-      sourcemap: getBunSourcemapOption(transpileSourcemap),
-      splitting: transpileSplitting,
-      target: transpileTarget,
-      throw: true,
-    });
+    const buildResults: BuildOutput[] = [];
+    for (const { format, ext } of passes) {
+      const buildResult = await bunBuild({
+        banner: "/* Bundled by @reliverse/dler */",
+        define: {
+          "process.env.NODE_ENV": JSON.stringify(process.env.NODE_ENV || "production"),
+        },
+        drop: ["debugger"],
+        entrypoints: [coreEntryFile, ...additionalEntryFiles],
+        footer: "/* End of bundle */",
+        format,
+        metafile: analyze,
+        minify: transpileMinify,
+        naming: {
+          asset: "[name]-[hash].[ext]",
+          chunk: `[name]-[hash].${ext}`,
+          entry: dualFormat ? `[dir]/[name].${ext}` : "[dir]/[name]-[hash].[ext]",
+        },
+        outdir: outDirBin,
+        publicPath: transpilePublicPath || "/",
+        sourcemap: getBunSourcemapOption(transpileSourcemap),
+        splitting: transpileSplitting,
+        target: transpileTarget,
+        throw: true,
+      });
+      buildResults.push(buildResult);
+      if (analyze) recordBunMetafile(outDirBin, buildResult.metafile);
+    }
+    const outputsCount = buildResults.reduce((sum, result) => sum + result.outputs.length, 0);
+    const logs = buildResults.flatMap((result) => result.logs);
 
     // Build duration
     const duration = getElapsedPerfTime(timer);
@@ -274,11 +319,11 @@ async function regular_bundleUsingBun(
     });
     relinka(
       "success",
-      `Regular bun build completed in ${transpileFormattedDuration} with ${buildResult.outputs.length} output file(s).`,
+      `Regular bun build completed in ${transpileFormattedDuration} with ${outputsCount} output file(s).`,
     );
 
-    if (buildResult.logs && buildResult.logs.length > 0) {
-      buildResult.logs.forEach((log, index) => {
+    if (logs.length > 0) {
+      logs.forEach((log, index) => {
         relinka("verbose", `Log ${index + 1}: ${JSON.stringify(log)}`);
       });
     }
@@ -341,9 +386,12 @@ async function regular_bundleUsingJsr(src: string, dest: string): Promise<void>
 async function regular_bundleUsingUnified(
   coreIsCLI: { enabled: boolean; scripts: Record<string, string> },
   coreEntryFile: string,
+  additionalEntryFiles: string[],
   outDirBin: string,
   builder: BundlerName,
   unifiedBundlerOutExt: NpmOutExt,
+  dualFormat: boolean,
+  analyze: boolean,
   coreEntrySrcDir: string,
   transpileStub: boolean,
   transpileWatch: boolean,
@@ -374,24 +422,37 @@ async function regular_bundleUsingUnified(
     // For other unified builders, pass the single file
     const input = builder === "mkdist" ? path.dirname(coreEntryFile) : coreEntryFile;
 
+    // mkdist needs one entry per format in dual-format mode, rollup emits both formats itself
+    const mkdistPasses = builder === "mkdist" && dualFormat ? DUAL_FORMAT_PASSES : [undefined];
+
     const unifiedBuildConfig = {
       clean: false,
       concurrency: CONCURRENCY_DEFAULT,
       declaration: coreDeclarations,
       entries: [
-        {
+        ...mkdistPasses.map((pass) => ({
           builder,
-          ext: unifiedBundlerOutExt,
+          ext: pass?.ext ?? unifiedBundlerOutExt,
+          ...(pass && { format: pass.format }),
           input:
             builder === "mkdist"
               ? path.relative(rootDir, srcDirResolved) // Use relative path from PROJECT_ROOT to src dir
               : path.relative(rootDir, input), // For other builders, use relative path to entry file
           outDir: path.relative(rootDir, outDirBin),
           isLib: false,
-        },
+        })),
+        // mkdist already builds the whole directory, other builders need each export entry
+        ...(builder === "mkdist" ? [] : additionalEntryFiles).map((entryFile) => ({
+          builder,
+          ext: unifiedBundlerOutExt,
+          input: path.relative(rootDir, entryFile),
+          name: path.relative(srcDirResolved, entryFile).replace(/\.ts$/, ""),
+          outDir: path.relative(rootDir, outDirBin),
+          isLib: false,
+        })),
       ],
       rollup: {
-        emitCJS: false,
+        emitCJS: dualFormat,
         esbuild: {
           minify: transpileMinify,
           target: transpileTarget,
@@ -404,6 +465,14 @@ async function regular_bundleUsingUnified(
       showOutLog: true,
       transpileStub,
       transpileWatch: transpileWatch ?? false,
+      ...(analyze &&
+        builder === "rollup" && {
+          hooks: {
+            "rollup:options": (_ctx, options) => {
+              options.plugins.push(bundleAnalyzerPlugin(outDirBin));
+            },
+          },
+        }),
     } satisfies UnifiedBuildConfig & { concurrency?: number };
 
     await unifiedBuild(coreEntrySrcDir, coreIsCLI, false, rootDir, unifiedBuildConfig, outDirBin);
@@ -424,14 +493,37 @@ async function regular_bundleUsingUnified(
   }
 }
 
+/**
+ * Resolves the source files of `coreExports` subpaths and ensures they exist.
+ */
+async function regular_resolveAdditionalEntryFiles(
+  srcDir: string,
+  coreEntryFile: string,
+  coreExports: Record<string, string> | undefined,
+): Promise<string[]> {
+  const entries = resolveExportEntries(coreEntryFile, coreExports);
+  const entryFiles = getAdditionalEntryFiles(entries).map((file) => path.join(srcDir, file));
+
+  for (const entryFile of entryFiles) {
+    if (!(await fs.pathExists(entryFile))) {
+      throw new Error(`coreExports entry file not found: ${entryFile}`);
+    }
+  }
+
+  return entryFiles;
+}
+
 /**
  * Helper function to decide bundler approach: "jsr" vs "bun" vs "unified".
  */
 async function regular_bundleWithBuilder(
   builder: BundlerName,
   params: {
+    additionalEntryFiles: string[]; // subpath export entries (used if bun/unified)
+    analyze: boolean; // collect bundle composition data (used if bun/rollup)
     coreIsCLI: { enabled: boolean; scripts: Record<string, string> };
     coreDeclarations: boolean;
+    dualFormat: boolean; // emit both ESM and CJS (used if bun/unified)
     outDir: string;
     singleFile: string; // single entry file (used if bun/unified)
     srcDir: string; // entire directory (used if builder=jsr)
@@ -448,8 +540,11 @@ async function regular_bundleWithBuilder(
   },
 ): Promise<void> {
   const {
+    additionalEntryFiles,
+    analyze,
     coreIsCLI,
     coreDeclarations,
+    dualFormat,
     outDir,
     singleFile,
     srcDir,
@@ -475,9 +570,12 @@ async function regular_bundleWithBuilder(
   if (builder === "bun") {
     await regular_bundleUsingBun(
       singleFile,
+      additionalEntryFiles,
       outDir,
       transpileTarget,
       transpileFormat,
+      dualFormat,
+      analyze,
       transpileSplitting,
       transpileMinify,
       transpileSourcemap,
@@ -491,9 +589,12 @@ async function regular_bundleWithBuilder(
   await regular_bundleUsingUnified(
     coreIsCLI,
     singleFile,
+    additionalEntryFiles,
     outDir,
     builder,
     unifiedBundlerOutExt,
+    dualFormat,
+    analyze,
     // For mkdist, we pass the directory. For others, we pass the single file
     path.dirname(singleFile),
     transpileStub,
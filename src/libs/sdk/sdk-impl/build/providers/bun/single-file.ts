@@ -1,6 +1,14 @@
-import { join } from "@reliverse/pathkit";
-import { existsSync, mkdir, rm } from "@reliverse/relifso";
+import { basename, join } from "@reliverse/pathkit";
+import fs, { existsSync, mkdir, rm } from "@reliverse/relifso";
 import { relinka } from "@reliverse/relinka";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { readPackageJSON } from "pkg-types";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+import type { ArchiveEntry } from "~/libs/sdk/sdk-impl/utils/utils-archive";
+
+import { createTarGz, createZip } from "~/libs/sdk/sdk-impl/utils/utils-archive";
 
 interface BuildTarget {
   platform: string;
@@ -10,6 +18,7 @@ interface BuildTarget {
 }
 
 export interface BuildOptions {
+  name: string; // Base name of the output files (e.g., "mycli" -> "mycli-linux", "mycli-windows.exe")
   minify: boolean;
   sourcemap: boolean;
   bytecode: boolean;
@@ -20,8 +29,34 @@ export interface BuildOptions {
   assetNaming: string;
   external?: string[];
   compile: boolean;
+  archive: boolean; // Package each target with README/LICENSE into .tar.gz (linux/darwin) or .zip (windows)
+  archiveName: string; // Archive name template without extension, e.g. "[name]-[version]-[platform]-[arch]"
 }
 
+/** A release archive of a single target */
+export interface BinaryManifestArchive {
+  file: string;
+  size: number;
+  sha256: string;
+}
+
+/** A single built file, as listed in the release manifest */
+export interface BinaryManifestEntry {
+  target: string;
+  file: string;
+  size: number;
+  sha256: string;
+  version: string;
+  archive?: BinaryManifestArchive;
+}
+
+export const BINARY_CHECKSUMS_FILE = "SHA256SUMS";
+export const BINARY_MANIFEST_FILE = "manifest.json";
+export const DEFAULT_ARCHIVE_NAME = "[name]-[version]-[platform]-[arch]";
+
+// Files from the project root that are packaged next to the executable
+const ARCHIVE_EXTRA_FILES_RE = /^(readme|license|licence)(\.[a-z]+)?$/i;
+
 const TARGETS: BuildTarget[] = [
   { platform: "linux", arch: "x64", extension: "", target: "bun-linux-x64" },
   { platform: "linux", arch: "x64-baseline", extension: "", target: "bun-linux-x64-baseline" },
@@ -56,7 +91,7 @@ export const buildForTarget = async (
   inputFile: string,
   options: BuildOptions,
 ): Promise<void> => {
-  const outputFile = join(options.outdir, getOutputFileName(target, "dler", options.compile));
+  const outputFile = join(options.outdir, getOutputFileName(target, options.name, options.compile));
 
   const buildArgs = [
     "build",
@@ -138,6 +173,132 @@ export const buildForTarget = async (
   }
 };
 
+/**
+ * Resolves the default base name of the output files: the `coreIsCLI` script
+ * that points to the input file (or the first script), then the unscoped package name.
+ */
+export const getDefaultBinaryName = async (
+  inputFile: string,
+  config: DlerConfig,
+): Promise<string> => {
+  if (config.coreIsCLI.enabled) {
+    const scripts = Object.entries(config.coreIsCLI.scripts);
+    const inputScript = scripts.find(([, script]) => basename(script) === basename(inputFile));
+    const scriptName = (inputScript ?? scripts[0])?.[0];
+    if (scriptName) return scriptName;
+  }
+
+  const pkg = await readPackageJSON().catch(() => undefined);
+  const pkgName = pkg?.name?.split("/").pop();
+  if (pkgName) return pkgName;
+
+  return basename(inputFile).replace(/\.[^.]+$/, "");
+};
+
+/**
+ * Writes `SHA256SUMS` (in `sha256sum` format) and `manifest.json` for the built targets
+ * into the output directory, so the files can be attached to a release as they are.
+ * With `options.archive`, also packages each target and lists the archives in both files.
+ */
+export const writeBinaryManifest = async (
+  targets: BuildTarget[],
+  options: BuildOptions,
+): Promise<BinaryManifestEntry[]> => {
+  const pkg = await readPackageJSON().catch(() => undefined);
+  const version = pkg?.version ?? "0.0.0";
+
+  const entries: BinaryManifestEntry[] = [];
+  for (const target of targets) {
+    const file = getOutputFileName(target, options.name, options.compile);
+    const filePath = join(options.outdir, file);
+    if (!existsSync(filePath)) continue;
+    const content = await readFile(filePath);
+    entries.push({
+      target: target.target,
+      file,
+      size: content.length,
+      sha256: createHash("sha256").update(content).digest("hex"),
+      version,
+      archive: options.archive
+        ? await createTargetArchive(target, content, options, version)
+        : undefined,
+    });
+  }
+
+  const checksums = entries
+    .flatMap(({ file, sha256, archive }) => [
+      `${sha256}  ${file}\n`,
+      archive ? `${archive.sha256}  ${archive.file}\n` : "",
+    ])
+    .join("");
+  await fs.writeFile(join(options.outdir, BINARY_CHECKSUMS_FILE), checksums, "utf8");
+  await fs.writeJSON(
+    join(options.outdir, BINARY_MANIFEST_FILE),
+    { name: options.name, version, files: entries },
+    { spaces: 2 },
+  );
+
+  relinka(
+    "info",
+    `Wrote ${BINARY_CHECKSUMS_FILE} and ${BINARY_MANIFEST_FILE} for ${entries.length} file(s)`,
+  );
+  return entries;
+};
+
+/**
+ * Packages a built target with the README/LICENSE files of the project.
+ * Windows targets get a `.zip`, the others a `.tar.gz`.
+ */
+const createTargetArchive = async (
+  target: BuildTarget,
+  content: Buffer,
+  options: BuildOptions,
+  version: string,
+): Promise<BinaryManifestArchive> => {
+  const baseName = options.archiveName
+    .replaceAll("[name]", options.name)
+    .replaceAll("[version]", version)
+    .replaceAll("[platform]", target.platform)
+    .replaceAll("[arch]", target.arch)
+    .replaceAll("[target]", target.target);
+  const isZip = target.platform === "windows";
+  const file = `${baseName}${isZip ? ".zip" : ".tar.gz"}`;
+
+  // Executables are stored without the target suffix, e.g. "mycli" or "mycli.exe"
+  const entries: ArchiveEntry[] = [
+    {
+      name: options.compile
+        ? `${options.name}${target.extension}`
+        : getOutputFileName(target, options.name, false),
+      content,
+      mode: 0o755,
+      mtime: new Date(),
+    },
+  ];
+  const rootFiles = await fs.readdir(process.cwd());
+  for (const extraFile of rootFiles.filter((f) => ARCHIVE_EXTRA_FILES_RE.test(f)).sort()) {
+    const extraPath = join(process.cwd(), extraFile);
+    const stat = await fs.stat(extraPath);
+    if (!stat.isFile()) continue;
+    entries.push({
+      name: extraFile,
+      content: await readFile(extraPath),
+      mode: 0o644,
+      mtime: stat.mtime,
+    });
+  }
+
+  const archive = isZip ? createZip(entries) : createTarGz(entries);
+  await fs.writeFile(join(options.outdir, file), archive);
+  relinka("verbose", `Archived ${target.target}: ${file}`);
+
+  return {
+    file,
+    size: archive.length,
+    sha256: createHash("sha256").update(archive).digest("hex"),
+  };
+};
+
 export const cleanOutputDir = async (outdir: string): Promise<void> => {
   if (existsSync(outdir)) {
     relinka("info", `Cleaning output directory: ${outdir}`);
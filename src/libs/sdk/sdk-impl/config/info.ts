@@ -2,6 +2,8 @@ import { endPrompt, startPrompt } from "@reliverse/rempts";
 
 const version= "1.7.67";
 
+export const dlerVersion = version;
+
 export async function showStartPrompt(isDev: boolean) {
   await startPrompt({
     titleColor: "inverse",
@@ -210,12 +210,31 @@ function generateConfig(isDev: boolean, pkgDescription?: string): string {
     '  commonPubRegistry: "' + registryValue + '",',
     "  commonVerbose: " + verboseValue + ",",
     "",
+    "  // Publish configuration",
+    "  pubChangelog: {",
+    "    enabled: " + DEFAULT_CONFIG_DLER.pubChangelog.enabled + ",",
+    '    fileName: "' + DEFAULT_CONFIG_DLER.pubChangelog.fileName + '",',
+    "  },",
+    "  pubGit: {",
+    "    enabled: " + DEFAULT_CONFIG_DLER.pubGit.enabled + ",",
+    '    commitMessage: "' + DEFAULT_CONFIG_DLER.pubGit.commitMessage + '",',
+    "    push: " + DEFAULT_CONFIG_DLER.pubGit.push + ",",
+    '    remote: "' + DEFAULT_CONFIG_DLER.pubGit.remote + '",',
+    "  },",
+    '  pubLocalRegistry: "' + DEFAULT_CONFIG_DLER.pubLocalRegistry + '",',
+    '  pubNpmAccess: "' + DEFAULT_CONFIG_DLER.pubNpmAccess + '",',
+    '  pubNpmClient: "' + DEFAULT_CONFIG_DLER.pubNpmClient + '",',
+    '  pubNpmRegistry: "' + DEFAULT_CONFIG_DLER.pubNpmRegistry + '",',
+    '  pubTag: "' + DEFAULT_CONFIG_DLER.pubTag + '",',
+    "  pubVerify: " + DEFAULT_CONFIG_DLER.pubVerify + ",",
+    "",
     "  // Core configuration",
     '  coreBuildOutDir: "' + DEFAULT_CONFIG_DLER.coreBuildOutDir + '",',
     "  coreDeclarations: " + DEFAULT_CONFIG_DLER.coreDeclarations + ",",
     "  coreDescription: " + JSON.stringify(coreDescriptionValue) + ",",
     '  coreEntryFile: "' + DEFAULT_CONFIG_DLER.coreEntryFile + '",',
     '  coreEntrySrcDir: "' + DEFAULT_CONFIG_DLER.coreEntrySrcDir + '",',
+    "  coreExports: {},",
     "  " + coreIsCLI,
     "",
     "  // JSR-only config",
@@ -231,7 +250,9 @@ function generateConfig(isDev: boolean, pkgDescription?: string): string {
     "  // NPM-only config",
     '  distNpmBuilder: "' + DEFAULT_CONFIG_DLER.distNpmBuilder + '",',
     '  distNpmDirName: "' + DEFAULT_CONFIG_DLER.distNpmDirName + '",',
+    "  distNpmDryRun: " + DEFAULT_CONFIG_DLER.distNpmDryRun + ",",
     '  distNpmOutFilesExt: "' + DEFAULT_CONFIG_DLER.distNpmOutFilesExt + '",',
+    "  distNpmDualFormat: " + DEFAULT_CONFIG_DLER.distNpmDualFormat + ",",
     "",
     "  // Libraries Dler Plugin",
     "  // Publish specific dirs as separate packages",
@@ -259,6 +280,17 @@ function generateConfig(isDev: boolean, pkgDescription?: string): string {
     "  // If you need to exclude some ts/js files from being built,",
     "  // you can store them in the dirs with buildTemplatesDir name",
     '  buildTemplatesDir: "templates",',
+    "  // Skip unchanged build targets (cache is stored in node_modules/.cache/dler)",
+    "  buildCache: " + DEFAULT_CONFIG_DLER.buildCache + ",",
+    "  // Write a bundle size report to dist-analyze (same as `dler build --analyze`)",
+    "  buildAnalyze: " + DEFAULT_CONFIG_DLER.buildAnalyze + ",",
+    "",
+    '  // Output size budgets (e.g. dists: { "dist-npm": { gzip: "150 kB" } })',
+    "  sizeBudgets: {",
+    "    failOnExceed: " + DEFAULT_CONFIG_DLER.sizeBudgets.failOnExceed + ",",
+    '    snapshotFile: "' + DEFAULT_CONFIG_DLER.sizeBudgets.snapshotFile + '",',
+    "    snapshotMaxGrowth: " + DEFAULT_CONFIG_DLER.sizeBudgets.snapshotMaxGrowth + ",",
+    "  },",
     "",
     "  // Dependency filtering",
     "  // Global is always applied",
@@ -269,6 +301,10 @@ function generateConfig(isDev: boolean, pkgDescription?: string): string {
     "  runBeforeBuild: [],",
     "  // Available: dler-check",
     "  runAfterBuild: [],",
+    "  // Custom rules for dler check",
+    "  checkCustomRules: [],",
+    '  // Severity of dler check rules: "off", "warn" or "error"',
+    "  checkRules: { rules: {}, overrides: [] },",
     "",
     "  // Build hooks",
     "  hooksBeforeBuild: [",
@@ -35,8 +35,13 @@ export interface DlerConfig {
    * - `patch`: Increments the patch version for backwards-compatible bug fixes (1.2.3 → 1.2.4)
    * - `minor`: Increments the minor version for new backwards-compatible features (1.2.3 → 1.3.0)
    * - `major`: Increments the major version for breaking changes (1.2.3 → 2.0.0)
-   * - `auto`: Automatically determine the appropriate bump type
+   * - `auto`: Determined from the conventional commits since the last release tag
+   *   (`feat` → minor, `!`/`BREAKING CHANGE` → major, otherwise patch) and from the
+   *   public API: the exports of the source entry files are compared with the `.d.ts` files
+   *   of the previous release on the registry, and a removed export forces a major bump
+   *   (an added one a minor bump). A previous release without `.d.ts` files is not compared
    * - `manual`: Set a specific version (requires bumpSet to be set)
+   * - `prerelease`: Increments the prerelease with `bumpPreid` (1.2.3 → 1.2.4-beta.0, 1.3.0-beta.1 → 1.3.0-beta.2)
    *
    * Please note: `dler` infers the version from the `package.json` file.
    *
@@ -44,6 +49,13 @@ export interface DlerConfig {
    */
   bumpMode: BumpMode;
 
+  /**
+   * Prerelease identifier used when bumpMode is "prerelease" (e.g., "alpha", "beta", "rc").
+   *
+   * @default "beta"
+   */
+  bumpPreid: string;
+
   /**
    * Custom version to set when bumpMode is "manual".
    * Must be a valid semver version (e.g., "1.2.3").
@@ -82,6 +94,91 @@ export interface DlerConfig {
    */
   commonVerbose: boolean;
 
+  // ==========================================================================
+  // Publish configuration
+  // ==========================================================================
+
+  /**
+   * Changelog generation during `dler pub`. After the version bump, commits since the
+   * last release tag (`v1.2.3`) are grouped by conventional-commit type and scope, and
+   * a section for the new version is prepended to the changelog in the project root.
+   * Each library in `libsList` gets its own changelog in its `libsDirSrc` folder, based on
+   * the commits touching that folder since its last tag (`@scope/lib@1.2.3`).
+   * The new sections are also used as release notes when release tags are created.
+   *
+   * @default { enabled: false, fileName: "CHANGELOG.md" }
+   */
+  pubChangelog: ChangelogConfig;
+
+  /**
+   * Release commit and tags after a successful `dler pub`. Once every registry publish
+   * succeeded, the bumped `bumpFilter` files and the changelogs are committed, and an
+   * annotated tag is created per published package: `v1.2.3` for the main package and
+   * `@scope/lib@1.2.3` for each library (with the changelog section as its message).
+   * Nothing is committed or tagged when a publish fails or is a dry run.
+   *
+   * @default { enabled: false, commitMessage: "chore(release): v{version}", push: false, remote: "origin" }
+   */
+  pubGit: PubGitConfig;
+
+  /**
+   * Registry that `dler pub --local` publishes to and installs from. If nothing answers on it,
+   * a throwaway verdaccio is started there for the run. Must be on localhost, as the tested
+   * versions are unpublished from it.
+   *
+   * @default "http://localhost:4873"
+   */
+  pubLocalRegistry: string;
+
+  /**
+   * Access level of npm publishes (`--access`). Scoped packages are restricted by default,
+   * so set it to "public" to publish a new scoped package. When empty, the client's default is used.
+   *
+   * @default ""
+   */
+  pubNpmAccess: "" | "public" | "restricted";
+
+  /**
+   * Client that publishes to npm:
+   * - `auto`: The project's package manager (`packageManager` field, then lock files), or bun
+   * - `bun`: `bun publish`
+   * - `npm`: `npm publish` (e.g., for `--provenance`, set via `.npmrc` or `NPM_CONFIG_PROVENANCE`)
+   * - `pnpm`: `pnpm publish --no-git-checks`
+   * - `yarn`: `yarn npm publish` (Yarn 2+, dry runs use `yarn pack --dry-run`),
+   *   or `yarn publish` in Yarn 1 projects (dry runs use `npm publish --dry-run`)
+   * Each client reads its own `.npmrc`/`.yarnrc.yml` settings, e.g. the auth token.
+   *
+   * @default "auto"
+   */
+  pubNpmClient: "auto" | "bun" | "npm" | "pnpm" | "yarn";
+
+  /**
+   * Registry URL of npm publishes (`--registry`). When empty, the client's configured registry is used.
+   *
+   * @default ""
+   */
+  pubNpmRegistry: string;
+
+  /**
+   * npm dist-tag to publish under (e.g., "next", "beta"). When empty, stable versions
+   * go to `latest` and prereleases go to their preid (`1.3.0-beta.2` → `beta`).
+   * A prerelease is never published under `latest`, even when it's set here.
+   * JSR has no dist-tags, so this only applies to npm publishes.
+   *
+   * @default ""
+   */
+  pubTag: string;
+
+  /**
+   * Verifies the npm publishes: once every target is published, the package metadata is
+   * fetched back from the registry and its version, dist-tag, `exports`, `bin` and file count
+   * are compared with the built dists. Mismatches are reported per library and fail `dler pub`
+   * (after the release is finalized, since the packages are already published).
+   *
+   * @default false
+   */
+  pubVerify: boolean;
+
   // ==========================================================================
   // Core configuration
   // ==========================================================================
@@ -114,6 +211,24 @@ export interface DlerConfig {
    */
   coreEntrySrcDir: string;
 
+  /**
+   * Additional subpath exports of the package, mapped to their source entry files.
+   * Each entry is built alongside `coreEntryFile` and written to the dist's
+   * `exports` field (conditional `import`/`types`/`default` in package.json,
+   * plain paths in jsr.json). The `"."` subpath is always `coreEntryFile`.
+   *
+   * **The source files should be in your "coreEntrySrcDir" directory (by default "src")**
+   *
+   * @example
+   * {
+   *   "./utils": "utils/utils-mod.ts",
+   *   "./cli": "cli.ts"
+   * }
+   *
+   * @default {}
+   */
+  coreExports: Record<string, string>;
+
   /**
    * Directory where built files will be placed within the distribution directory.
    * For example, if set to "bin", CLI scripts will be placed in "dist-npm/bin" or "dist-jsr/bin".
@@ -187,8 +302,9 @@ export interface DlerConfig {
   distJsrDirName: string;
 
   /**
-   * When `true`, simulates the publishing process without actually publishing.
-   * Useful for testing the build and publish pipeline without side effects.
+   * When `true`, runs `jsr publish --dry-run` instead of publishing to JSR.
+   * npm publishes are controlled by `distNpmDryRun`. Use `dler pub --dry-run` to simulate
+   * the whole pipeline (version bump included) without side effects.
    *
    * @default false
    */
@@ -254,6 +370,14 @@ export interface DlerConfig {
    */
   distNpmDirName: string;
 
+  /**
+   * When `true`, runs the npm publish client with `--dry-run` instead of publishing to npm.
+   * JSR publishes are controlled by `distJsrDryRun`.
+   *
+   * @default false
+   */
+  distNpmDryRun: boolean;
+
   /**
    * Specifies the file extension for output files in NPM packages.
    * Determines the extension of compiled files in the NPM distribution.
@@ -263,6 +387,16 @@ export interface DlerConfig {
    */
   distNpmOutFilesExt: NpmOutExt;
 
+  /**
+   * When `true`, the NPM distribution contains both ESM (`.mjs`) and CJS (`.cjs`)
+   * output, with `.d.mts`/`.d.cts` declarations and `import`/`require` conditions
+   * in the generated `exports`. Overrides `transpileFormat` and `distNpmOutFilesExt`
+   * for the NPM distribution (libraries included).
+   *
+   * @default false
+   */
+  distNpmDualFormat: boolean;
+
   // ==========================================================================
   // Libraries Dler Plugin
   // ==========================================================================
@@ -392,6 +526,49 @@ export interface DlerConfig {
    */
   runAfterBuild: "dler-check"[];
 
+  /**
+   * Custom rules for `dler check`, registered next to the built-in ones.
+   * Each rule has a unique `id`, the `directories` it applies to, a default `severity`
+   * ("error" issues fail the check, "warn" issues are only reported), and a `run` function
+   * that checks one directory and returns its issues.
+   *
+   * @example
+   * checkCustomRules: [
+   *   {
+   *     id: "no-todo-comments",
+   *     description: "no TODO comments",
+   *     directories: ["src"],
+   *     severity: "warn",
+   *     run: async ({ directory }) => {
+   *       // ...collect the issues of `directory`
+   *       return { success: true, issues: [], stats: { filesChecked: 0, importsChecked: 0, timeElapsed: 0 } };
+   *     },
+   *   },
+   * ]
+   *
+   * @default []
+   */
+  checkCustomRules: CheckRule[];
+
+  /**
+   * Severity of the `dler check` rules, by rule id: "off" skips a rule, "warn" only reports
+   * its issues and "error" fails the check (non-zero exit code). Unlisted rules keep their
+   * default severity. `overrides` set the severity for the files matching their globs
+   * (relative to the project root), and the last matching override wins.
+   * Issues can also be suppressed in the code: `// dler-check-ignore <rule>` on the line of
+   * the issue or on the line above, or `// dler-check-ignore-file <rule>` anywhere in a file
+   * (without a rule id, every rule is ignored).
+   *
+   * @example
+   * checkRules: {
+   *   rules: { "no-index-files": "warn" },
+   *   overrides: [{ files: ["src/legacy/**"], rules: { "no-dynamic-imports": "off" } }],
+   * }
+   *
+   * @default { rules: {}, overrides: [] }
+   */
+  checkRules: CheckRulesConfig;
+
   // ==========================================================================
   // Build hooks
   // ==========================================================================
@@ -598,9 +775,45 @@ export interface DlerConfig {
    * @default "templates"
    */
   buildTemplatesDir: string;
+
+  /**
+   * When `true`, caches the output of each build target (regular NPM/JSR dists and libraries)
+   * under `node_modules/.cache/dler`, keyed on a content hash of its sources (and those of the
+   * libraries it imports), package.json, tsconfig.json, lockfile, resolved config and dler version.
+   * Unchanged targets are restored from the cache instead of being rebuilt.
+   * Stub, watch and analyze builds always skip the cache.
+   * @default true
+   */
+  buildCache: boolean;
+
+  /**
+   * When `true`, collects module-level size data from the bun and rollup builders
+   * and writes a self-contained HTML treemap and a JSON report into `dist-analyze`.
+   * Analyzed builds always skip the build cache. Same as `dler build --analyze`.
+   * @default false
+   */
+  buildAnalyze: boolean;
+
+  /**
+   * Output size budgets checked after the build.
+   * Sizes of the dists, libraries and entry files are printed as a table
+   * and the build fails when a budget (or the snapshot growth limit) is exceeded.
+   * Nothing is measured when no budget and no `snapshotFile` are set.
+   *
+   * @example
+   * sizeBudgets: {
+   *   dists: { "dist-npm": { raw: "500 kB", gzip: "150 kB" } },
+   *   libs: { "@reliverse/cfg": { brotli: "40 kB" } },
+   *   entries: { "dist-npm/bin/mod.js": { gzip: "10 kB" } },
+   *   snapshotFile: ".config/dler-sizes.json",
+   * }
+   *
+   * @default { failOnExceed: true, snapshotFile: "", snapshotMaxGrowth: 5 }
+   */
+  sizeBudgets: SizeBudgetsConfig;
 }
 
-export type BumpMode = "patch" | "minor" | "major" | "auto" | "manual";
+export type BumpMode = "patch" | "minor" | "major" | "auto" | "manual" | "prerelease";
 
 /**
  * Supported bundler names for building packages:
@@ -643,6 +856,17 @@ export interface LibConfig {
    */
   libDirName: string;
 
+  /**
+   * Additional subpath exports of the library, mapped to their source entry files.
+   * Paths are relative to the directory of `libMainFile`.
+   * The `"."` subpath is always `libMainFile`.
+   *
+   * @example { "./utils": "utils/utils-mod.ts" }
+   *
+   * @default {}
+   */
+  libExports?: Record<string, string>;
+
   /**
    * The path to the library's main entry file.
    * This file serves as the primary entry point for imports.
@@ -694,12 +918,219 @@ export interface LibConfig {
   /**
    * Optional version override for the library.
    * If not provided, falls back to the version from the main package.json.
+   * Sibling libraries that import this library pin it to this exact version.
    *
    * @default `package.json`'s "version"
    */
   version?: string;
 }
 
+/**
+ * Maximum output sizes of a single target.
+ * Numbers are bytes, strings may use a unit (e.g. "512 B", "20 kB", "1.5 MB", "64 KiB").
+ */
+export interface SizeBudget {
+  raw?: number | string;
+  gzip?: number | string;
+  brotli?: number | string;
+}
+
+/**
+ * Configuration of the output size budgets.
+ */
+export interface SizeBudgetsConfig {
+  /**
+   * Budgets of the main dists' `bin` directories.
+   */
+  dists?: Partial<Record<"dist-jsr" | "dist-npm", SizeBudget>>;
+
+  /**
+   * Budgets of each library's `npm/bin` and `jsr/bin` directories, keyed by library name.
+   */
+  libs?: Record<string, SizeBudget>;
+
+  /**
+   * Budgets of single output files, keyed by their path relative to the project root.
+   *
+   * @example { "dist-npm/bin/mod.js": { gzip: "10 kB" } }
+   */
+  entries?: Record<string, SizeBudget>;
+
+  /**
+   * When `true`, fails the build when a budget is exceeded. Otherwise only warns.
+   *
+   * @default true
+   */
+  failOnExceed: boolean;
+
+  /**
+   * Path to a sizes snapshot file committed in the repo (relative to the project root).
+   * Current sizes are compared against it, and it is created when missing.
+   * Use `dler build --updateSizeSnapshot` to overwrite it. Empty string disables it.
+   *
+   * @example ".config/dler-sizes.json"
+   *
+   * @default ""
+   */
+  snapshotFile: string;
+
+  /**
+   * Maximum allowed growth (in percent) of any size compared to the snapshot.
+   *
+   * @default 5
+   */
+  snapshotMaxGrowth: number;
+}
+
+/**
+ * Configuration of the changelog generation.
+ */
+export interface ChangelogConfig {
+  /**
+   * When `true`, writes the changelogs during `dler pub`.
+   *
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Changelog file name, used in the project root and in each library's folder.
+   *
+   * @default "CHANGELOG.md"
+   */
+  fileName: string;
+}
+
+/**
+ * Configuration of the release commit and tags.
+ */
+export interface PubGitConfig {
+  /**
+   * When `true`, creates the release commit and tags after publishing.
+   *
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Message of the release commit. `{version}` is replaced with the main package version.
+   *
+   * @default "chore(release): v{version}"
+   */
+  commitMessage: string;
+
+  /**
+   * When `true`, pushes the release commit and the new tags to `remote`.
+   *
+   * @default false
+   */
+  push: boolean;
+
+  /**
+   * Git remote to push to.
+   *
+   * @default "origin"
+   */
+  remote: string;
+}
+
+/**
+ * Severity of a `dler check` rule: "error" issues fail the check, "warn" issues are only reported.
+ */
+export type CheckRuleSeverity = "warn" | "error";
+
+/**
+ * Severity of a `dler check` rule in `checkRules`, where "off" skips it.
+ */
+export type CheckRuleLevel = "off" | CheckRuleSeverity;
+
+/**
+ * Severities of the `dler check` rules, by rule id, with per-glob overrides.
+ */
+export interface CheckRulesConfig {
+  rules: Record<string, CheckRuleLevel>;
+  overrides: CheckRulesOverride[];
+}
+
+/**
+ * Severities of the `dler check` rules for the files matching `files` globs.
+ */
+export interface CheckRulesOverride {
+  files: string[];
+  rules: Record<string, CheckRuleLevel>;
+}
+
+/**
+ * Directory that `dler check` checks (e.g. "src" or "dist-libs/npm").
+ */
+export type CheckRuleDirectory =
+  | "src"
+  | "dist-npm"
+  | "dist-jsr"
+  | "dist-libs/npm"
+  | "dist-libs/jsr";
+
+/**
+ * What a `dler check` rule gets when it checks a directory.
+ */
+export interface CheckRuleContext {
+  directory: CheckRuleDirectory;
+  strict: boolean;
+  moduleResolution: "bundler" | "nodenext";
+  onProgress?: (current: number, total: number, file: string) => void;
+  config: DlerConfig;
+}
+
+/**
+ * Issue found by a `dler check` rule.
+ */
+export interface CheckRuleIssue {
+  type: string;
+  message: string;
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Result of a `dler check` rule for one directory.
+ */
+export interface CheckRuleResult {
+  success: boolean;
+  issues: CheckRuleIssue[];
+  stats: {
+    filesChecked: number;
+    importsChecked: number;
+    timeElapsed: number;
+  };
+}
+
+/**
+ * A `dler check` rule, built in or registered with `checkCustomRules`.
+ */
+export interface CheckRule {
+  /** Unique id, used to select the rule (e.g. `dler check --checks no-todo-comments`) */
+  id: string;
+  description: string;
+  /** Directories the rule applies to; it's skipped for the others */
+  directories: CheckRuleDirectory[];
+  severity: CheckRuleSeverity;
+  run: (ctx: CheckRuleContext) => Promise<CheckRuleResult>;
+  /** Computes the fixes of the issues it reported (`dler check --fix`); dler writes them */
+  fix?: (ctx: CheckRuleContext, issues: CheckRuleIssue[]) => Promise<CheckRuleFix[]>;
+}
+
+/**
+ * A file change computed by a `dler check` rule to fix its issues.
+ */
+export interface CheckRuleFix {
+  file: string;
+  /** New content of the file (unchanged when omitted) */
+  content?: string;
+  /** New path of the file, when it's renamed */
+  renameTo?: string;
+}
+
 export type Esbuild = "es2019" | "es2020" | "es2021" | "es2022" | "es2023";
 
 /**
@@ -1,6 +1,9 @@
 import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
 import { relinka } from "@reliverse/relinka";
 import pAll from "p-all";
+import { readTSConfig } from "pkg-types";
+import { glob } from "tinyglobby";
 
 import type {
   BundlerName,
@@ -12,20 +15,28 @@ import type {
   transpileTarget,
   DlerConfig,
 } from "~/libs/sdk/sdk-impl/config/types";
+import type { NpmPubConfig } from "~/libs/sdk/sdk-impl/pub/pub-npm-client";
 import type { PerfTimer } from "~/libs/sdk/sdk-impl/sdk-types";
 
 import { library_buildLibrary } from "./build/build-library";
 import { library_publishLibrary } from "./pub/pub-library";
 import { CONCURRENCY_DEFAULT, PROJECT_ROOT } from "./utils/utils-consts";
+import { extractModuleSpecifiers } from "./utils/utils-misc";
 import { resumePerfTimer } from "./utils/utils-perf";
 
 /**
  * Builds libraries based on build mode.
+ * When `onlyLibs` is given, only these libs are built, while the rest
+ * of config.libsList is still used to resolve their dependencies.
+ * When config.libsDirSrc points to the temp build dir, `importLibsDirSrc`
+ * is the original libs dir, used to resolve the tsconfig aliases between libs.
  */
 export async function library_buildFlow(
   timer: PerfTimer,
   isDev: boolean,
   config: DlerConfig,
+  onlyLibs?: string[],
+  importLibsDirSrc = config.libsDirSrc,
 ): Promise<void> {
   relinka("info", "— — — library_buildFlow — — —");
 
@@ -56,6 +67,8 @@ export async function library_buildFlow(
     config.transpileWatch,
     config.distJsrOutFilesExt,
     config,
+    onlyLibs,
+    importLibsDirSrc,
   );
 }
 
@@ -85,13 +98,15 @@ export async function library_pubFlow(
     config.commonPubRegistry,
     config.distJsrAllowDirty,
     config.distJsrSlowTypes,
+    config.libsDirSrc,
+    config,
   );
 }
 
 /**
  * Extracts the folder name for a library, handling scoped packages or config overrides.
  */
-function extractFolderName(libName: string, libConfig?: LibConfig): string {
+export function extractFolderName(libName: string, libConfig?: LibConfig): string {
   // If user provided a custom directory name, use that
   if (libConfig?.libDirName) {
     return libConfig.libDirName;
@@ -116,7 +131,230 @@ function extractFolderName(libName: string, libConfig?: LibConfig): string {
 }
 
 /**
- * Builds all libs defined in config.libsList.
+ * Resolves the source directory of a library from its main file path.
+ */
+export function library_resolveMainDir(
+  libMainFile: string,
+  libsDirSrc: string,
+  folderName: string,
+): string {
+  const libMainPath = path.parse(libMainFile);
+
+  // Check for various path styles
+  if (libMainFile.startsWith(libsDirSrc)) {
+    // Case 1: Fully qualified path already includes libsDirSrc
+    return libMainPath.dir || ".";
+  }
+  if (libMainPath.dir) {
+    // Case 2: Has directory component, but does not start with libsDirSrc
+    return path.join(libsDirSrc, libMainPath.dir);
+  }
+  // Case 3: Just a filename, use folderName as fallback
+  return path.join(libsDirSrc, folderName);
+}
+
+/**
+ * Resolves the absolute source directory of a library.
+ */
+function library_resolveSrcDir(libName: string, libConfig: LibConfig, libsDirSrc: string): string {
+  const folderName = extractFolderName(libName, libConfig);
+  return path.resolve(
+    PROJECT_ROOT,
+    libConfig.libMainFile
+      ? library_resolveMainDir(libConfig.libMainFile, libsDirSrc, folderName)
+      : path.join(libsDirSrc, folderName),
+  );
+}
+
+/**
+ * Resolves the prefixes that libs use to import each other from source through
+ * the tsconfig `paths` aliases, e.g. `~/libs/` for `"~/*": ["./src/*"]` and libsDirSrc `src/libs`.
+ */
+export async function library_getLibsImportPrefixes(libsDirSrc: string): Promise<string[]> {
+  const tsconfig = await readTSConfig(PROJECT_ROOT).catch(() => undefined);
+  const baseDir = path.resolve(PROJECT_ROOT, tsconfig?.compilerOptions?.baseUrl ?? ".");
+  const libsDir = path.resolve(PROJECT_ROOT, libsDirSrc);
+  const prefixes = new Set<string>();
+
+  for (const [alias, targets] of Object.entries(tsconfig?.compilerOptions?.paths ?? {})) {
+    if (!alias.endsWith("/*")) continue;
+    for (const target of targets) {
+      if (!target.endsWith("/*")) continue;
+      const targetDir = path.resolve(baseDir, target.slice(0, -2));
+      if (libsDir !== targetDir && !libsDir.startsWith(`${targetDir}/`)) continue;
+      const libsSubdir = path.relative(targetDir, libsDir);
+      prefixes.add(`${alias.slice(0, -1)}${libsSubdir ? `${libsSubdir}/` : ""}`);
+    }
+  }
+
+  return [...prefixes];
+}
+
+/**
+ * Builds the dependency graph between the libs defined in config.libsList.
+ * A lib depends on another lib when its sources import it (by package name,
+ * by a tsconfig alias into its directory, or by a relative path into it),
+ * or when it lists it in `libPkgKeepDeps`.
+ *
+ * When libsDirSrc is a copy of the sources (e.g. the temp build dir), `importLibsDirSrc`
+ * is the original libs dir, since that's the one the tsconfig aliases point to.
+ *
+ * @returns A record of lib name to the names of the libs it depends on
+ */
+export async function library_getDependencyGraph(
+  libsList: Record<string, LibConfig>,
+  libsDirSrc: string,
+  importLibsDirSrc = libsDirSrc,
+): Promise<Record<string, string[]>> {
+  const importPrefixes = await library_getLibsImportPrefixes(importLibsDirSrc);
+  const libs = Object.entries(libsList).map(([libName, libConfig]) => ({
+    libName,
+    libConfig,
+    folderName: extractFolderName(libName, libConfig),
+    srcDir: library_resolveSrcDir(libName, libConfig, libsDirSrc),
+  }));
+
+  const findImportedLib = (specifier: string, fromFile: string): string | undefined => {
+    if (specifier.startsWith(".")) {
+      const target = path.resolve(path.dirname(fromFile), specifier);
+      return libs.find(({ srcDir }) => target === srcDir || target.startsWith(`${srcDir}/`))
+        ?.libName;
+    }
+    const importPrefix = importPrefixes.find((prefix) => specifier.startsWith(prefix));
+    if (importPrefix) {
+      const folder = specifier.slice(importPrefix.length).split("/")[0];
+      return libs.find(({ folderName }) => folderName === folder)?.libName;
+    }
+    return libs.find(({ libName }) => specifier === libName || specifier.startsWith(`${libName}/`))
+      ?.libName;
+  };
+
+  const graph: Record<string, string[]> = {};
+
+  for (const { libName, libConfig, srcDir } of libs) {
+    const deps = new Set<string>();
+
+    if (Array.isArray(libConfig.libPkgKeepDeps)) {
+      for (const dep of libConfig.libPkgKeepDeps) {
+        if (dep in libsList) deps.add(dep);
+      }
+    }
+
+    if (await fs.pathExists(srcDir)) {
+      const files = await glob("**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}", {
+        absolute: true,
+        cwd: srcDir,
+        ignore: ["**/node_modules/**"],
+      });
+      for (const file of files) {
+        const content = await fs.readFile(file, "utf8");
+        for (const { specifier } of extractModuleSpecifiers(content, file)) {
+          const importedLib = findImportedLib(specifier, file);
+          if (importedLib) deps.add(importedLib);
+        }
+      }
+    }
+
+    // Imports of the lib's own files are not dependencies
+    deps.delete(libName);
+    graph[libName] = [...deps].sort();
+    if (deps.size > 0) {
+      relinka("verbose", `Library ${libName} depends on: ${graph[libName].join(", ")}`);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Splits the libs dependency graph into levels: every lib only depends
+ * on libs from previous levels, so the libs of a single level can be
+ * processed in parallel. Throws when the graph contains a cycle.
+ */
+export function library_getBuildLevels(graph: Record<string, string[]>): string[][] {
+  const levels: string[][] = [];
+  const done = new Set<string>();
+  let remaining = Object.keys(graph);
+
+  while (remaining.length > 0) {
+    const level = remaining.filter((libName) =>
+      (graph[libName] ?? []).every((dep) => done.has(dep) || !(dep in graph)),
+    );
+    if (level.length === 0) {
+      throw new Error(
+        `Circular dependency between libraries: ${library_findCycle(graph, remaining).join(" -> ")}. Libraries in libsList must not depend on each other in a cycle.`,
+      );
+    }
+    for (const libName of level) done.add(libName);
+    remaining = remaining.filter((libName) => !done.has(libName));
+    levels.push(level);
+  }
+
+  return levels;
+}
+
+/**
+ * Finds a single cycle among the given libs, returned as a path
+ * that starts and ends with the same lib.
+ */
+function library_findCycle(graph: Record<string, string[]>, libNames: string[]): string[] {
+  const candidates = new Set(libNames);
+  const stack: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (libName: string): string[] | undefined => {
+    const stackIndex = stack.indexOf(libName);
+    if (stackIndex !== -1) return [...stack.slice(stackIndex), libName];
+    if (visited.has(libName)) return undefined;
+    visited.add(libName);
+    stack.push(libName);
+    for (const dep of graph[libName] ?? []) {
+      if (!candidates.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    return undefined;
+  };
+
+  for (const libName of libNames) {
+    const cycle = visit(libName);
+    if (cycle) return cycle;
+  }
+  return libNames;
+}
+
+/**
+ * Collects every lib that the given lib depends on, directly or through other libs.
+ */
+function library_getTransitiveDeps(graph: Record<string, string[]>, libName: string): string[] {
+  const deps = new Set<string>();
+  const queue = [...(graph[libName] ?? [])];
+  while (queue.length > 0) {
+    const dep = queue.shift() as string;
+    if (dep === libName || deps.has(dep)) continue;
+    deps.add(dep);
+    queue.push(...(graph[dep] ?? []));
+  }
+  return [...deps].sort();
+}
+
+/**
+ * Resolves the order in which libs must be built and published.
+ */
+function library_getOrderedLevels(graph: Record<string, string[]>): string[][] {
+  const levels = library_getBuildLevels(graph);
+  if (levels.length > 1) {
+    relinka(
+      "verbose",
+      `Libraries order: ${levels.map((level) => `[${level.join(", ")}]`).join(" -> ")}`,
+    );
+  }
+  return levels;
+}
+
+/**
+ * Builds all libs defined in config.libsList (or only `onlyLibs` of them), dependencies first.
  */
 export async function libraries_build(
   isDev: boolean,
@@ -145,6 +383,8 @@ export async function libraries_build(
   transpileWatch: boolean,
   distJsrOutFilesExt: NpmOutExt,
   config: DlerConfig,
+  onlyLibs?: string[],
+  importLibsDirSrc = libsDirSrc,
 ): Promise<void> {
   relinka("verbose", "Starting libraries_build");
 
@@ -153,10 +393,11 @@ export async function libraries_build(
     return;
   }
 
-  const libsEntries = Object.entries(libsList);
+  const graph = await library_getDependencyGraph(libsList, libsDirSrc, importLibsDirSrc);
+  const levels = library_getOrderedLevels(graph);
 
-  // Create a set of build tasks and run them in parallel (concurrency limited)
-  const tasks = libsEntries.map(([libName, libConfig]) => {
+  // Create a build task per lib
+  const createTask = (libName: string, libConfig: LibConfig) => {
     return async () => {
       try {
         if (!libConfig.libMainFile) {
@@ -169,22 +410,8 @@ export async function libraries_build(
         const npmOutDir = path.join(libBaseDir, "npm");
         const jsrOutDir = path.join(libBaseDir, "jsr");
 
-        // Parse the mainFile path
-        const libMainPath = path.parse(libConfig.libMainFile);
-        const libMainFile = libMainPath.base;
-        let libMainDir: string;
-
-        // Check for various path styles
-        if (libConfig.libMainFile.startsWith(libsDirSrc)) {
-          // Case 1: Fully qualified path already includes libsDirSrc
-          libMainDir = libMainPath.dir || ".";
-        } else if (libMainPath.dir) {
-          // Case 2: Has directory component, but does not start with libsDirSrc
-          libMainDir = path.join(libsDirSrc, libMainPath.dir);
-        } else {
-          // Case 3: Just a filename, use folderName as fallback
-          libMainDir = path.join(libsDirSrc, folderName);
-        }
+        const libMainFile = path.parse(libConfig.libMainFile).base;
+        const libMainDir = library_resolveMainDir(libConfig.libMainFile, libsDirSrc, folderName);
 
         relinka(
           "verbose",
@@ -212,6 +439,13 @@ export async function libraries_build(
           libMainFile,
           isDev,
           libsList,
+          siblingLibs: graph[libName] ?? [],
+          libDeps: Object.fromEntries(
+            library_getTransitiveDeps(graph, libName).map((dep) => [
+              dep,
+              library_resolveSrcDir(dep, libsList[dep] as LibConfig, libsDirSrc),
+            ]),
+          ),
           unifiedBundlerOutExt,
           filterDepsPatterns,
           transpileEsbuild,
@@ -235,12 +469,17 @@ export async function libraries_build(
         throw error;
       }
     };
-  });
+  };
 
   try {
-    await pAll(tasks, {
-      concurrency: CONCURRENCY_DEFAULT,
-    });
+    // Run levels in order, and the tasks of each level in parallel (concurrency limited)
+    for (const level of levels) {
+      const levelLibs = onlyLibs ? level.filter((libName) => onlyLibs.includes(libName)) : level;
+      await pAll(
+        levelLibs.map((libName) => createTask(libName, libsList[libName] as LibConfig)),
+        { concurrency: CONCURRENCY_DEFAULT },
+      );
+    }
     relinka("verbose", "Completed libraries_build");
   } catch (error) {
     if (timer) resumePerfTimer(timer);
@@ -249,7 +488,7 @@ export async function libraries_build(
 }
 
 /**
- * Publishes all libs defined in config.libsList.
+ * Publishes all libs defined in config.libsList, dependencies first.
  */
 export async function libraries_publish(
   isDev: boolean,
@@ -262,6 +501,8 @@ export async function libraries_publish(
   commonPubRegistry: "jsr" | "npm" | "npm-jsr",
   distJsrAllowDirty: boolean,
   distJsrSlowTypes: boolean,
+  libsDirSrc: string,
+  pubConfig: NpmPubConfig,
 ): Promise<void> {
   relinka("verbose", "Starting libraries_publish");
 
@@ -270,10 +511,10 @@ export async function libraries_publish(
     return;
   }
 
-  const libsEntries = Object.entries(libsList);
+  const levels = library_getOrderedLevels(await library_getDependencyGraph(libsList, libsDirSrc));
 
-  // Create a set of publish tasks and run them in parallel (concurrency limited)
-  const tasks = libsEntries.map(([libName, libConfig]) => {
+  // Create a publish task per lib
+  const createTask = (libName: string, libConfig: LibConfig) => {
     return async () => {
       try {
         // Determine top-level folder name for dist output
@@ -295,6 +536,7 @@ export async function libraries_publish(
             distJsrFailOnWarn,
             distJsrAllowDirty,
             distJsrSlowTypes,
+            pubConfig,
             isDev,
             timer,
           );
@@ -311,12 +553,17 @@ export async function libraries_publish(
         throw error;
       }
     };
-  });
+  };
 
   try {
-    await pAll(tasks, {
-      concurrency: CONCURRENCY_DEFAULT,
-    });
+    // Run levels in order, and the tasks of each level in parallel (concurrency limited)
+    for (const level of levels) {
+      await pAll(
+        level.map((libName) => createTask(libName, libsList[libName] as LibConfig)),
+        // Started publishes finish before failing, so the publish journal records them
+        { concurrency: CONCURRENCY_DEFAULT, stopOnError: false },
+      );
+    }
     relinka("verbose", "Completed libraries_publish");
   } catch (error) {
     if (timer) resumePerfTimer(timer);
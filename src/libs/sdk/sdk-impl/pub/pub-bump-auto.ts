@@ -0,0 +1,280 @@
+// ============================
+// Auto Bump Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import ky from "ky";
+import { readPackageJSON, type PackageJson } from "pkg-types";
+import { ModuleKind, ModuleResolutionKind, Project, ScriptTarget } from "ts-morph";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+import type { ConventionalCommit } from "~/libs/sdk/sdk-impl/pub/pub-changelog";
+
+import { extractFolderName, library_resolveMainDir } from "~/libs/sdk/sdk-impl/library-flow";
+import packageJson, {
+  PackageNotFoundError,
+  VersionNotFoundError,
+} from "~/libs/sdk/sdk-impl/utils/pm/pm-meta";
+import { extractTarGz } from "~/libs/sdk/sdk-impl/utils/utils-archive";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+import { resolveExportEntries } from "~/libs/sdk/sdk-impl/utils/utils-exports";
+
+export type ReleaseLevel = "major" | "minor" | "patch";
+
+/** Exports added and removed between two declaration surfaces */
+export interface DeclarationSurfaceDiff {
+  added: string[];
+  removed: string[];
+}
+
+const RELEASE_LEVELS: ReleaseLevel[] = ["patch", "minor", "major"];
+
+const DECLARATION_FILE_RE = /\.(d\.)?[mc]?ts$/;
+
+/**
+ * Returns the highest of the given release levels.
+ */
+export function maxReleaseLevel(...levels: ReleaseLevel[]): ReleaseLevel {
+  return levels.reduce<ReleaseLevel>(
+    (max, level) => (RELEASE_LEVELS.indexOf(level) > RELEASE_LEVELS.indexOf(max) ? level : max),
+    "patch",
+  );
+}
+
+/**
+ * Maps conventional commits to a release level:
+ * breaking changes (`!` or `BREAKING CHANGE`) are major, `feat` is minor, anything else is patch.
+ */
+export function getCommitReleaseLevel(commits: ConventionalCommit[]): ReleaseLevel {
+  if (commits.some((commit) => commit.breaking)) return "major";
+  if (commits.some((commit) => commit.type === "feat")) return "minor";
+  return "patch";
+}
+
+/**
+ * Collects the exported names of every `exports` subpath (or `types`) of a package
+ * from its declaration files, e.g. `". defineConfig"` or `"./utils formatBytes"`.
+ *
+ * @param files Package files keyed by their path relative to the package root, including `package.json`
+ */
+export function getDeclarationSurface(files: Map<string, string>): Set<string> {
+  const surface = new Set<string>();
+  const pkgContent = files.get("package.json");
+  if (!pkgContent) return surface;
+
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: {
+      module: ModuleKind.ESNext,
+      moduleResolution: ModuleResolutionKind.Bundler,
+      target: ScriptTarget.ESNext,
+    },
+  });
+  for (const [file, content] of files) {
+    if (DECLARATION_FILE_RE.test(file)) project.createSourceFile(`/pkg/${file}`, content);
+  }
+
+  const typesEntries = getTypesEntries(JSON.parse(pkgContent) as PackageJson, files);
+  for (const [subpath, typesFile] of Object.entries(typesEntries)) {
+    const sourceFile = project.getSourceFile(`/pkg/${typesFile}`);
+    if (!sourceFile) continue;
+    for (const name of sourceFile.getExportedDeclarations().keys()) {
+      surface.add(`${subpath} ${name}`);
+    }
+  }
+  return surface;
+}
+
+/**
+ * Compares two declaration surfaces.
+ */
+export function diffDeclarationSurfaces(
+  previous: Set<string>,
+  current: Set<string>,
+): DeclarationSurfaceDiff {
+  return {
+    added: [...current].filter((name) => !previous.has(name)).sort(),
+    removed: [...previous].filter((name) => !current.has(name)).sort(),
+  };
+}
+
+/**
+ * Collects the exported names of the source entry files, keyed like {@link getDeclarationSurface},
+ * so the current API can be compared with a published release without building it first.
+ *
+ * @param entries Source entry files keyed by `exports` subpath, relative to `srcDir`
+ */
+export function getSourceSurface(entries: Record<string, string>, srcDir: string): Set<string> {
+  const surface = new Set<string>();
+  const tsconfigPath = path.join(PROJECT_ROOT, "tsconfig.json");
+  // the project's tsconfig provides the path aliases, only the entries (and what they import) are loaded
+  const project = fs.existsSync(tsconfigPath)
+    ? new Project({ tsConfigFilePath: tsconfigPath, skipAddingFilesFromTsConfig: true })
+    : new Project({
+        compilerOptions: {
+          module: ModuleKind.ESNext,
+          moduleResolution: ModuleResolutionKind.Bundler,
+          target: ScriptTarget.ESNext,
+        },
+      });
+
+  for (const [subpath, entryFile] of Object.entries(entries)) {
+    const filePath = path.join(srcDir, entryFile);
+    if (!fs.existsSync(filePath)) continue;
+    const sourceFile = project.addSourceFileAtPath(filePath);
+    for (const name of sourceFile.getExportedDeclarations().keys()) {
+      surface.add(`${subpath} ${name}`);
+    }
+  }
+  return surface;
+}
+
+/**
+ * Compares the exports of the source entry files with the declarations of the previous
+ * release (`version`) on the registry. A removed export is major, an added export is minor.
+ * Packages that were never published, or whose release has no declaration files, are skipped.
+ * Libraries with their own `version` in `libsList` are not bumped by `bumpMode`, so they are skipped too.
+ */
+export async function getApiReleaseLevel(
+  config: DlerConfig,
+  version: string,
+): Promise<ReleaseLevel> {
+  const targets: { name: string; srcDir: string; entries: Record<string, string> }[] = [];
+
+  if (config.libsActMode !== "libs-only") {
+    const rootPkg = await readPackageJSON(PROJECT_ROOT);
+    if (rootPkg.name) {
+      targets.push({
+        name: rootPkg.name,
+        srcDir: path.resolve(PROJECT_ROOT, config.coreEntrySrcDir),
+        entries: resolveExportEntries(config.coreEntryFile, config.coreExports),
+      });
+    }
+  }
+  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
+    for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+      if (libConfig.version || !libConfig.libMainFile) continue;
+      const folderName = extractFolderName(libName, libConfig);
+      targets.push({
+        name: libName,
+        srcDir: path.resolve(
+          PROJECT_ROOT,
+          library_resolveMainDir(libConfig.libMainFile, config.libsDirSrc, folderName),
+        ),
+        entries: resolveExportEntries(path.basename(libConfig.libMainFile), libConfig.libExports),
+      });
+    }
+  }
+
+  let level: ReleaseLevel = "patch";
+  for (const { name, srcDir, entries } of targets) {
+    const previousFiles = await fetchPublishedDeclarations(name, version);
+    if (!previousFiles) {
+      relinka("verbose", `[bump] ${name}@${version} is not on the registry, skipping API diff`);
+      continue;
+    }
+
+    // without declarations in the previous release, every export would look added
+    const previousSurface = getDeclarationSurface(previousFiles);
+    if (previousSurface.size === 0) {
+      relinka("verbose", `[bump] ${name}@${version} has no declaration files, skipping API diff`);
+      continue;
+    }
+
+    const diff = diffDeclarationSurfaces(previousSurface, getSourceSurface(entries, srcDir));
+    if (diff.removed.length > 0) {
+      relinka(
+        "warn",
+        `[bump] ${name}: exports removed since ${version}, forcing a major bump:\n${diff.removed.map((name) => `  - ${name}`).join("\n")}`,
+      );
+      level = "major";
+    } else if (diff.added.length > 0) {
+      relinka("verbose", `[bump] ${name}: ${diff.added.length} export(s) added since ${version}`);
+      level = maxReleaseLevel(level, "minor");
+    }
+  }
+  return level;
+}
+
+/**
+ * Downloads the tarball of a published version and returns its declaration files and package.json.
+ * @returns `undefined` when the package or the version doesn't exist on the registry
+ */
+async function fetchPublishedDeclarations(
+  name: string,
+  version: string,
+): Promise<Map<string, string> | undefined> {
+  let tarballUrl: string | undefined;
+  try {
+    const pkg = (await packageJson(name, { version })) as { dist?: { tarball?: string } };
+    tarballUrl = pkg.dist?.tarball;
+  } catch (error) {
+    if (error instanceof PackageNotFoundError || error instanceof VersionNotFoundError) {
+      return undefined;
+    }
+    throw error;
+  }
+  if (!tarballUrl) return undefined;
+
+  const tarball = Buffer.from(await ky(tarballUrl).arrayBuffer());
+  const files = new Map<string, string>();
+  for (const entry of extractTarGz(tarball)) {
+    // npm tarballs keep the package files in a "package/" folder
+    const file = entry.name.replace(/^[^/]+\//, "");
+    if (file === "package.json" || DECLARATION_FILE_RE.test(file)) {
+      files.set(file, entry.content.toString("utf8"));
+    }
+  }
+  return files;
+}
+
+/**
+ * Resolves the declaration file of each `exports` subpath, falling back to `types`.
+ */
+function getTypesEntries(pkg: PackageJson, files: Map<string, string>): Record<string, string> {
+  const entries: Record<string, string> = {};
+  const exportsField = pkg.exports;
+
+  if (exportsField && typeof exportsField === "object") {
+    const isConditions = Object.keys(exportsField).every((key) => !key.startsWith("."));
+    const subpaths = isConditions ? { ".": exportsField } : exportsField;
+    for (const [subpath, value] of Object.entries(subpaths)) {
+      const typesFile = findTypesFile(value, files);
+      if (typesFile) entries[subpath] = typesFile;
+    }
+  } else if (typeof exportsField === "string") {
+    const typesFile = findTypesFile(exportsField, files);
+    if (typesFile) entries["."] = typesFile;
+  }
+
+  const types = pkg.types ?? pkg.typings;
+  if (!entries["."] && types) {
+    entries["."] = normalizePackagePath(types);
+  }
+  return entries;
+}
+
+function findTypesFile(value: unknown, files: Map<string, string>): string | undefined {
+  if (typeof value === "string") {
+    const file = normalizePackagePath(value);
+    if (DECLARATION_FILE_RE.test(file)) return file;
+    // A JS entry without a `types` condition may still have a declaration file next to it
+    const declarationFile = file.replace(/\.([mc]?)js$/, ".d.$1ts");
+    return files.has(declarationFile) ? declarationFile : undefined;
+  }
+  if (!value || typeof value !== "object") return undefined;
+
+  const conditions = value as Record<string, unknown>;
+  if (typeof conditions.types === "string") return normalizePackagePath(conditions.types);
+  for (const condition of Object.values(conditions)) {
+    const typesFile = findTypesFile(condition, files);
+    if (typesFile) return typesFile;
+  }
+  return undefined;
+}
+
+function normalizePackagePath(file: string): string {
+  return file.replace(/^\.\//, "");
+}
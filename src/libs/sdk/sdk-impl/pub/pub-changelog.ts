@@ -0,0 +1,253 @@
+// ============================
+// Changelog Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import { execa } from "execa";
+import { readPackageJSON } from "pkg-types";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import { extractFolderName } from "~/libs/sdk/sdk-impl/library-flow";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+/** A commit parsed from the git history */
+export interface ConventionalCommit {
+  hash: string; // Short hash
+  type: string; // Conventional commit type, or "other" for non-conventional messages
+  scope: string;
+  subject: string;
+  breaking: boolean;
+}
+
+/** A changelog section written for the main project or a library */
+export interface ChangelogRelease {
+  name: string; // Package name
+  version: string;
+  file: string; // Absolute path of the changelog file
+  notes: string; // Section body, used as the release notes
+  libName?: string; // Set for libraries from `libsList`
+}
+
+// Section titles in output order. Types not listed here are left out of the changelog.
+const CHANGELOG_SECTIONS: [type: string, title: string][] = [
+  ["feat", "Features"],
+  ["fix", "Bug Fixes"],
+  ["perf", "Performance"],
+  ["refactor", "Refactoring"],
+  ["revert", "Reverts"],
+  ["docs", "Documentation"],
+  ["other", "Other Changes"],
+];
+
+const CONVENTIONAL_COMMIT_RE = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+const BREAKING_CHANGE_RE = /^BREAKING[ -]CHANGE:/m;
+
+/**
+ * Returns the tag name of a release: `v1.2.3` for the main project
+ * and `@scope/lib@1.2.3` for libraries.
+ */
+export function getReleaseTagName(version: string, libName?: string): string {
+  return libName ? `${libName}@${version}` : `v${version}`;
+}
+
+/**
+ * Returns the changelog path of the main project, or of a library (inside its `libsDirSrc` folder).
+ */
+export function getChangelogPath(config: DlerConfig, libName?: string): string {
+  if (!libName) return path.join(PROJECT_ROOT, config.pubChangelog.fileName);
+  const folderName = extractFolderName(libName, config.libsList?.[libName]);
+  return path.join(PROJECT_ROOT, config.libsDirSrc, folderName, config.pubChangelog.fileName);
+}
+
+/**
+ * Finds the most recent release tag reachable from HEAD.
+ * @returns The tag name, or `undefined` when the project has not been released yet
+ */
+export async function getLastReleaseTag(libName?: string): Promise<string | undefined> {
+  const match = libName ? `${libName}@*` : "v[0-9]*";
+  const result = await execa("git", ["describe", "--tags", "--abbrev=0", "--match", match], {
+    cwd: PROJECT_ROOT,
+    reject: false,
+  });
+  return result.exitCode === 0 ? result.stdout.trim() : undefined;
+}
+
+/**
+ * Reads the commits since `fromTag` (or the whole history), optionally limited to a directory.
+ */
+export async function getCommitsSince(
+  fromTag: string | undefined,
+  dir?: string,
+): Promise<ConventionalCommit[]> {
+  const args = ["log", "--format=%h%x1f%s%x1f%b%x1e", fromTag ? `${fromTag}..HEAD` : "HEAD"];
+  if (dir) args.push("--", dir);
+  const { stdout } = await execa("git", args, { cwd: PROJECT_ROOT });
+
+  return stdout
+    .split("\x1e")
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash = "", message = "", body = ""] = record.split("\x1f");
+      return parseConventionalCommit(hash, message, body);
+    });
+}
+
+/**
+ * Parses a commit message like `feat(build)!: add watch mode`.
+ * Messages that don't follow conventional commits get the "other" type.
+ */
+export function parseConventionalCommit(
+  hash: string,
+  message: string,
+  body = "",
+): ConventionalCommit {
+  const match = CONVENTIONAL_COMMIT_RE.exec(message.trim());
+  if (!match?.[1] || !match[4]) {
+    return { hash, type: "other", scope: "", subject: message.trim(), breaking: false };
+  }
+  return {
+    hash,
+    type: match[1].toLowerCase(),
+    scope: match[2]?.trim() ?? "",
+    subject: match[4].trim(),
+    breaking: match[3] === "!" || BREAKING_CHANGE_RE.test(body),
+  };
+}
+
+/**
+ * Renders the commits grouped by type (and sorted by scope within a type) as markdown.
+ * Breaking changes are listed in their own section first.
+ */
+export function renderChangelogNotes(commits: ConventionalCommit[]): string {
+  const formatCommit = ({ hash, scope, subject }: ConventionalCommit) =>
+    `- ${scope ? `**${scope}:** ` : ""}${subject} (${hash})`;
+  const byScope = (a: ConventionalCommit, b: ConventionalCommit) => a.scope.localeCompare(b.scope);
+
+  const sections: string[] = [];
+  const breaking = commits.filter((commit) => commit.breaking);
+  if (breaking.length > 0) {
+    sections.push(`### Breaking Changes\n\n${breaking.map(formatCommit).join("\n")}`);
+  }
+  for (const [type, title] of CHANGELOG_SECTIONS) {
+    const typeCommits = commits
+      .filter((commit) => commit.type === type && !commit.breaking)
+      .sort(byScope);
+    if (typeCommits.length > 0) {
+      sections.push(`### ${title}\n\n${typeCommits.map(formatCommit).join("\n")}`);
+    }
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Prepends a section for the current version to `CHANGELOG.md` of the main project and,
+ * for `libsList`, to each library's changelog in its `libsDirSrc` folder
+ * (based on the commits that touched that folder since the library's last release tag).
+ * Versions that already have a section are left as they are, so retries don't duplicate it.
+ */
+export async function writeChangelogs(config: DlerConfig): Promise<ChangelogRelease[]> {
+  const isGitRepo = await execa("git", ["rev-parse", "--is-inside-work-tree"], {
+    cwd: PROJECT_ROOT,
+    reject: false,
+  });
+  if (isGitRepo.exitCode !== 0) {
+    relinka("warn", "[changelog] Not a git repository, skipping changelog generation");
+    return [];
+  }
+
+  const pkg = await readPackageJSON(PROJECT_ROOT);
+  const rootVersion = pkg.version ?? "0.0.0";
+  const releases: ChangelogRelease[] = [];
+
+  if (config.libsActMode !== "libs-only") {
+    const release = await writeChangelog({
+      name: pkg.name ?? path.basename(PROJECT_ROOT),
+      version: rootVersion,
+      file: getChangelogPath(config),
+      commits: await getCommitsSince(await getLastReleaseTag()),
+    });
+    releases.push(release);
+  }
+
+  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
+    for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+      const libDir = path.join(config.libsDirSrc, extractFolderName(libName, libConfig));
+      const commits = await getCommitsSince(await getLastReleaseTag(libName), libDir);
+      if (commits.length === 0) {
+        relinka("verbose", `[changelog] No commits for ${libName} since its last release`);
+        continue;
+      }
+      const release = await writeChangelog({
+        name: libName,
+        version: libConfig.version || rootVersion,
+        file: getChangelogPath(config, libName),
+        commits,
+        libName,
+      });
+      releases.push(release);
+    }
+  }
+
+  return releases;
+}
+
+/**
+ * Extracts the section of `version` from a changelog file.
+ * @returns The section body, or `undefined` when the file or the section doesn't exist
+ */
+export async function getReleaseNotes(file: string, version: string): Promise<string | undefined> {
+  if (!(await fs.pathExists(file))) return undefined;
+  const content = await fs.readFile(file, "utf8");
+  const lines = content.split("\n");
+  const start = lines.findIndex((line) => isVersionHeading(line, version));
+  if (start === -1) return undefined;
+  const end = lines.findIndex((line, i) => i > start && line.startsWith("## "));
+  return lines
+    .slice(start + 1, end === -1 ? undefined : end)
+    .join("\n")
+    .trim();
+}
+
+async function writeChangelog(params: {
+  name: string;
+  version: string;
+  file: string;
+  commits: ConventionalCommit[];
+  libName?: string;
+}): Promise<ChangelogRelease> {
+  const { name, version, file, commits, libName } = params;
+
+  const existingNotes = await getReleaseNotes(file, version);
+  if (existingNotes !== undefined) {
+    relinka("verbose", `[changelog] ${path.relative(PROJECT_ROOT, file)} already has ${version}`);
+    return { name, version, file, notes: existingNotes, libName };
+  }
+
+  const notes = renderChangelogNotes(commits) || "_No notable changes._";
+  const date = new Date().toISOString().slice(0, 10);
+  const section = `## ${version} (${date})\n\n${notes}\n`;
+
+  const content = (await fs.pathExists(file)) ? await fs.readFile(file, "utf8") : "# Changelog\n";
+  // Keep the title (and anything else above the first version) on top
+  const lines = content.split("\n");
+  const firstSection = lines.findIndex((line) => line.startsWith("## "));
+  const head = (firstSection === -1 ? lines : lines.slice(0, firstSection)).join("\n").trimEnd();
+  const rest = firstSection === -1 ? "" : `\n${lines.slice(firstSection).join("\n")}`;
+
+  await fs.ensureDir(path.dirname(file));
+  await fs.writeFile(file, `${head}\n\n${section}${rest}`, "utf8");
+  relinka(
+    "info",
+    `[changelog] Added ${version} to ${path.relative(PROJECT_ROOT, file)} (${commits.length} commits)`,
+  );
+
+  return { name, version, file, notes, libName };
+}
+
+function isVersionHeading(line: string, version: string): boolean {
+  return line === `## ${version}` || line.startsWith(`## ${version} `);
+}
@@ -0,0 +1,174 @@
+// ============================
+// Dry Run Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import semver from "semver";
+
+import type { BumpMode, DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import { extractFolderName } from "~/libs/sdk/sdk-impl/library-flow";
+import { resolveNpmPublishClient } from "~/libs/sdk/sdk-impl/pub/pub-npm-client";
+import {
+  createPubState,
+  PUB_STATE_MAIN_TARGET,
+  type PubRegistry,
+} from "~/libs/sdk/sdk-impl/pub/pub-state";
+import { getPrereleaseVersion, resolveDistTag } from "~/libs/sdk/sdk-impl/pub/pub-tag";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+/** A package that a dry run would have published */
+export interface DryRunTarget {
+  name: string;
+  version: string;
+  registry: PubRegistry;
+  destination: string; // e.g. "npm (bun, tag: latest)" or "jsr"
+}
+
+// Manifests written into the dists, which carry the version and the pinned sibling libs
+const DIST_MANIFESTS = ["package.json", "jsr.json", "jsr.jsonc"];
+
+const DEPENDENCY_FIELDS = ["dependencies", "peerDependencies", "optionalDependencies"] as const;
+
+/**
+ * Computes the version `bumpMode` would bump `version` to, without writing any file.
+ */
+export function getBumpedVersion(
+  version: string,
+  bumpMode: Exclude<BumpMode, "auto">,
+  bumpSet: string,
+  bumpPreid: string,
+): string {
+  if (bumpMode === "manual") {
+    if (!semver.valid(bumpSet)) {
+      throw new Error(`bumpSet must be a valid semver version when bumpMode is "manual"`);
+    }
+    return bumpSet;
+  }
+  if (bumpMode === "prerelease") return getPrereleaseVersion(version, bumpPreid);
+
+  const newVersion = semver.inc(version, bumpMode);
+  if (!newVersion) {
+    throw new Error(`Failed to bump version ${version} with bumpMode "${bumpMode}"`);
+  }
+  return newVersion;
+}
+
+/**
+ * Applies an in-memory version bump to the built dists: the manifests built with the
+ * current version get `toVersion`, and so do the sibling libs pinned to it.
+ * Libraries with their own `version` in `libsList` keep it.
+ */
+export async function applyDryRunVersion(
+  config: DlerConfig,
+  fromVersion: string,
+  toVersion: string,
+): Promise<void> {
+  const libsList = config.libsList ?? {};
+  const isBumpedLib = (name: string) => name in libsList && !libsList[name]?.version;
+
+  for (const distDir of getDistDirs(config)) {
+    for (const manifestName of DIST_MANIFESTS) {
+      const manifestPath = path.join(PROJECT_ROOT, distDir, manifestName);
+      if (!(await fs.pathExists(manifestPath))) continue;
+
+      const manifest = JSON.parse(await fs.readFile(manifestPath, "utf8")) as Record<
+        string,
+        unknown
+      >;
+      const name = typeof manifest.name === "string" ? manifest.name : "";
+      if (manifest.version === fromVersion && (!(name in libsList) || isBumpedLib(name))) {
+        manifest.version = toVersion;
+      }
+      for (const field of DEPENDENCY_FIELDS) {
+        const deps = manifest[field] as Record<string, string> | undefined;
+        for (const [dep, range] of Object.entries(deps ?? {})) {
+          if (isBumpedLib(dep) && range === fromVersion && deps) deps[dep] = toVersion;
+        }
+      }
+      // jsr.json pins siblings as imports, e.g. "jsr:@scope/lib@1.2.3"
+      const imports = manifest.imports as Record<string, string> | undefined;
+      for (const [dep, specifier] of Object.entries(imports ?? {})) {
+        if (isBumpedLib(dep) && specifier.endsWith(`@${fromVersion}`) && imports) {
+          imports[dep] = `${specifier.slice(0, -fromVersion.length)}${toVersion}`;
+        }
+      }
+
+      await fs.writeJSON(manifestPath, manifest, { spaces: 2 });
+    }
+  }
+  relinka("verbose", `[dry-run] Applied version ${toVersion} to the built dists`);
+}
+
+/**
+ * Lists what would have been published, where and at what version,
+ * based on the built dists of every publish target.
+ */
+export async function getDryRunTargets(config: DlerConfig): Promise<DryRunTarget[]> {
+  const client = await resolveNpmPublishClient(config.pubNpmClient);
+  const registryUrl = config.pubNpmRegistry ? ` → ${config.pubNpmRegistry}` : "";
+  const dryRunTargets: DryRunTarget[] = [];
+
+  for (const { target, registry } of createPubState(config, "").targets) {
+    const libName = target === PUB_STATE_MAIN_TARGET ? undefined : target;
+    const distDir = getTargetDistDir(config, registry, libName);
+    const manifest = await readDistManifest(distDir, registry);
+    const name = manifest.name ?? libName ?? target;
+    const version = manifest.version ?? "0.0.0";
+    const destination =
+      registry === "npm"
+        ? `npm (${client}, tag: ${resolveDistTag(config.pubTag, version)})${registryUrl}`
+        : "jsr";
+    dryRunTargets.push({ name, version, registry, destination });
+  }
+  return dryRunTargets;
+}
+
+/**
+ * Prints the summary that ends `dler pub --dry-run`.
+ */
+export function printDryRunSummary(targets: DryRunTarget[]): void {
+  if (targets.length === 0) {
+    relinka("info", "[dry-run] Nothing would have been published");
+    return;
+  }
+  relinka(
+    "info",
+    `[dry-run] Would have published:\n${targets.map(({ name, version, destination }) => `  ${name}@${version} → ${destination}`).join("\n")}`,
+  );
+}
+
+function getDistDirs(config: DlerConfig): string[] {
+  const distDirs = [config.distNpmDirName, config.distJsrDirName];
+  for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+    const libDistDir = path.join(config.libsDirDist, extractFolderName(libName, libConfig));
+    distDirs.push(path.join(libDistDir, "npm"), path.join(libDistDir, "jsr"));
+  }
+  return distDirs;
+}
+
+function getTargetDistDir(config: DlerConfig, registry: PubRegistry, libName?: string): string {
+  if (!libName) return registry === "npm" ? config.distNpmDirName : config.distJsrDirName;
+  const folderName = extractFolderName(libName, config.libsList?.[libName]);
+  return path.join(config.libsDirDist, folderName, registry);
+}
+
+async function readDistManifest(
+  distDir: string,
+  registry: PubRegistry,
+): Promise<{ name?: string; version?: string }> {
+  const manifestNames =
+    registry === "jsr" ? ["jsr.json", "jsr.jsonc", "package.json"] : ["package.json"];
+  for (const manifestName of manifestNames) {
+    const manifestPath = path.join(PROJECT_ROOT, distDir, manifestName);
+    if (await fs.pathExists(manifestPath)) {
+      return JSON.parse(await fs.readFile(manifestPath, "utf8")) as {
+        name?: string;
+        version?: string;
+      };
+    }
+  }
+  return {};
+}
@@ -0,0 +1,140 @@
+// ============================
+// Git Release Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import { execa } from "execa";
+import { readPackageJSON } from "pkg-types";
+import { glob } from "tinyglobby";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import {
+  getChangelogPath,
+  getReleaseNotes,
+  getReleaseTagName,
+} from "~/libs/sdk/sdk-impl/pub/pub-changelog";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+/** An annotated tag created for a published package */
+export interface GitReleaseTag {
+  name: string; // e.g. "v1.2.3" or "@scope/lib@1.2.3"
+  version: string;
+  libName?: string;
+}
+
+/**
+ * Lists the tags of the packages published by `dler pub`:
+ * the main package (unless `libsActMode` is "libs-only") and each library without `libPubPause`.
+ */
+export async function getGitReleaseTags(config: DlerConfig): Promise<GitReleaseTag[]> {
+  const pkg = await readPackageJSON(PROJECT_ROOT);
+  const rootVersion = pkg.version ?? "0.0.0";
+  const tags: GitReleaseTag[] = [];
+
+  if (config.libsActMode !== "libs-only") {
+    tags.push({ name: getReleaseTagName(rootVersion), version: rootVersion });
+  }
+  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
+    for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+      if (libConfig.libPubPause) continue;
+      const version = libConfig.version || rootVersion;
+      tags.push({ name: getReleaseTagName(version, libName), version, libName });
+    }
+  }
+  return tags;
+}
+
+/**
+ * Creates the release commit (bumped `bumpFilter` files and changelogs) and an annotated tag
+ * per published package, then pushes them when `pubGit.push` is set.
+ * Must only be called after every registry publish succeeded.
+ * Tags that already exist are kept as they are, so a retried release doesn't fail on them.
+ */
+export async function createGitRelease(config: DlerConfig): Promise<GitReleaseTag[]> {
+  const { pubGit } = config;
+  const pkg = await readPackageJSON(PROJECT_ROOT);
+  const rootVersion = pkg.version ?? "0.0.0";
+
+  // Release commit, limited to the release files so unrelated staged changes stay out of it
+  const releaseFiles = await getReleaseFiles(config);
+  if (releaseFiles.length > 0) {
+    await git(["add", "--", ...releaseFiles]);
+    const hasChanges =
+      (await git(["diff", "--cached", "--quiet", "--", ...releaseFiles], false)).exitCode !== 0;
+    if (hasChanges) {
+      const message = pubGit.commitMessage.replaceAll("{version}", rootVersion);
+      await git(["commit", "-m", message, "--", ...releaseFiles]);
+      relinka("log", `[git] Created release commit: ${message}`);
+    } else {
+      relinka("verbose", "[git] Nothing to commit for the release");
+    }
+  }
+
+  // Annotated tags, with the changelog section as the message
+  const createdTags: GitReleaseTag[] = [];
+  for (const tag of await getGitReleaseTags(config)) {
+    const tagExists = (await git(["rev-parse", "-q", "--verify", `refs/tags/${tag.name}`], false))
+      .exitCode;
+    if (tagExists === 0) {
+      relinka("warn", `[git] Tag ${tag.name} already exists, skipping it`);
+      continue;
+    }
+    const notes = config.pubChangelog.enabled
+      ? await getReleaseNotes(getChangelogPath(config, tag.libName), tag.version)
+      : undefined;
+    // Verbatim cleanup keeps the "###" headings that git would strip as comments
+    const message = notes ? `${tag.name}\n\n${notes}` : tag.name;
+    await git(["tag", "-a", tag.name, "--cleanup=verbatim", "-m", message]);
+    createdTags.push(tag);
+    relinka("log", `[git] Created tag ${tag.name}`);
+  }
+
+  if (pubGit.push) {
+    await git(["push", pubGit.remote, "HEAD"]);
+    if (createdTags.length > 0) {
+      await git(["push", pubGit.remote, ...createdTags.map((tag) => `refs/tags/${tag.name}`)]);
+    }
+    relinka(
+      "log",
+      `[git] Pushed the release commit and ${createdTags.length} tag(s) to ${pubGit.remote}`,
+    );
+  }
+
+  return createdTags;
+}
+
+/**
+ * Collects the files changed by the release: tracked `bumpFilter` files (globs are expanded)
+ * and, when enabled, the changelogs of the main project and the libraries.
+ */
+async function getReleaseFiles(config: DlerConfig): Promise<string[]> {
+  const bumpFiles = config.bumpFilter.length > 0 ? config.bumpFilter : ["package.json"];
+  const matchedFiles = await glob(bumpFiles, {
+    cwd: PROJECT_ROOT,
+    ignore: ["**/node_modules/**"],
+  });
+  // Ignored files (e.g. a local config matched by bumpFilter) can't be committed
+  const { stdout: trackedFiles } =
+    matchedFiles.length > 0 ? await git(["ls-files", "--", ...matchedFiles]) : { stdout: "" };
+  const files = new Set(trackedFiles.split("\n").filter(Boolean));
+
+  if (config.pubChangelog.enabled) {
+    const libNames =
+      config.libsActMode === "main-project-only" ? [] : Object.keys(config.libsList ?? {});
+    for (const libName of [undefined, ...libNames]) {
+      const changelogPath = getChangelogPath(config, libName);
+      if (await fs.pathExists(changelogPath)) {
+        files.add(path.relative(PROJECT_ROOT, changelogPath));
+      }
+    }
+  }
+  return [...files];
+}
+
+async function git(args: string[], reject = true) {
+  relinka("verbose", `[git] git ${args.join(" ")}`);
+  return execa("git", args, { cwd: PROJECT_ROOT, reject });
+}
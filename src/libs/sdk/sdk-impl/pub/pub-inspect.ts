@@ -0,0 +1,322 @@
+// ============================
+// Tarball Inspection Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import { execa } from "execa";
+import ky from "ky";
+import { readFile } from "node:fs/promises";
+import os from "node:os";
+import { readPackageJSON } from "pkg-types";
+import prettyBytes from "pretty-bytes";
+import semver from "semver";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+import type { ArchiveEntry } from "~/libs/sdk/sdk-impl/utils/utils-archive";
+
+import { extractFolderName } from "~/libs/sdk/sdk-impl/library-flow";
+import packageJson from "~/libs/sdk/sdk-impl/utils/pm/pm-meta";
+import { extractTarGz } from "~/libs/sdk/sdk-impl/utils/utils-archive";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+/** A file packed into an npm tarball */
+export interface TarballFile {
+  path: string; // Relative to the package root
+  size: number;
+}
+
+/** A packed file that is not expected in an npm dist */
+export interface StrayFile {
+  path: string;
+  reason: string;
+}
+
+/** File-level changes between two tarballs */
+export interface TarballDiff {
+  added: TarballFile[];
+  removed: TarballFile[];
+  changed: { path: string; previousSize: number; size: number }[];
+}
+
+/** Inspection result of a single npm dist */
+export interface TarballInspection {
+  name: string;
+  version: string;
+  distDir: string; // Relative to the project root
+  packedSize: number;
+  files: TarballFile[];
+  strayFiles: StrayFile[];
+  previous?: { version: string; source: "cache" | "registry"; diff: TarballDiff };
+}
+
+// Packed tarballs by package and version, so the next inspection can diff against them
+const TARBALL_CACHE_DIR = path.join(PROJECT_ROOT, "node_modules", ".cache", "dler-tarballs");
+
+// npm always packs these, whatever the `files` field says
+const ALWAYS_PACKED_RE = /^(package\.json|(readme|license|licence|copying)(\.[^/]*)?)$/i;
+
+const DECLARATION_FILE_RE = /\.d\.[mc]?ts$/;
+
+/**
+ * Packs every npm dist (`distNpmDirName` and `libsDirDist/<lib>/npm`) with `npm pack`,
+ * lists its files and sizes, flags stray files and diffs it against the previous version:
+ * the last tarball inspected for a lower version (cache) or the `latest` version on the registry.
+ * With `dryRun`, the tarballs are not added to the cache, as they were never published.
+ */
+export async function inspectTarballs(
+  config: DlerConfig,
+  dryRun = false,
+): Promise<TarballInspection[]> {
+  const inspections: TarballInspection[] = [];
+  for (const { distDir, artifacts } of getInspectionTargets(config)) {
+    const distPath = path.join(PROJECT_ROOT, distDir);
+    if (!(await fs.pathExists(path.join(distPath, "package.json")))) {
+      relinka("verbose", `[inspect] ${distDir} has no package.json, skipping it`);
+      continue;
+    }
+
+    const pkg = await readPackageJSON(distPath);
+    const name = pkg.name ?? path.basename(distPath);
+    const version = pkg.version ?? "0.0.0";
+    const tarball = await packTarball(distPath);
+    const entries = extractPackageEntries(tarball);
+
+    const inspection: TarballInspection = {
+      name,
+      version,
+      distDir,
+      packedSize: tarball.length,
+      files: entries.map((entry) => ({ path: entry.name, size: entry.content.length })),
+      strayFiles: findStrayFiles(
+        entries.map((entry) => entry.name),
+        artifacts,
+      ),
+    };
+
+    const previous = await getPreviousTarball(name, version, config.pubNpmRegistry);
+    if (previous) {
+      inspection.previous = {
+        version: previous.version,
+        source: previous.source,
+        diff: diffTarballs(extractPackageEntries(previous.tarball), entries),
+      };
+    }
+    if (!dryRun) await saveTarball(name, version, tarball);
+
+    printInspection(inspection);
+    inspections.push(inspection);
+  }
+  return inspections;
+}
+
+/**
+ * Flags packed files that don't belong in an npm dist: source maps, TypeScript sources
+ * (declaration files are fine), `dist-tmp` leftovers and files outside `publishArtifacts`.
+ *
+ * @param artifacts Files and folders the dist is expected to contain (e.g. `bin`, `README.md`)
+ */
+export function findStrayFiles(files: string[], artifacts: string[]): StrayFile[] {
+  const strayFiles: StrayFile[] = [];
+  for (const file of files) {
+    if (file.split("/").includes("dist-tmp")) {
+      strayFiles.push({ path: file, reason: "dist-tmp leftover" });
+    } else if (file.endsWith(".map")) {
+      strayFiles.push({ path: file, reason: "source map" });
+    } else if (/\.[mc]?tsx?$/.test(file) && !DECLARATION_FILE_RE.test(file)) {
+      strayFiles.push({ path: file, reason: "TypeScript source in an npm dist" });
+    } else if (
+      !ALWAYS_PACKED_RE.test(file) &&
+      !artifacts.some((artifact) => file === artifact || file.startsWith(`${artifact}/`))
+    ) {
+      strayFiles.push({ path: file, reason: "not listed in publishArtifacts" });
+    }
+  }
+  return strayFiles;
+}
+
+/**
+ * Compares the files of two tarballs by path and content.
+ */
+export function diffTarballs(previous: ArchiveEntry[], current: ArchiveEntry[]): TarballDiff {
+  const previousByPath = new Map(previous.map((entry) => [entry.name, entry]));
+  const currentPaths = new Set(current.map((entry) => entry.name));
+  const diff: TarballDiff = { added: [], removed: [], changed: [] };
+
+  for (const entry of current) {
+    const previousEntry = previousByPath.get(entry.name);
+    if (!previousEntry) {
+      diff.added.push({ path: entry.name, size: entry.content.length });
+    } else if (!previousEntry.content.equals(entry.content)) {
+      diff.changed.push({
+        path: entry.name,
+        previousSize: previousEntry.content.length,
+        size: entry.content.length,
+      });
+    }
+  }
+  for (const entry of previous) {
+    if (!currentPaths.has(entry.name)) {
+      diff.removed.push({ path: entry.name, size: entry.content.length });
+    }
+  }
+  return diff;
+}
+
+/**
+ * Packs a dist folder with `npm pack`, which applies the same `files` rules as every publish client.
+ */
+export async function packTarball(distPath: string): Promise<Buffer> {
+  const packDir = await fs.mkdtemp(path.join(os.tmpdir(), "dler-pack-"));
+  try {
+    const { stdout } = await execa(
+      "npm",
+      ["pack", "--json", "--ignore-scripts", "--pack-destination", packDir],
+      { cwd: distPath },
+    );
+    const [result] = JSON.parse(stdout) as { filename: string }[];
+    if (!result) throw new Error(`npm pack returned no tarball for ${distPath}`);
+    return await readFile(path.join(packDir, result.filename));
+  } finally {
+    await fs.remove(packDir);
+  }
+}
+
+function getInspectionTargets(config: DlerConfig): { distDir: string; artifacts: string[] }[] {
+  const globalArtifacts = config.publishArtifacts?.global || [
+    "package.json",
+    "README.md",
+    "LICENSE",
+  ];
+  const targets: { distDir: string; artifacts: string[] }[] = [];
+
+  if (config.libsActMode !== "libs-only" && config.commonPubRegistry !== "jsr") {
+    targets.push({
+      distDir: config.distNpmDirName,
+      artifacts: [
+        config.coreBuildOutDir,
+        ...globalArtifacts,
+        ...(config.publishArtifacts?.["dist-npm"] ?? []),
+      ],
+    });
+  }
+  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
+    for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+      if ((libConfig.libPubRegistry || config.commonPubRegistry) === "jsr") continue;
+      targets.push({
+        distDir: path.join(config.libsDirDist, extractFolderName(libName, libConfig), "npm"),
+        artifacts: [
+          "bin",
+          ...globalArtifacts,
+          ...(config.publishArtifacts?.["dist-libs"]?.[libName]?.npm ||
+            config.publishArtifacts?.["dist-npm"] ||
+            []),
+        ],
+      });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Finds the tarball to diff against: the cached tarball of the highest lower version,
+ * or else the `latest` version on the registry (`registryUrl` or the configured one).
+ */
+async function getPreviousTarball(
+  name: string,
+  version: string,
+  registryUrl: string,
+): Promise<{ version: string; source: "cache" | "registry"; tarball: Buffer } | undefined> {
+  const cacheDir = path.join(TARBALL_CACHE_DIR, toCacheDirName(name));
+  if (await fs.pathExists(cacheDir)) {
+    const cachedVersions = (await fs.readdir(cacheDir))
+      .map((file) => file.replace(/\.tgz$/, ""))
+      .filter((cached) => semver.valid(cached) && semver.lt(cached, version))
+      .sort(semver.rcompare);
+    const [previousVersion] = cachedVersions;
+    if (previousVersion) {
+      return {
+        version: previousVersion,
+        source: "cache",
+        tarball: await readFile(path.join(cacheDir, `${previousVersion}.tgz`)),
+      };
+    }
+  }
+
+  try {
+    const pkg = (await packageJson(name, { registryUrl: registryUrl || undefined })) as {
+      version?: string;
+      dist?: { tarball?: string };
+    };
+    if (!pkg.version || !pkg.dist?.tarball) return undefined;
+    const tarball = Buffer.from(await ky(pkg.dist.tarball).arrayBuffer());
+    return { version: pkg.version, source: "registry", tarball };
+  } catch (error) {
+    relinka(
+      "verbose",
+      `[inspect] No previous version of ${name} to diff against: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return undefined;
+  }
+}
+
+async function saveTarball(name: string, version: string, tarball: Buffer): Promise<void> {
+  const cacheDir = path.join(TARBALL_CACHE_DIR, toCacheDirName(name));
+  await fs.ensureDir(cacheDir);
+  await fs.writeFile(path.join(cacheDir, `${version}.tgz`), tarball);
+}
+
+// npm tarballs keep the package files in a "package/" folder
+function extractPackageEntries(tarball: Buffer): ArchiveEntry[] {
+  return extractTarGz(tarball)
+    .map((entry) => ({ ...entry, name: entry.name.replace(/^[^/]+\//, "") }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function printInspection(inspection: TarballInspection): void {
+  const { name, version, distDir, packedSize, files, strayFiles, previous } = inspection;
+  const unpackedSize = files.reduce((total, file) => total + file.size, 0);
+  const sizeWidth = Math.max(...files.map((file) => prettyBytes(file.size).length));
+
+  relinka(
+    "info",
+    `[inspect] ${name}@${version} (${distDir}): ${files.length} files, ${prettyBytes(packedSize)} packed, ${prettyBytes(unpackedSize)} unpacked`,
+  );
+  relinka(
+    "log",
+    files.map((file) => `  ${prettyBytes(file.size).padStart(sizeWidth)}  ${file.path}`).join("\n"),
+  );
+
+  if (strayFiles.length > 0) {
+    relinka(
+      "warn",
+      `[inspect] ${name}: ${strayFiles.length} stray file(s):\n${strayFiles.map((file) => `  ${file.path} (${file.reason})`).join("\n")}`,
+    );
+  }
+
+  if (!previous) return;
+  const { added, removed, changed } = previous.diff;
+  if (added.length + removed.length + changed.length === 0) {
+    relinka(
+      "log",
+      `[inspect] ${name}: no file changes since ${previous.version} (${previous.source})`,
+    );
+    return;
+  }
+  const lines = [
+    ...added.map((file) => `  + ${file.path} (${prettyBytes(file.size)})`),
+    ...removed.map((file) => `  - ${file.path} (${prettyBytes(file.size)})`),
+    ...changed.map(
+      (file) => `  ~ ${file.path} (${prettyBytes(file.previousSize)} → ${prettyBytes(file.size)})`,
+    ),
+  ];
+  relinka(
+    "info",
+    `[inspect] ${name}: changes since ${previous.version} (${previous.source}): ${added.length} added, ${removed.length} removed, ${changed.length} changed\n${lines.join("\n")}`,
+  );
+}
+
+function toCacheDirName(name: string): string {
+  return name.replace(/[^\w.-]+/g, "_");
+}
@@ -1,10 +1,18 @@
 import fs from "@reliverse/relifso";
 import { relinka } from "@reliverse/relinka";
-import { execaCommand } from "execa";
+import { execa, execaCommand } from "execa";
 import pAll from "p-all";
+import { readPackageJSON } from "pkg-types";
 
+import type { NpmPubConfig } from "~/libs/sdk/sdk-impl/pub/pub-npm-client";
 import type { PerfTimer } from "~/libs/sdk/sdk-impl/sdk-types";
 
+import {
+  getNpmPublishCommand,
+  resolveNpmPublishClient,
+} from "~/libs/sdk/sdk-impl/pub/pub-npm-client";
+import { runPubTarget } from "~/libs/sdk/sdk-impl/pub/pub-state";
+import { resolveDistTag } from "~/libs/sdk/sdk-impl/pub/pub-tag";
 import { CONCURRENCY_DEFAULT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
 import { withWorkingDirectory } from "~/libs/sdk/sdk-impl/utils/utils-error-cwd";
 import { writeFileSafe } from "~/libs/sdk/sdk-impl/utils/utils-fs";
@@ -22,6 +30,7 @@ export async function library_publishLibrary(
   distJsrFailOnWarn: boolean,
   distJsrAllowDirty: boolean,
   distJsrSlowTypes: boolean,
+  pubConfig: NpmPubConfig,
   isDev: boolean,
   timer: PerfTimer,
 ): Promise<void> {
@@ -29,40 +38,50 @@ export async function library_publishLibrary(
     case "jsr":
       relinka("log", `Publishing lib ${libName} to JSR only...`);
       relinka("null", "");
-      await library_pubToJsr(
-        jsrOutDir,
-        distJsrDryRun,
-        distJsrFailOnWarn,
-        distJsrAllowDirty,
-        distJsrSlowTypes,
-        libName,
-        isDev,
-        timer,
+      await runPubTarget("jsr", libName, () =>
+        library_pubToJsr(
+          jsrOutDir,
+          distJsrDryRun,
+          distJsrFailOnWarn,
+          distJsrAllowDirty,
+          distJsrSlowTypes,
+          libName,
+          isDev,
+          timer,
+        ),
       );
       break;
     case "npm":
       relinka("log", `Publishing lib ${libName} to NPM only...`);
       relinka("null", "");
-      await library_pubToNpm(npmOutDir, distJsrDryRun, distJsrFailOnWarn, libName, isDev, timer);
+      await runPubTarget("npm", libName, () =>
+        library_pubToNpm(npmOutDir, distJsrFailOnWarn, libName, pubConfig, isDev, timer),
+      );
       break;
     case "npm-jsr": {
       relinka("log", `Publishing lib ${libName} to both NPM and JSR...`);
       relinka("null", "");
       const publishTasks = [
-        () => library_pubToNpm(npmOutDir, distJsrDryRun, distJsrFailOnWarn, libName, isDev, timer),
         () =>
-          library_pubToJsr(
-            jsrOutDir,
-            distJsrDryRun,
-            distJsrFailOnWarn,
-            distJsrAllowDirty,
-            distJsrSlowTypes,
-            libName,
-            isDev,
-            timer,
+          runPubTarget("npm", libName, () =>
+            library_pubToNpm(npmOutDir, distJsrFailOnWarn, libName, pubConfig, isDev, timer),
+          ),
+        () =>
+          runPubTarget("jsr", libName, () =>
+            library_pubToJsr(
+              jsrOutDir,
+              distJsrDryRun,
+              distJsrFailOnWarn,
+              distJsrAllowDirty,
+              distJsrSlowTypes,
+              libName,
+              isDev,
+              timer,
+            ),
           ),
       ];
-      await pAll(publishTasks, { concurrency: CONCURRENCY_DEFAULT });
+      // Let both registries finish, so the publish journal records each outcome
+      await pAll(publishTasks, { concurrency: CONCURRENCY_DEFAULT, stopOnError: false });
       break;
     }
     default:
@@ -142,28 +161,38 @@ async function library_pubToJsr(
 }
 
 /**
- * Publishes a lib to NPM.
+ * Publishes a lib to NPM with the `pubNpmClient` client,
+ * under the dist-tag resolved from `pubTag` and the lib's version.
  */
 async function library_pubToNpm(
   libOutDir: string,
-  distJsrDryRun: boolean,
   _distJsrFailOnWarn: boolean,
   libName: string,
+  pubConfig: NpmPubConfig,
   _isDev: boolean,
   timer: PerfTimer,
 ): Promise<void> {
   relinka("verbose", `Starting library_pubToNpm for lib: ${libName}`);
   try {
+    const { version = "0.0.0" } = await readPackageJSON(libOutDir);
+    const distTag = resolveDistTag(pubConfig.pubTag, version);
+    const client = await resolveNpmPublishClient(pubConfig.pubNpmClient);
     if (timer) pausePerfTimer(timer);
     await withWorkingDirectory(libOutDir, async () => {
       relinka("log", `Publishing lib ${libName} to NPM from ${libOutDir}`);
       relinka("null", "");
-      const command = ["bun publish", distJsrDryRun ? "--dry-run" : ""].filter(Boolean).join(" ");
-      await execaCommand(command, { stdio: "inherit" });
+      const { command, args, env } = getNpmPublishCommand(client, {
+        dryRun: pubConfig.distNpmDryRun,
+        tag: distTag,
+        access: pubConfig.pubNpmAccess,
+        registry: pubConfig.pubNpmRegistry,
+      });
+      relinka("verbose", `Running publish command: ${[command, ...args].join(" ")}`);
+      await execa(command, args, { stdio: "inherit", env });
       relinka("null", "");
       relinka(
         "log",
-        `Successfully ${distJsrDryRun ? "validated" : "published"} lib ${libName} to NPM registry`,
+        `Successfully ${pubConfig.distNpmDryRun ? "validated" : "published"} lib ${libName}@${version} to NPM registry (tag: ${distTag})`,
       );
     });
     if (timer) resumePerfTimer(timer);
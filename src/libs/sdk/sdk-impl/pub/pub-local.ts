@@ -0,0 +1,403 @@
+// ============================
+// Local Registry Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import { execa } from "execa";
+import ky from "ky";
+import os from "node:os";
+import { readPackageJSON } from "pkg-types";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import { extractFolderName } from "~/libs/sdk/sdk-impl/library-flow";
+import { getNpmPublishCommand } from "~/libs/sdk/sdk-impl/pub/pub-npm-client";
+import { resolveDistTag } from "~/libs/sdk/sdk-impl/pub/pub-tag";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+/** A running local registry, started by dler or already listening */
+export interface LocalRegistry {
+  url: string;
+  started: boolean; // Whether dler started it (and stops it afterwards)
+  userConfig?: string; // npmrc with a placeholder token for the registry dler started
+  stop: () => Promise<void>;
+}
+
+/** A package published to the local registry */
+export interface LocalPackage {
+  name: string;
+  version: string;
+  distDir: string; // Relative to the project root
+}
+
+/** Outcome of one smoke test check */
+export interface SmokeCheck {
+  name: string; // Package name
+  kind: "export" | "bin";
+  target: string; // Import specifier or bin name
+  ok: boolean;
+  error?: string;
+}
+
+const VERDACCIO_PACKAGE = "verdaccio@6";
+
+// How long a started registry gets to answer its first ping
+const REGISTRY_START_TIMEOUT = 60_000;
+
+const SMOKE_TEST_TIMEOUT = 60_000;
+
+// The scratch install also fetches the third-party deps through the registry's uplink
+const SCRATCH_INSTALL_TIMEOUT = 300_000;
+
+// `--version`/`--help` of a bin should answer right away
+const BIN_CHECK_TIMEOUT = 15_000;
+
+// Versions are unpublished before each run, so only a registry on this machine is ever used
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Builds the dists, publishes them to the local registry (`pubLocalRegistry`) and smoke tests them:
+ * the registry is used if it already answers, or else a throwaway verdaccio is started for the run.
+ * Throws when a package fails to publish, install or import.
+ */
+export async function publishLocal(config: DlerConfig): Promise<SmokeCheck[]> {
+  const packages = await getLocalPackages(config);
+  if (packages.length === 0) {
+    relinka("warn", "[local] No npm dist to publish");
+    return [];
+  }
+
+  const registry = await startLocalRegistry(
+    config.pubLocalRegistry,
+    packages.map((pkg) => pkg.name),
+  );
+  try {
+    await publishToLocalRegistry(config, packages, registry);
+    const checks = await runSmokeTest(config, packages, registry);
+    const failedChecks = checks.filter((check) => !check.ok);
+    if (failedChecks.length > 0) {
+      throw new Error(
+        `[local] Smoke test failed:\n${failedChecks.map((check) => `  ${formatSmokeCheck(check)}: ${check.error}`).join("\n")}`,
+      );
+    }
+    relinka(
+      "success",
+      `[local] ${packages.length} package(s) installed and ${checks.length} smoke check(s) passed`,
+    );
+    return checks;
+  } finally {
+    await registry.stop();
+  }
+}
+
+/**
+ * Targets the registry at `url` when it answers a ping, or else starts verdaccio on it
+ * (fetched with `npx`) with a temporary storage, where `packageNames` can be published
+ * anonymously and every other package is proxied from npmjs.
+ * Throws when `url` is not on localhost, as published versions are unpublished from it.
+ */
+export async function startLocalRegistry(
+  url: string,
+  packageNames: string[],
+): Promise<LocalRegistry> {
+  const registryUrl = url.replace(/\/+$/, "");
+  assertLoopbackRegistry(registryUrl);
+  if (await pingRegistry(registryUrl)) {
+    relinka("info", `[local] Using the registry listening on ${registryUrl}`);
+    return { url: registryUrl, started: false, stop: async () => undefined };
+  }
+
+  const { hostname, port, host } = new URL(registryUrl);
+
+  const registryDir = await fs.mkdtemp(path.join(os.tmpdir(), "dler-registry-"));
+  const configPath = path.join(registryDir, "config.yaml");
+  const userConfig = path.join(registryDir, ".npmrc");
+  await fs.writeFile(
+    configPath,
+    getVerdaccioConfig(path.join(registryDir, "storage"), packageNames),
+  );
+  await fs.writeFile(userConfig, `registry=${registryUrl}/\n//${host}/:_authToken=dler-local\n`);
+
+  relinka("info", `[local] Starting verdaccio on ${registryUrl}...`);
+  const subprocess = execa(
+    "npx",
+    ["--yes", VERDACCIO_PACKAGE, "--config", configPath, "--listen", `${hostname}:${port || "80"}`],
+    { all: true, cleanup: true },
+  );
+  const exited = subprocess.then(
+    () => undefined,
+    () => undefined,
+  );
+  const stop = async () => {
+    subprocess.kill();
+    await exited;
+    await fs.remove(registryDir);
+  };
+
+  const startedAt = Date.now();
+  while (!(await pingRegistry(registryUrl))) {
+    if (subprocess.exitCode !== null || Date.now() - startedAt > REGISTRY_START_TIMEOUT) {
+      await stop();
+      const output = (await subprocess.catch((error: { all?: string }) => error)).all ?? "";
+      throw new Error(`[local] Failed to start verdaccio on ${registryUrl}\n${output}`.trim());
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  relinka("verbose", `[local] verdaccio is listening on ${registryUrl}`);
+  return { url: registryUrl, started: true, userConfig, stop };
+}
+
+/**
+ * Publishes the npm dists to the local registry with `npm publish`. A version already on
+ * the registry (from a previous run) is unpublished first, so the same version can be tested again.
+ */
+export async function publishToLocalRegistry(
+  config: DlerConfig,
+  packages: LocalPackage[],
+  registry: LocalRegistry,
+): Promise<void> {
+  assertLoopbackRegistry(registry.url);
+  const env = getRegistryEnv(registry);
+  for (const { name, version, distDir } of packages) {
+    await execa("npm", ["unpublish", `${name}@${version}`, "--force", "--registry", registry.url], {
+      env,
+      reject: false,
+    });
+
+    const { command, args } = getNpmPublishCommand("npm", {
+      dryRun: false,
+      tag: resolveDistTag(config.pubTag, version),
+      access: "",
+      registry: registry.url,
+    });
+    relinka("info", `[local] Publishing ${name}@${version} to ${registry.url}...`);
+    await execa(command, args, { cwd: path.join(PROJECT_ROOT, distDir), env, stdio: "inherit" });
+  }
+}
+
+/**
+ * Installs the published packages from the local registry into a scratch project, then imports
+ * each `exports` entry (patterns and types-only entries are skipped) with the runtime of
+ * `transpileTarget`. Each `bin` must be linked in `node_modules/.bin` and exit successfully
+ * with `--version`, or else with `--help`, in the scratch project.
+ */
+export async function runSmokeTest(
+  config: DlerConfig,
+  packages: LocalPackage[],
+  registry: LocalRegistry,
+): Promise<SmokeCheck[]> {
+  const scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), "dler-smoke-"));
+  const runtime = config.transpileTarget === "bun" ? "bun" : "node";
+  const env = getRegistryEnv(registry);
+
+  try {
+    await fs.writeJSON(
+      path.join(scratchDir, "package.json"),
+      {
+        name: "dler-smoke-test",
+        private: true,
+        type: "module",
+        dependencies: Object.fromEntries(packages.map((pkg) => [pkg.name, pkg.version])),
+      },
+      { spaces: 2 },
+    );
+    relinka("info", `[local] Installing ${packages.length} package(s) into a scratch project...`);
+    await execa(
+      "npm",
+      ["install", "--no-audit", "--no-fund", "--no-package-lock", "--registry", registry.url],
+      { cwd: scratchDir, env, timeout: SCRATCH_INSTALL_TIMEOUT },
+    );
+
+    const checks: SmokeCheck[] = [];
+    for (const { name } of packages) {
+      const packageDir = path.join(scratchDir, "node_modules", name);
+      const pkg = await readPackageJSON(packageDir);
+
+      for (const specifier of getExportSpecifiers(name, pkg.exports)) {
+        const evalArgs = runtime === "node" ? ["--input-type=module", "-e"] : ["-e"];
+        const { exitCode, all } = await execa(
+          runtime,
+          [...evalArgs, `await import(${JSON.stringify(specifier)});`],
+          { cwd: scratchDir, all: true, reject: false, timeout: SMOKE_TEST_TIMEOUT },
+        );
+        checks.push({
+          name,
+          kind: "export",
+          target: specifier,
+          ok: exitCode === 0,
+          error: exitCode === 0 ? undefined : getErrorLine(all, exitCode),
+        });
+      }
+
+      for (const [binName, binPath] of Object.entries(getBinEntries(name, pkg.bin))) {
+        const check: SmokeCheck = { name, kind: "bin", target: binName, ok: true };
+        const binFile = path.join(packageDir, binPath);
+        if (!(await fs.pathExists(path.join(scratchDir, "node_modules", ".bin", binName)))) {
+          Object.assign(check, { ok: false, error: "not linked in node_modules/.bin" });
+        } else if (!(await fs.pathExists(binFile))) {
+          Object.assign(check, { ok: false, error: `${binPath} is missing` });
+        } else {
+          const error = await runBin(scratchDir, binName);
+          if (error) Object.assign(check, { ok: false, error });
+        }
+        checks.push(check);
+      }
+    }
+
+    for (const check of checks) {
+      relinka(
+        check.ok ? "log" : "error",
+        `[local] ${check.ok ? "✓" : "✗"} ${formatSmokeCheck(check)}`,
+      );
+    }
+    return checks;
+  } finally {
+    await fs.remove(scratchDir);
+  }
+}
+
+/**
+ * Lists the import specifiers of a package's `exports`: its name for the main entry and
+ * `name/subpath` for each subpath, without patterns (`./*`), JSON files and types-only entries.
+ */
+export function getExportSpecifiers(name: string, exports: unknown): string[] {
+  if (!exports || typeof exports !== "object" || Array.isArray(exports)) return [name];
+  const entries = Object.entries(exports as Record<string, unknown>);
+  // An exports object of conditions (`{ import, types }`) only describes the main entry
+  if (!entries.some(([key]) => key.startsWith("."))) return [name];
+
+  return entries
+    .filter(([subpath, target]) => {
+      if (subpath.includes("*") || subpath.endsWith(".json") || target === null) return false;
+      const isTypesOnly =
+        typeof target === "object" &&
+        !Array.isArray(target) &&
+        Object.keys(target as object).every((condition) => condition === "types");
+      return !isTypesOnly;
+    })
+    .map(([subpath]) => (subpath === "." ? name : `${name}/${subpath.replace(/^\.\//, "")}`));
+}
+
+/**
+ * Normalizes a package's `bin` field to bin names and paths
+ * (a string `bin` is named after the package, without its scope).
+ */
+export function getBinEntries(name: string, bin: unknown): Record<string, string> {
+  if (typeof bin === "string") return { [name.replace(/^@[^/]+\//, "")]: bin };
+  if (!bin || typeof bin !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(bin as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string",
+    ),
+  );
+}
+
+// Every npm dist: the main one and each library's, whatever its libPubPause
+async function getLocalPackages(config: DlerConfig): Promise<LocalPackage[]> {
+  const distDirs: string[] = [];
+  if (config.libsActMode !== "libs-only" && config.commonPubRegistry !== "jsr") {
+    distDirs.push(config.distNpmDirName);
+  }
+  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
+    for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+      if ((libConfig.libPubRegistry || config.commonPubRegistry) === "jsr") continue;
+      distDirs.push(path.join(config.libsDirDist, extractFolderName(libName, libConfig), "npm"));
+    }
+  }
+
+  const packages: LocalPackage[] = [];
+  for (const distDir of distDirs) {
+    const distPath = path.join(PROJECT_ROOT, distDir);
+    if (!(await fs.pathExists(path.join(distPath, "package.json")))) {
+      relinka("verbose", `[local] ${distDir} has no package.json, skipping it`);
+      continue;
+    }
+    const pkg = await readPackageJSON(distPath);
+    if (!pkg.name || !pkg.version) {
+      throw new Error(`[local] ${distDir}/package.json has no name or version`);
+    }
+    packages.push({ name: pkg.name, version: pkg.version, distDir });
+  }
+  return packages;
+}
+
+function assertLoopbackRegistry(url: string): void {
+  if (!LOOPBACK_HOSTNAMES.includes(new URL(url).hostname)) {
+    throw new Error(
+      `[local] ${url} is not a local registry: pubLocalRegistry must be on localhost, 127.0.0.1 or [::1]`,
+    );
+  }
+}
+
+// Runs a linked bin with `--version`, then `--help`; returns the error when both fail
+async function runBin(scratchDir: string, binName: string): Promise<string | undefined> {
+  let error: string | undefined;
+  for (const flag of ["--version", "--help"]) {
+    const { exitCode, all, timedOut } = await execa(
+      path.join(scratchDir, "node_modules", ".bin", binName),
+      [flag],
+      { cwd: scratchDir, all: true, reject: false, stdin: "ignore", timeout: BIN_CHECK_TIMEOUT },
+    );
+    if (exitCode === 0) return undefined;
+    error ??= timedOut
+      ? `${flag} timed out after ${BIN_CHECK_TIMEOUT / 1000}s`
+      : getErrorLine(all, exitCode);
+  }
+  return error;
+}
+
+async function pingRegistry(url: string): Promise<boolean> {
+  try {
+    await ky(`${url}/-/ping`, { timeout: 2000, retry: 0 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A registry dler started accepts any token, so npm gets a placeholder one
+function getRegistryEnv(registry: LocalRegistry): Record<string, string> | undefined {
+  return registry.userConfig ? { NPM_CONFIG_USERCONFIG: registry.userConfig } : undefined;
+}
+
+function getVerdaccioConfig(storage: string, packageNames: string[]): string {
+  // Published packages are never proxied, so versions already on npmjs don't conflict
+  const localPackages = packageNames.map((name) =>
+    [`  "${name}":`, "    access: $all", "    publish: $all", "    unpublish: $all"].join("\n"),
+  );
+  return [
+    `storage: ${JSON.stringify(storage)}`,
+    "uplinks:",
+    "  npmjs:",
+    "    url: https://registry.npmjs.org/",
+    "packages:",
+    ...localPackages,
+    '  "**":',
+    "    access: $all",
+    "    publish: $all",
+    "    unpublish: $all",
+    "    proxy: npmjs",
+    "max_body_size: 100mb",
+    "log: { type: stdout, format: pretty, level: warn }",
+    "",
+  ].join("\n");
+}
+
+// The thrown error of a failed check, without the stack trace and the runtime's banner
+function getErrorLine(output: string | undefined, exitCode: number | undefined): string {
+  const lines = (output ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return (
+    lines.find((line) => /^(\w+)?Error\b/.test(line)) ?? lines.at(-1) ?? `exit code ${exitCode}`
+  );
+}
+
+function formatSmokeCheck(check: SmokeCheck): string {
+  return check.kind === "export"
+    ? `import "${check.target}"`
+    : `${check.name} bin "${check.target}"`;
+}
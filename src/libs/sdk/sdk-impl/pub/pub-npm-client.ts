@@ -0,0 +1,136 @@
+// ============================
+// NPM Publish Client Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import { detectPackageManager } from "~/libs/sdk/sdk-impl/utils/pm/pm-detect";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+// "yarn" is Yarn 2+ (berry), "yarn-classic" is Yarn 1
+export type NpmPublishClient = "bun" | "npm" | "pnpm" | "yarn" | "yarn-classic";
+
+/** Config options used by npm publishes */
+export type NpmPubConfig = Pick<
+  DlerConfig,
+  "distNpmDryRun" | "pubNpmAccess" | "pubNpmClient" | "pubNpmRegistry" | "pubTag"
+>;
+
+/** Publish flags, mapped to each client's own syntax */
+export interface NpmPublishOptions {
+  dryRun: boolean;
+  tag: string; // Resolved dist-tag (`latest` is the clients' default, so it's not passed)
+  access: DlerConfig["pubNpmAccess"];
+  registry: string;
+}
+
+/** A publish command to run in the dist folder */
+export interface NpmPublishCommand {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+}
+
+const NPM_PUBLISH_CLIENTS: NpmPublishClient[] = ["bun", "npm", "pnpm", "yarn"];
+
+/**
+ * Resolves `pubNpmClient`. With "auto", the package manager of the project is detected
+ * (`packageManager` field, then lock files), falling back to bun when it can't publish to npm.
+ * Yarn resolves to "yarn-classic" when the project uses Yarn 1.
+ */
+export async function resolveNpmPublishClient(
+  pubNpmClient: DlerConfig["pubNpmClient"],
+): Promise<NpmPublishClient> {
+  if (pubNpmClient !== "auto" && pubNpmClient !== "yarn") return pubNpmClient;
+
+  const detected = await detectPackageManager(PROJECT_ROOT, { ignoreArgv: true });
+  let client: NpmPublishClient =
+    pubNpmClient === "yarn"
+      ? "yarn"
+      : (NPM_PUBLISH_CLIENTS.find((name) => name === detected?.name) ?? "bun");
+  if (client === "yarn" && detected?.name === "yarn" && isYarnClassic(detected.majorVersion)) {
+    client = "yarn-classic";
+  }
+  relinka("verbose", `[pub] Detected npm publish client: ${client}`);
+  return client;
+}
+
+// Without a `packageManager` version, yarn is detected from its files:
+// `.yarnrc.yml` only exists in Yarn 2+ projects, a bare yarn.lock is Yarn 1
+function isYarnClassic(majorVersion: string | undefined): boolean {
+  if (majorVersion) return majorVersion === "1";
+  return !fs.existsSync(path.join(PROJECT_ROOT, ".yarnrc.yml"));
+}
+
+/**
+ * Builds the publish command of a client.
+ * Yarn (2+) can't dry-run a publish, so a dry run packs the package instead,
+ * and it reads the registry from `YARN_NPM_PUBLISH_REGISTRY` instead of a flag.
+ * Yarn 1 has neither a dry run nor `pack --dry-run`, so its dry runs use `npm publish --dry-run`.
+ */
+export function getNpmPublishCommand(
+  client: NpmPublishClient,
+  options: NpmPublishOptions,
+): NpmPublishCommand {
+  const { dryRun, tag, access, registry } = options;
+  const tagArgs = tag !== "latest" ? ["--tag", tag] : [];
+  const accessArgs = access ? ["--access", access] : [];
+  const registryArgs = registry ? ["--registry", registry] : [];
+  const dryRunArgs = dryRun ? ["--dry-run"] : [];
+
+  switch (client) {
+    case "npm":
+      return {
+        command: "npm",
+        args: ["publish", ...tagArgs, ...accessArgs, ...registryArgs, ...dryRunArgs],
+      };
+    case "pnpm":
+      // Dists are not committed, so pnpm's clean-branch checks would always fail
+      return {
+        command: "pnpm",
+        args: [
+          "publish",
+          "--no-git-checks",
+          ...tagArgs,
+          ...accessArgs,
+          ...registryArgs,
+          ...dryRunArgs,
+        ],
+      };
+    case "yarn":
+      if (dryRun) return { command: "yarn", args: ["pack", "--dry-run"] };
+      return {
+        command: "yarn",
+        args: ["npm", "publish", ...tagArgs, ...accessArgs],
+        env: registry ? { YARN_NPM_PUBLISH_REGISTRY: registry } : undefined,
+      };
+    case "yarn-classic":
+      if (dryRun) {
+        return {
+          command: "npm",
+          args: ["publish", ...tagArgs, ...accessArgs, ...registryArgs, ...dryRunArgs],
+        };
+      }
+      // Publish the version of the dist as is: no version prompt and no git tag
+      return {
+        command: "yarn",
+        args: [
+          "publish",
+          "--non-interactive",
+          "--no-git-tag-version",
+          ...tagArgs,
+          ...accessArgs,
+          ...registryArgs,
+        ],
+      };
+    default:
+      return {
+        command: "bun",
+        args: ["publish", ...tagArgs, ...accessArgs, ...registryArgs, ...dryRunArgs],
+      };
+  }
+}
@@ -5,10 +5,17 @@
 import path from "@reliverse/pathkit";
 import fs from "@reliverse/relifso";
 import { relinka } from "@reliverse/relinka";
-import { execaCommand } from "execa";
+import { execa, execaCommand } from "execa";
+import { readPackageJSON } from "pkg-types";
 
+import type { NpmPubConfig } from "~/libs/sdk/sdk-impl/pub/pub-npm-client";
 import type { PerfTimer } from "~/libs/sdk/sdk-impl/sdk-types";
 
+import {
+  getNpmPublishCommand,
+  resolveNpmPublishClient,
+} from "~/libs/sdk/sdk-impl/pub/pub-npm-client";
+import { resolveDistTag } from "~/libs/sdk/sdk-impl/pub/pub-tag";
 import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
 import { withWorkingDirectory } from "~/libs/sdk/sdk-impl/utils/utils-error-cwd";
 import { writeFileSafe } from "~/libs/sdk/sdk-impl/utils/utils-fs";
@@ -87,29 +94,41 @@ export async function regular_pubToJsr(
 }
 
 /**
- * Publishes the NPM distribution.
+ * Publishes the NPM distribution with the `pubNpmClient` client,
+ * under the dist-tag resolved from `pubTag`.
  */
 export async function regular_pubToNpm(
-  distJsrDryRun: boolean,
   _isDev: boolean,
   commonPubPause: boolean,
   distNpmDirName: string,
+  pubConfig: NpmPubConfig,
   timer: PerfTimer,
 ): Promise<void> {
   try {
     if (!commonPubPause) {
       relinka("log", "Publishing to NPM...");
       const distNpmDirNameResolved = path.resolve(PROJECT_ROOT, distNpmDirName);
+      const { version = "0.0.0" } = await readPackageJSON(distNpmDirNameResolved);
+      const distTag = resolveDistTag(pubConfig.pubTag, version);
+      const client = await resolveNpmPublishClient(pubConfig.pubNpmClient);
 
       // Pause the timer before publishing (non-interactive)
       if (timer) pausePerfTimer(timer);
 
       await withWorkingDirectory(distNpmDirNameResolved, async () => {
-        const command = ["bun publish", distJsrDryRun ? "--dry-run" : ""].filter(Boolean).join(" ");
-        relinka("verbose", `Running publish command: ${command}`);
-        await execaCommand(command, { stdio: "inherit" });
+        const { command, args, env } = getNpmPublishCommand(client, {
+          dryRun: pubConfig.distNpmDryRun,
+          tag: distTag,
+          access: pubConfig.pubNpmAccess,
+          registry: pubConfig.pubNpmRegistry,
+        });
+        relinka("verbose", `Running publish command: ${[command, ...args].join(" ")}`);
+        await execa(command, args, { stdio: "inherit", env });
         relinka("null", "");
-        relinka("log", `Successfully ${distJsrDryRun ? "validated" : "published"} to NPM registry`);
+        relinka(
+          "log",
+          `Successfully ${pubConfig.distNpmDryRun ? "validated" : "published"} ${version} to NPM registry (tag: ${distTag})`,
+        );
       });
 
       // Resume the timer after publishing is complete
@@ -0,0 +1,184 @@
+// ============================
+// Publish Journal Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+export const PUB_STATE_PATH = path.join(PROJECT_ROOT, ".dler", "pub-state.json");
+
+// Journal target name of the main project (libraries use their package name)
+export const PUB_STATE_MAIN_TARGET = "main";
+
+export type PubRegistry = "jsr" | "npm";
+
+export type PubTargetStatus = "pending" | "published" | "failed";
+
+/** Outcome of publishing one target to one registry */
+export interface PubStateTarget {
+  target: string; // "main" or the library name
+  registry: PubRegistry;
+  status: PubTargetStatus;
+  error?: string;
+  updatedAt?: string;
+}
+
+/** Publish journal stored in `.dler/pub-state.json` until every target is published */
+export interface PubState {
+  version: string; // Main package version the journal was created for
+  startedAt: string;
+  targets: PubStateTarget[];
+}
+
+// Journal of the running publish, updated by `runPubTarget`
+let activePubState: PubState | undefined;
+// Writes are chained, so parallel publish tasks don't overwrite each other's updates
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Lists every target and registry that `dler pub` publishes to, all marked as pending.
+ * Registries in dry-run mode (`distJsrDryRun`, `distNpmDryRun`) publish nothing, so they are left out.
+ */
+export function createPubState(config: DlerConfig, version: string): PubState {
+  const getRegistries = (registry: DlerConfig["commonPubRegistry"]): PubRegistry[] =>
+    (registry === "npm-jsr" ? (["npm", "jsr"] as const) : [registry]).filter((pubRegistry) =>
+      pubRegistry === "jsr" ? !config.distJsrDryRun : !config.distNpmDryRun,
+    );
+  const targets: PubStateTarget[] = [];
+
+  if (config.libsActMode !== "libs-only") {
+    for (const registry of getRegistries(config.commonPubRegistry)) {
+      targets.push({ target: PUB_STATE_MAIN_TARGET, registry, status: "pending" });
+    }
+  }
+  if (config.libsActMode === "libs-only" || config.libsActMode === "main-and-libs") {
+    for (const [libName, libConfig] of Object.entries(config.libsList ?? {})) {
+      if (libConfig.libPubPause) continue;
+      for (const registry of getRegistries(libConfig.libPubRegistry || config.commonPubRegistry)) {
+        targets.push({ target: libName, registry, status: "pending" });
+      }
+    }
+  }
+
+  return { version, startedAt: new Date().toISOString(), targets };
+}
+
+/**
+ * Marks the targets that the previous, unfinished publish already published,
+ * so that `dler pub --resume` skips them.
+ */
+export function resumePubState(state: PubState, previousState: PubState): PubState {
+  for (const target of state.targets) {
+    const isPublished = previousState.targets.some(
+      (previous) =>
+        previous.target === target.target &&
+        previous.registry === target.registry &&
+        previous.status === "published",
+    );
+    if (isPublished) target.status = "published";
+  }
+  return state;
+}
+
+/**
+ * Reads the publish journal left by a previous `dler pub`.
+ * @returns `undefined` when there is no journal
+ */
+export async function readPubState(): Promise<PubState | undefined> {
+  if (!(await fs.pathExists(PUB_STATE_PATH))) return undefined;
+  try {
+    return JSON.parse(await fs.readFile(PUB_STATE_PATH, "utf8")) as PubState;
+  } catch (error) {
+    throw new Error(
+      `Failed to read the publish journal ${PUB_STATE_PATH}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Makes `state` the journal of the running publish and writes it to disk.
+ */
+export async function startPubState(state: PubState): Promise<void> {
+  activePubState = state;
+  await writePubState(state);
+}
+
+/**
+ * Ends the running publish and deletes the journal once every target is published.
+ * @returns The targets that are not published yet (the journal is kept for `dler pub --resume`)
+ */
+export async function finishPubState(): Promise<PubStateTarget[]> {
+  const state = activePubState;
+  activePubState = undefined;
+  await pendingWrite;
+  if (!state) return [];
+  const unfinished = state.targets.filter((target) => target.status !== "published");
+  if (unfinished.length === 0) await fs.remove(PUB_STATE_PATH);
+  return unfinished;
+}
+
+/**
+ * Formats a journal target for logs, e.g. `@scope/lib (npm)`.
+ */
+export function formatPubTarget({ target, registry }: PubStateTarget): string {
+  return `${target} (${registry})`;
+}
+
+/**
+ * Publishes a single target through the journal: targets already published by a previous
+ * run are skipped, and the outcome is recorded before the error (if any) is rethrown.
+ * Without an active journal (e.g. dry runs), the task simply runs.
+ */
+export async function runPubTarget(
+  registry: PubRegistry,
+  libName: string | undefined,
+  task: () => Promise<void>,
+): Promise<void> {
+  const state = activePubState;
+  const targetName = libName ?? PUB_STATE_MAIN_TARGET;
+  const target = state?.targets.find((t) => t.target === targetName && t.registry === registry);
+  if (!state || !target) {
+    await task();
+    return;
+  }
+
+  if (target.status === "published") {
+    relinka("log", `[resume] ${targetName} is already published to ${registry}, skipping it`);
+    return;
+  }
+
+  try {
+    await task();
+    Object.assign(target, { status: "published", error: undefined });
+  } catch (error) {
+    Object.assign(target, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  } finally {
+    target.updatedAt = new Date().toISOString();
+    // the journal must not hide the task's error, nor fail a publish that succeeded
+    await writePubState(state).catch((error: unknown) => {
+      relinka(
+        "warn",
+        `[resume] Failed to update the publish journal ${PUB_STATE_PATH}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    });
+  }
+}
+
+async function writePubState(state: PubState): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    await fs.ensureDir(path.dirname(PUB_STATE_PATH));
+    await fs.writeJSON(PUB_STATE_PATH, state, { spaces: 2 });
+  });
+  // a failed write is reported to its own caller only, the next writes still run
+  pendingWrite = write.catch(() => undefined);
+  await write;
+}
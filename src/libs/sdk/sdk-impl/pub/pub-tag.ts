@@ -0,0 +1,39 @@
+// ============================
+// Dist-Tag Functions
+// ============================
+
+import semver from "semver";
+
+/**
+ * Returns the next prerelease of `version` for `bumpMode: "prerelease"`:
+ * `1.2.3` → `1.2.4-beta.0`, `1.3.0-beta.1` → `1.3.0-beta.2`.
+ * A different preid starts a new counter (`1.3.0-alpha.4` → `1.3.0-beta.0`).
+ */
+export function getPrereleaseVersion(version: string, preid: string): string {
+  const newVersion = preid
+    ? semver.inc(version, "prerelease", preid)
+    : semver.inc(version, "prerelease");
+  if (!newVersion) {
+    throw new Error(`Failed to bump version ${version} to a prerelease`);
+  }
+  return newVersion;
+}
+
+/**
+ * Resolves the npm dist-tag a version is published under.
+ * Stable versions use `pubTag` (or `latest`). Prereleases never go to `latest`:
+ * they use `pubTag`, or their preid (`1.3.0-beta.2` → `beta`) when `pubTag` is empty.
+ */
+export function resolveDistTag(pubTag: string, version: string): string {
+  const prerelease = semver.prerelease(version);
+  if (!prerelease) return pubTag || "latest";
+
+  if (pubTag === "latest") {
+    throw new Error(
+      `${version} is a prerelease and can't be published under the "latest" dist-tag. Set pubTag to a channel like "next" or "beta"`,
+    );
+  }
+  if (pubTag) return pubTag;
+  const [preid] = prerelease;
+  return typeof preid === "string" ? preid : "next";
+}
@@ -0,0 +1,227 @@
+// ============================
+// Publish Verification Functions
+// ============================
+
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import { execa } from "execa";
+import { readPackageJSON } from "pkg-types";
+
+import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+
+import { extractFolderName } from "~/libs/sdk/sdk-impl/library-flow";
+import { getBinEntries } from "~/libs/sdk/sdk-impl/pub/pub-local";
+import { createPubState, PUB_STATE_MAIN_TARGET } from "~/libs/sdk/sdk-impl/pub/pub-state";
+import { resolveDistTag } from "~/libs/sdk/sdk-impl/pub/pub-tag";
+import packageJson, { PackageNotFoundError } from "~/libs/sdk/sdk-impl/utils/pm/pm-meta";
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+/** The parts of a registry packument that are verified */
+export interface RegistryPackument {
+  "dist-tags"?: Record<string, string>;
+  versions?: Record<
+    string,
+    { exports?: unknown; bin?: unknown; dist?: { fileCount?: number } } | undefined
+  >;
+}
+
+/**
+ * Fetches the packument of `name` from `registryUrl` (the client's registry when empty),
+ * or returns `undefined` when the package is not found. Tests can pass a local stand-in.
+ */
+export type RegistryMetadataFetcher = (
+  name: string,
+  registryUrl: string,
+) => Promise<RegistryPackument | undefined>;
+
+export type PubVerifyField = "version" | "dist-tag" | "exports" | "bin" | "fileCount";
+
+/** A published value that differs from what dler generated */
+export interface PubVerifyMismatch {
+  field: PubVerifyField;
+  expected: string;
+  actual: string;
+}
+
+/** Verification result of one npm target */
+export interface PubVerifyResult {
+  target: string; // "main" or the library name
+  name: string;
+  version: string;
+  mismatches: PubVerifyMismatch[];
+  error?: string; // Set when the metadata couldn't be fetched (e.g. a network or registry error)
+}
+
+// Registries can serve a stale packument for a few seconds after a publish
+const VERIFY_ATTEMPTS = 5;
+const VERIFY_RETRY_DELAY = 3000;
+
+/**
+ * Fetches the metadata of every npm target back from the registry (`pubNpmRegistry`) after
+ * a publish, and compares its version, dist-tag, `exports`, `bin` and file count with the
+ * built dist. Mismatches are reported per target; the dists must not be removed yet.
+ * A target whose metadata can't be fetched is reported with an `error`, the others are still verified.
+ */
+export async function verifyPublishedPackages(
+  config: DlerConfig,
+  fetchMetadata: RegistryMetadataFetcher = fetchRegistryMetadata,
+): Promise<PubVerifyResult[]> {
+  const results: PubVerifyResult[] = [];
+  for (const { target, registry } of createPubState(config, "").targets) {
+    if (registry !== "npm") continue;
+
+    const distPath = path.join(PROJECT_ROOT, getNpmDistDir(config, target));
+    if (!(await fs.pathExists(path.join(distPath, "package.json")))) continue;
+    const pkg = await readPackageJSON(distPath);
+    const name = pkg.name ?? target;
+    const version = pkg.version ?? "0.0.0";
+    const expected = {
+      name,
+      distTag: resolveDistTag(config.pubTag, version),
+      exports: pkg.exports,
+      bin: normalizeBin(name, pkg.bin),
+      fileCount: await getPackedFileCount(distPath),
+    };
+
+    let mismatches: PubVerifyMismatch[] = [];
+    let error: string | undefined;
+    for (let attempt = 1; attempt <= VERIFY_ATTEMPTS; attempt++) {
+      try {
+        const packument = await fetchMetadata(name, config.pubNpmRegistry);
+        mismatches = comparePackument(packument, version, expected);
+      } catch (fetchError) {
+        // The package is published already, so a failed fetch fails its verification only
+        error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+        break;
+      }
+      // Only a missing version or an outdated dist-tag can be a stale read
+      const isStale = mismatches.some((m) => m.field === "version" || m.field === "dist-tag");
+      if (!isStale || attempt === VERIFY_ATTEMPTS) break;
+      relinka("verbose", `[verify] ${name}@${version} is not on the registry yet, retrying...`);
+      await new Promise((resolve) => setTimeout(resolve, VERIFY_RETRY_DELAY));
+    }
+
+    const result: PubVerifyResult = {
+      target,
+      name,
+      version,
+      mismatches,
+      ...(error !== undefined && { error }),
+    };
+    printVerifyResult(result);
+    results.push(result);
+  }
+  return results;
+}
+
+/**
+ * Compares the registry metadata of `version` with the expected values.
+ * Registries that don't report a file count (`dist.fileCount`) are not checked for it.
+ */
+export function comparePackument(
+  packument: RegistryPackument | undefined,
+  version: string,
+  expected: {
+    name: string;
+    distTag: string;
+    exports: unknown;
+    bin: Record<string, string>;
+    fileCount: number;
+  },
+): PubVerifyMismatch[] {
+  const published = packument?.versions?.[version];
+  if (!published) {
+    return [{ field: "version", expected: version, actual: "not found on the registry" }];
+  }
+
+  const mismatches: PubVerifyMismatch[] = [];
+  const taggedVersion = packument?.["dist-tags"]?.[expected.distTag];
+  if (taggedVersion !== version) {
+    mismatches.push({
+      field: "dist-tag",
+      expected: `${expected.distTag} → ${version}`,
+      actual: `${expected.distTag} → ${taggedVersion ?? "none"}`,
+    });
+  }
+  if (JSON.stringify(published.exports) !== JSON.stringify(expected.exports)) {
+    mismatches.push({
+      field: "exports",
+      expected: JSON.stringify(expected.exports) ?? "none",
+      actual: JSON.stringify(published.exports) ?? "none",
+    });
+  }
+  const publishedBin = normalizeBin(expected.name, published.bin);
+  if (JSON.stringify(publishedBin) !== JSON.stringify(expected.bin)) {
+    mismatches.push({
+      field: "bin",
+      expected: JSON.stringify(expected.bin),
+      actual: JSON.stringify(publishedBin),
+    });
+  }
+  const fileCount = published.dist?.fileCount;
+  if (fileCount !== undefined && fileCount !== expected.fileCount) {
+    mismatches.push({
+      field: "fileCount",
+      expected: String(expected.fileCount),
+      actual: String(fileCount),
+    });
+  }
+  return mismatches;
+}
+
+async function fetchRegistryMetadata(
+  name: string,
+  registryUrl: string,
+): Promise<RegistryPackument | undefined> {
+  try {
+    return (await packageJson(name, {
+      registryUrl: registryUrl || undefined,
+      fullMetadata: true,
+      allVersions: true,
+    })) as RegistryPackument;
+  } catch (error) {
+    if (error instanceof PackageNotFoundError) return undefined;
+    throw error;
+  }
+}
+
+// Same rules as every publish client, since `npm pack` applies the `files` field
+async function getPackedFileCount(distPath: string): Promise<number> {
+  const { stdout } = await execa("npm", ["pack", "--dry-run", "--json", "--ignore-scripts"], {
+    cwd: distPath,
+  });
+  const [result] = JSON.parse(stdout) as { entryCount: number }[];
+  return result?.entryCount ?? 0;
+}
+
+// npm stores bins as an object of paths without a leading "./", sorted here for comparison
+function normalizeBin(name: string, bin: unknown): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(getBinEntries(name, bin))
+      .map(([binName, binPath]) => [binName, path.normalize(binPath).replace(/^\.\//, "")])
+      .sort(([a], [b]) => (a ?? "").localeCompare(b ?? "")),
+  );
+}
+
+function getNpmDistDir(config: DlerConfig, target: string): string {
+  if (target === PUB_STATE_MAIN_TARGET) return config.distNpmDirName;
+  const folderName = extractFolderName(target, config.libsList?.[target]);
+  return path.join(config.libsDirDist, folderName, "npm");
+}
+
+function printVerifyResult({ name, version, mismatches, error }: PubVerifyResult): void {
+  const label = `${name}@${version}`;
+  if (error !== undefined) {
+    relinka("warn", `[verify] ${label}: failed to fetch the registry metadata: ${error}`);
+    return;
+  }
+  if (mismatches.length === 0) {
+    relinka("success", `[verify] ${label}: registry metadata matches the built dist`);
+    return;
+  }
+  relinka(
+    "error",
+    `[verify] ${label}: ${mismatches.length} mismatch(es) on the registry:\n${mismatches.map((m) => `  ${m.field}: expected ${m.expected}, got ${m.actual}`).join("\n")}`,
+  );
+}
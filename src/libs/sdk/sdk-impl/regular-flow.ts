@@ -1,12 +1,15 @@
+import path from "@reliverse/pathkit";
 import { relinka } from "@reliverse/relinka";
 import pAll from "p-all";
 
 import type { DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
 import type { PerfTimer } from "~/libs/sdk/sdk-impl/sdk-types";
 
+import { type BuildCacheTarget, withBuildCache } from "./build/build-cache";
 import { regular_buildJsrDist, regular_buildNpmDist } from "./build/build-regular";
 import { regular_pubToJsr, regular_pubToNpm } from "./pub/pub-regular";
-import { CONCURRENCY_DEFAULT } from "./utils/utils-consts";
+import { runPubTarget } from "./pub/pub-state";
+import { CONCURRENCY_DEFAULT, PROJECT_ROOT } from "./utils/utils-consts";
 
 /**
  * Builds the main project based on build mode and commonPubRegistry.
@@ -26,50 +29,54 @@ export async function regular_buildFlow(
   switch (config.commonPubRegistry) {
     case "jsr":
       relinka("log", "Initializing build process for main project to JSR only...");
-      await regular_buildJsrDist(
-        isDev,
-        true,
-        config.coreIsCLI,
-        config.coreEntrySrcDir,
-        config.distJsrDirName,
-        config.distJsrBuilder,
-        config.coreEntryFile,
-        config.transpileTarget,
-        config.transpileFormat,
-        config.transpileSplitting,
-        config.transpileMinify,
-        config.transpileSourcemap,
-        config.transpilePublicPath,
-        config.distNpmOutFilesExt,
-        config,
-        timer,
-        config.transpileStub,
-        config.transpileWatch,
-        config.distJsrGenTsconfig,
-        config.coreDeclarations,
+      await withBuildCache(config, regular_getBuildCacheTarget(config, "jsr"), () =>
+        regular_buildJsrDist(
+          isDev,
+          true,
+          config.coreIsCLI,
+          config.coreEntrySrcDir,
+          config.distJsrDirName,
+          config.distJsrBuilder,
+          config.coreEntryFile,
+          config.transpileTarget,
+          config.transpileFormat,
+          config.transpileSplitting,
+          config.transpileMinify,
+          config.transpileSourcemap,
+          config.transpilePublicPath,
+          config.distNpmOutFilesExt,
+          config,
+          timer,
+          config.transpileStub,
+          config.transpileWatch,
+          config.distJsrGenTsconfig,
+          config.coreDeclarations,
+        ),
       );
       break;
     case "npm":
       relinka("log", "Initializing build process for main project to NPM only...");
-      await regular_buildNpmDist(
-        isDev,
-        config.coreIsCLI,
-        config.coreEntrySrcDir,
-        config.distNpmDirName,
-        config.distNpmBuilder,
-        config.coreEntryFile,
-        config.distNpmOutFilesExt,
-        config,
-        config.transpileTarget,
-        config.transpileFormat,
-        config.transpileSplitting,
-        config.transpileMinify,
-        config.transpileSourcemap,
-        config.transpilePublicPath,
-        config.transpileStub,
-        config.transpileWatch,
-        timer,
-        config.coreDeclarations,
+      await withBuildCache(config, regular_getBuildCacheTarget(config, "npm"), () =>
+        regular_buildNpmDist(
+          isDev,
+          config.coreIsCLI,
+          config.coreEntrySrcDir,
+          config.distNpmDirName,
+          config.distNpmBuilder,
+          config.coreEntryFile,
+          config.distNpmOutFilesExt,
+          config,
+          config.transpileTarget,
+          config.transpileFormat,
+          config.transpileSplitting,
+          config.transpileMinify,
+          config.transpileSourcemap,
+          config.transpilePublicPath,
+          config.transpileStub,
+          config.transpileWatch,
+          timer,
+          config.coreDeclarations,
+        ),
       );
       break;
     case "npm-jsr": {
@@ -77,48 +84,52 @@ export async function regular_buildFlow(
 
       const buildTasks = [
         () =>
-          regular_buildJsrDist(
-            isDev,
-            true,
-            config.coreIsCLI,
-            config.coreEntrySrcDir,
-            config.distJsrDirName,
-            config.distJsrBuilder,
-            config.coreEntryFile,
-            config.transpileTarget,
-            config.transpileFormat,
-            config.transpileSplitting,
-            config.transpileMinify,
-            config.transpileSourcemap,
-            config.transpilePublicPath,
-            config.distNpmOutFilesExt,
-            config,
-            timer,
-            config.transpileStub,
-            config.transpileWatch,
-            config.distJsrGenTsconfig,
-            config.coreDeclarations,
+          withBuildCache(config, regular_getBuildCacheTarget(config, "jsr"), () =>
+            regular_buildJsrDist(
+              isDev,
+              true,
+              config.coreIsCLI,
+              config.coreEntrySrcDir,
+              config.distJsrDirName,
+              config.distJsrBuilder,
+              config.coreEntryFile,
+              config.transpileTarget,
+              config.transpileFormat,
+              config.transpileSplitting,
+              config.transpileMinify,
+              config.transpileSourcemap,
+              config.transpilePublicPath,
+              config.distNpmOutFilesExt,
+              config,
+              timer,
+              config.transpileStub,
+              config.transpileWatch,
+              config.distJsrGenTsconfig,
+              config.coreDeclarations,
+            ),
           ),
         () =>
-          regular_buildNpmDist(
-            isDev,
-            config.coreIsCLI,
-            config.coreEntrySrcDir,
-            config.distNpmDirName,
-            config.distNpmBuilder,
-            config.coreEntryFile,
-            config.distNpmOutFilesExt,
-            config,
-            config.transpileTarget,
-            config.transpileFormat,
-            config.transpileSplitting,
-            config.transpileMinify,
-            config.transpileSourcemap,
-            config.transpilePublicPath,
-            config.transpileStub,
-            config.transpileWatch,
-            timer,
-            config.coreDeclarations,
+          withBuildCache(config, regular_getBuildCacheTarget(config, "npm"), () =>
+            regular_buildNpmDist(
+              isDev,
+              config.coreIsCLI,
+              config.coreEntrySrcDir,
+              config.distNpmDirName,
+              config.distNpmBuilder,
+              config.coreEntryFile,
+              config.distNpmOutFilesExt,
+              config,
+              config.transpileTarget,
+              config.transpileFormat,
+              config.transpileSplitting,
+              config.transpileMinify,
+              config.transpileSourcemap,
+              config.transpilePublicPath,
+              config.transpileStub,
+              config.transpileWatch,
+              timer,
+              config.coreDeclarations,
+            ),
           ),
       ];
       await pAll(buildTasks, { concurrency: CONCURRENCY_DEFAULT });
@@ -130,6 +141,22 @@ export async function regular_buildFlow(
   }
 }
 
+/**
+ * Describes the regular NPM or JSR dist as a build cache target.
+ * `libsList` is left out of the settings, since the main project build doesn't read it.
+ */
+function regular_getBuildCacheTarget(config: DlerConfig, target: "npm" | "jsr"): BuildCacheTarget {
+  return {
+    id: `regular-${target}`,
+    inputDirs: [path.resolve(PROJECT_ROOT, config.coreEntrySrcDir)],
+    outDir: path.resolve(
+      PROJECT_ROOT,
+      target === "npm" ? config.distNpmDirName : config.distJsrDirName,
+    ),
+    settings: { ...config, libsList: undefined },
+  };
+}
+
 /**
  * Publishes the main project based on commonPubRegistry.
  */
@@ -148,51 +175,48 @@ export async function regular_pubFlow(
   switch (config.commonPubRegistry) {
     case "jsr":
       relinka("log", "Publishing main project to JSR...");
-      await regular_pubToJsr(
-        config.distJsrDryRun,
-        config.distJsrFailOnWarn,
-        isDev,
-        config.commonPubPause,
-        config.distJsrDirName,
-        config.distJsrAllowDirty,
-        config.distJsrSlowTypes,
-        timer,
+      await runPubTarget("jsr", undefined, () =>
+        regular_pubToJsr(
+          config.distJsrDryRun,
+          config.distJsrFailOnWarn,
+          isDev,
+          config.commonPubPause,
+          config.distJsrDirName,
+          config.distJsrAllowDirty,
+          config.distJsrSlowTypes,
+          timer,
+        ),
       );
       break;
     case "npm":
       relinka("log", "Publishing main project to NPM...");
-      await regular_pubToNpm(
-        config.distJsrDryRun,
-        isDev,
-        config.commonPubPause,
-        config.distNpmDirName,
-        timer,
+      await runPubTarget("npm", undefined, () =>
+        regular_pubToNpm(isDev, config.commonPubPause, config.distNpmDirName, config, timer),
       );
       break;
     case "npm-jsr": {
       relinka("log", "Publishing main project to both NPM and JSR...");
       const publishTasks = [
         () =>
-          regular_pubToJsr(
-            config.distJsrDryRun,
-            config.distJsrFailOnWarn,
-            isDev,
-            config.commonPubPause,
-            config.distJsrDirName,
-            config.distJsrAllowDirty,
-            config.distJsrSlowTypes,
-            timer,
+          runPubTarget("jsr", undefined, () =>
+            regular_pubToJsr(
+              config.distJsrDryRun,
+              config.distJsrFailOnWarn,
+              isDev,
+              config.commonPubPause,
+              config.distJsrDirName,
+              config.distJsrAllowDirty,
+              config.distJsrSlowTypes,
+              timer,
+            ),
           ),
         () =>
-          regular_pubToNpm(
-            config.distJsrDryRun,
-            isDev,
-            config.commonPubPause,
-            config.distNpmDirName,
-            timer,
+          runPubTarget("npm", undefined, () =>
+            regular_pubToNpm(isDev, config.commonPubPause, config.distNpmDirName, config, timer),
           ),
       ];
-      await pAll(publishTasks, { concurrency: CONCURRENCY_DEFAULT });
+      // Let both registries finish, so the publish journal records each outcome
+      await pAll(publishTasks, { concurrency: CONCURRENCY_DEFAULT, stopOnError: false });
       break;
     }
     default:
@@ -1,5 +1,7 @@
 import { extname } from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
 
+import type { CheckRuleFix } from "~/libs/sdk/sdk-impl/config/types";
 import type { AllowedFileExtensionsType } from "~/libs/sdk/sdk-impl/rules/rules-consts";
 import type { CheckIssue, CheckResult, RulesCheckOptions } from "~/libs/sdk/sdk-impl/sdk-types";
 
@@ -93,3 +95,25 @@ export async function checkFileExtensions(options: RulesCheckOptions): Promise<C
     );
   }
 }
+
+// fix the reported files that can be renamed: .js files in typescript environments become .ts
+// (.ts files in npm dists must be compiled instead, so they're left as is)
+export async function fixFileExtensions(
+  options: RulesCheckOptions,
+  issues: CheckIssue[],
+): Promise<CheckRuleFix[]> {
+  const { directory } = options;
+  if (directory !== "src" && directory !== "dist-jsr" && directory !== "dist-libs/jsr") {
+    return [];
+  }
+
+  const fixes: CheckRuleFix[] = [];
+  for (const file of new Set(issues.map((issue) => issue.file))) {
+    if (extname(file) !== ".js") continue;
+    const renameTo = `${file.slice(0, -".js".length)}.ts`;
+    // never overwrite an existing file
+    if (await fs.pathExists(renameTo)) continue;
+    fixes.push({ file, renameTo });
+  }
+  return fixes;
+}
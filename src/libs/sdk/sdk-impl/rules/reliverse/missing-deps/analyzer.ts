@@ -1,7 +1,7 @@
 import type { DependencyResult, FinderOptions } from "./deps-types";
 
 import { readFile, findSourceFiles, readPackageJson } from "./filesystem";
-import { extractPackageNames, getListedDependencies, getBuiltinModules } from "./parser";
+import { extractImportedPackages, getListedDependencies, getBuiltinModules } from "./parser";
 
 export const analyzeDependencies = async (options: FinderOptions): Promise<DependencyResult> => {
   // Read package.json
@@ -16,6 +16,8 @@ export const analyzeDependencies = async (options: FinderOptions): Promise<Depen
 
   // Extract dependencies from each file
   const allDependencies = new Set<string>();
+  const runtimeDependencies = new Set<string>();
+  const typeDependencies = new Set<string>();
   const devOnlyDependencies = new Set<string>();
   const duplicateDependencies = new Set<string>();
 
@@ -30,10 +32,17 @@ export const analyzeDependencies = async (options: FinderOptions): Promise<Depen
 
   for (const filePath of sourceFiles) {
     const fileContent = await readFile(filePath);
-    const packageNames = extractPackageNames(fileContent);
+    const { runtime, typeOnly } = extractImportedPackages(fileContent, filePath);
 
-    for (const packageName of packageNames) {
+    // Type-only imports are erased on build, so they can't be dev-only issues
+    for (const packageName of typeOnly) {
       allDependencies.add(packageName);
+      typeDependencies.add(packageName);
+    }
+
+    for (const packageName of runtime) {
+      allDependencies.add(packageName);
+      runtimeDependencies.add(packageName);
 
       // Check if package is only in devDependencies
       if (
@@ -48,6 +57,11 @@ export const analyzeDependencies = async (options: FinderOptions): Promise<Depen
     }
   }
 
+  // Packages only imported for their types (in every file)
+  const typeOnlyDependencies = [...typeDependencies].filter(
+    (dependency) => !runtimeDependencies.has(dependency) && !builtinModules.has(dependency),
+  );
+
   // Find missing dependencies (those not listed in package.json)
   const missingDependencies = new Set<string>();
   const builtinModulesList: string[] = [];
@@ -70,6 +84,7 @@ export const analyzeDependencies = async (options: FinderOptions): Promise<Depen
     listedDependencies: Array.from(listedDependencies).sort(),
     builtinModules: builtinModulesList.sort(),
     devOnlyDependencies: Array.from(devOnlyDependencies).sort(),
+    typeOnlyDependencies: typeOnlyDependencies.sort(),
     duplicateDependencies: Array.from(duplicateDependencies).sort(),
   };
 };
@@ -32,11 +32,13 @@ export async function checkMissingDependencies(options: RulesCheckOptions): Prom
       depth,
     });
 
-    // Convert missing dependencies to issues
+    // Convert missing dependencies to issues (type-only ones belong to devDependencies)
     for (const dep of result.missingDependencies) {
       issues.push({
         file: "package.json",
-        message: `missing dependency: ${dep}`,
+        message: result.typeOnlyDependencies.includes(dep)
+          ? `missing dev dependency: ${dep} (only imported for types)`
+          : `missing dependency: ${dep}`,
         type: "missing-dependency",
       });
     }
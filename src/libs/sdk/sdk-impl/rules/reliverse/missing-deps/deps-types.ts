@@ -27,5 +27,6 @@ export interface DependencyResult {
   listedDependencies: string[];
   builtinModules: string[];
   devOnlyDependencies: string[];
+  typeOnlyDependencies: string[]; // Only imported in type positions, so devDependencies are enough
   duplicateDependencies: string[];
 }
@@ -22,6 +22,7 @@ export const formatOutput = (result: DependencyResult, options: FinderOptions):
     output += `${re.gray("• ")}Node.js built-in modules: ${result.builtinModules.length}\n`;
   }
   output += `${re.gray("• ")}Dev-only dependencies used in production: ${result.devOnlyDependencies.length}\n`;
+  output += `${re.gray("• ")}Type-only dependencies: ${result.typeOnlyDependencies.length}\n`;
   output += `${re.gray("• ")}Duplicate dependencies: ${result.duplicateDependencies.length}\n`;
   output += "\n";
 
@@ -65,9 +66,21 @@ export const formatOutput = (result: DependencyResult, options: FinderOptions):
     }
     output += "\n";
 
-    // Add installation hint
+    // Add installation hints (packages only imported for types go to devDependencies)
+    const missingRuntime = result.missingDependencies.filter(
+      (dep) => !result.typeOnlyDependencies.includes(dep),
+    );
+    const missingTypes = result.missingDependencies.filter((dep) =>
+      result.typeOnlyDependencies.includes(dep),
+    );
     output += re.gray("To install, run:\n");
-    output += re.cyan(`npm install ${result.missingDependencies.join(" ")}\n\n`);
+    if (missingRuntime.length > 0) {
+      output += re.cyan(`npm install ${missingRuntime.join(" ")}\n`);
+    }
+    if (missingTypes.length > 0) {
+      output += re.cyan(`npm install ${missingTypes.join(" ")} --save-dev\n`);
+    }
+    output += "\n";
   } else {
     output += re.greenPastel("No missing dependencies found! 🎉\n\n");
   }
@@ -84,24 +97,27 @@ export const formatOutput = (result: DependencyResult, options: FinderOptions):
   // Show all dependencies if requested
   if (options.showAll) {
     output += re.bold("All Dependencies:\n");
-    output += re.gray("(✓ = listed in package.json, ✗ = missing, ⚠️ = dev-only, 🔄 = duplicate)\n");
+    output += re.gray(
+      "(✓ = listed in package.json, ✗ = missing, ⚠️ = dev-only, 🔄 = duplicate, (types) = type-only)\n",
+    );
 
     for (const dep of result.allDependencies) {
       const isListed = result.listedDependencies.includes(dep);
       const isBuiltin = result.builtinModules.includes(dep);
       const isDevOnly = result.devOnlyDependencies.includes(dep);
       const isDuplicate = result.duplicateDependencies.includes(dep);
+      const typeOnly = result.typeOnlyDependencies.includes(dep) ? re.gray(" (types)") : "";
 
       if (isDuplicate) {
         output += `${re.gray("• ")}${re.yellow("🔄 ")}${re.yellow(dep)}${re.gray(" (duplicate)")}\n`;
       } else if (isListed && !isDevOnly) {
-        output += `${re.gray("• ") + re.green("✓ ") + dep}\n`;
+        output += `${re.gray("• ") + re.green("✓ ") + dep}${typeOnly}\n`;
       } else if (isBuiltin) {
         output += `${re.gray("• ")}${re.blue("⚡ ")}${dep}${re.gray(" (built-in)")}\n`;
       } else if (isDevOnly) {
         output += `${re.gray("• ")}${re.yellow("⚠️ ")}${re.yellow(dep)}${re.gray(" (dev-only)")}\n`;
       } else {
-        output += `${re.gray("• ")}${re.red("✗ ")}${re.yellow(dep)}\n`;
+        output += `${re.gray("• ")}${re.red("✗ ")}${re.yellow(dep)}${typeOnly}\n`;
       }
     }
     output += "\n";
@@ -1,46 +1,49 @@
 import { builtinModules } from "node:module";
 
+import { extractModuleSpecifiers } from "~/libs/sdk/sdk-impl/utils/utils-misc";
+
 import type { PackageJson } from "./deps-types";
 
-// Regular expressions for different import patterns
-const importRegexes = [
-  // ES modules
-  /import\s+(?:{[^}]*}|\*\s+as\s+[^,]*|[^,{]*)\s+from\s+["']([^"']+)["']/g,
-  // Dynamic imports
-  /import\(["']([^"']+)["']\)/g,
-  // CommonJS requires
-  /require\(["']([^"']+)["']\)/g,
-  // Export from
-  /export\s+(?:{[^}]*}|\*)\s+from\s+["']([^"']+)["']/g,
-];
-
-export const extractPackageNames = (fileContent: string): Set<string> => {
-  const packageNames = new Set<string>();
-
-  // Apply all regex patterns
-  for (const regex of importRegexes) {
-    let match: RegExpExecArray | null;
-    // Clone the regex to reset lastIndex
-    const clonedRegex = new RegExp(regex.source, regex.flags);
-
-    for (;;) {
-      match = clonedRegex.exec(fileContent);
-      if (match === null) {
-        break;
-      }
-
-      const importPath = match[1];
-      if (importPath) {
-        // Get the package name from the import path
-        const packageName = normalizePackageName(importPath);
-        if (packageName) {
-          packageNames.add(packageName);
-        }
-      }
+// `https:`, `data:`, `file:`... (a URL, e.g. in `new URL("https://...", import.meta.url)`)
+const URL_SCHEME_RE = /^[a-z][a-z\d+.-]*:/i;
+
+// Builtins that only exist with the `node:` prefix, missing from `builtinModules` before Node 23.5
+const NODE_PREFIX_ONLY_MODULES = ["sea", "sqlite", "test"];
+
+// Packages imported by a file: at runtime, or only in type positions (erased on build)
+export interface ImportedPackages {
+  runtime: Set<string>;
+  typeOnly: Set<string>;
+}
+
+// Package names imported by a file, split into runtime and type-only imports
+// (a package imported both ways is a runtime one)
+export const extractImportedPackages = (
+  fileContent: string,
+  fileName?: string,
+): ImportedPackages => {
+  const packages: ImportedPackages = { runtime: new Set(), typeOnly: new Set() };
+
+  for (const { specifier, typeOnly } of extractModuleSpecifiers(fileContent, fileName)) {
+    const packageName = normalizePackageName(specifier);
+    if (!packageName) continue;
+    if (typeOnly) {
+      packages.typeOnly.add(packageName);
+    } else {
+      packages.runtime.add(packageName);
     }
   }
 
-  return packageNames;
+  for (const packageName of packages.runtime) {
+    packages.typeOnly.delete(packageName);
+  }
+  return packages;
+};
+
+// Every package name imported by a file, type-only imports included
+export const extractPackageNames = (fileContent: string, fileName?: string): Set<string> => {
+  const { runtime, typeOnly } = extractImportedPackages(fileContent, fileName);
+  return new Set([...runtime, ...typeOnly]);
 };
 
 export const normalizePackageName = (importPath: string): string | null => {
@@ -49,6 +52,19 @@ export const normalizePackageName = (importPath: string): string | null => {
     return null;
   }
 
+  // Node builtins by their name (`node:fs/promises` -> `fs`), bun builtins as is (`bun:test`)
+  if (importPath.startsWith("node:")) {
+    return importPath.slice("node:".length).split("/")[0] || null;
+  }
+  if (importPath.startsWith("bun:")) {
+    return importPath;
+  }
+
+  // Skip URLs, only bare specifiers are packages
+  if (URL_SCHEME_RE.test(importPath)) {
+    return null;
+  }
+
   // Handle scoped packages
   if (importPath.startsWith("@")) {
     const scopedMatch = importPath.match(/^(@[^/]+\/[^/]+)/);
@@ -80,5 +96,8 @@ export const getListedDependencies = (packageJson: PackageJson): Set<string> =>
 };
 
 export const getBuiltinModules = (): Set<string> => {
-  return new Set(builtinModules);
+  return new Set([
+    ...builtinModules.map((name) => name.replace(/^node:/, "")),
+    ...NODE_PREFIX_ONLY_MODULES,
+  ]);
 };
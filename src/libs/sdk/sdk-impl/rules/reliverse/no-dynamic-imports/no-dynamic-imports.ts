@@ -96,7 +96,7 @@ export async function checkNoDynamicImports(
 
       issues.push({
         type: "file-extension",
-        file: file as string,
+        file: filePath,
         line: lineNumber,
         column,
         message: `Dynamic import found: ${lineContent.trim()}. Consider using static imports for better tree-shaking, type inference, and performance.`,
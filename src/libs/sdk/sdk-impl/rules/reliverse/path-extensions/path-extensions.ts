@@ -1,7 +1,8 @@
-import { getFileImportsExports, extname } from "@reliverse/pathkit";
+import path, { getFileImportsExports, extname } from "@reliverse/pathkit";
 import fs from "@reliverse/relifso";
 import { relinka } from "@reliverse/relinka";
 
+import type { CheckRuleFix } from "~/libs/sdk/sdk-impl/config/types";
 import type { AllowedFileExtensionsType } from "~/libs/sdk/sdk-impl/rules/rules-consts";
 import type { CheckIssue, CheckResult, RulesCheckOptions } from "~/libs/sdk/sdk-impl/sdk-types";
 
@@ -15,8 +16,10 @@ import { getAllFiles, getLineNumber } from "~/libs/sdk/sdk-impl/rules/rules-util
 function getAllowedImportExtensions(
   directory: AllowedFileExtensionsType,
   strict: boolean,
+  moduleResolution: "bundler" | "nodenext",
 ): string[] {
-  if (strict) {
+  // nodenext can't resolve imports without an extension
+  if (strict || moduleResolution === "nodenext") {
     return STRICT_IMPORT_EXTENSIONS[directory];
   }
   return ALLOWED_IMPORT_EXTENSIONS[directory];
@@ -26,9 +29,9 @@ function getAllowedImportExtensions(
 export async function checkPathExtensions(options: RulesCheckOptions): Promise<CheckResult> {
   const startTime = Date.now();
   const issues: CheckIssue[] = [];
-  const { directory, strict, onProgress } = options;
+  const { directory, strict, moduleResolution, onProgress } = options;
 
-  const allowedExts = getAllowedImportExtensions(directory, strict);
+  const allowedExts = getAllowedImportExtensions(directory, strict, moduleResolution);
 
   try {
     const files = await getAllFiles(directory);
@@ -118,3 +121,100 @@ export async function checkPathExtensions(options: RulesCheckOptions): Promise<C
     );
   }
 }
+
+// fix the reported imports: .ts imports become .js in javascript environments (and .js
+// imports become .ts in typescript ones, when the .ts file exists), and relative imports
+// without an extension get the one of the file they resolve to.
+// imports that can't be resolved on disk (e.g. aliases without an extension) are left as is
+export async function fixPathExtensions(
+  options: RulesCheckOptions,
+  issues: CheckIssue[],
+): Promise<CheckRuleFix[]> {
+  const fixes: CheckRuleFix[] = [];
+
+  // only the reported lines are fixed, so ignored imports stay untouched
+  const linesByFile = new Map<string, Set<number>>();
+  for (const issue of issues) {
+    if (issue.line === undefined) continue;
+    linesByFile.set(issue.file, (linesByFile.get(issue.file) ?? new Set()).add(issue.line));
+  }
+
+  for (const [file, lines] of linesByFile) {
+    const content = await fs.readFile(file, "utf8");
+    const imports = getFileImportsExports(content, {
+      kind: "import",
+      pathTypes: ["relative", "alias"],
+    });
+
+    // from the last import, so the positions of the previous ones stay valid
+    let fixedContent = content;
+    for (const imp of [...imports].sort((a, b) => b.start - a.start)) {
+      if (!imp.source || !lines.has(getLineNumber(content, imp.start))) continue;
+
+      const fixedSource = await getFixedImportPath(
+        imp.source,
+        file,
+        options.directory,
+        imp.pathType === "relative",
+      );
+      if (!fixedSource) continue;
+
+      const statement = content.slice(imp.start, imp.end);
+      const quote = ['"', "'"].find((q) => statement.includes(`${q}${imp.source}${q}`));
+      if (!quote) continue;
+      const fixedStatement = statement.replace(
+        `${quote}${imp.source}${quote}`,
+        `${quote}${fixedSource}${quote}`,
+      );
+      fixedContent =
+        fixedContent.slice(0, imp.start) + fixedStatement + fixedContent.slice(imp.end);
+    }
+
+    if (fixedContent !== content) {
+      fixes.push({ file, content: fixedContent });
+    }
+  }
+
+  return fixes;
+}
+
+// get the import path with the extension expected in the directory,
+// or undefined when it can't be fixed
+async function getFixedImportPath(
+  source: string,
+  file: string,
+  directory: AllowedFileExtensionsType,
+  isRelative: boolean,
+): Promise<string | undefined> {
+  const isTsEnvironment = directory === "dist-jsr" || directory === "dist-libs/jsr";
+  const importExt = isTsEnvironment ? ".ts" : ".js";
+  const ext = extname(source);
+  const resolvedPath = isRelative ? path.resolve(path.dirname(file), source) : undefined;
+
+  if ([".ts", ".tsx", ".js", ".jsx"].includes(ext)) {
+    if (ext === importExt) return undefined;
+    // a .js import can only point to a .ts file that exists (aliases aren't resolved)
+    if (
+      isTsEnvironment &&
+      !(resolvedPath && (await fs.pathExists(`${resolvedPath.slice(0, -ext.length)}.ts`)))
+    ) {
+      return undefined;
+    }
+    return `${source.slice(0, -ext.length)}${importExt}`;
+  }
+
+  // imports without an extension (or with a dot in the name, e.g. "./vite.config")
+  if (!resolvedPath) return undefined;
+  const fileExts = isTsEnvironment ? [".ts"] : directory === "src" ? [".ts", ".tsx"] : [".js"];
+  for (const fileExt of fileExts) {
+    if (await fs.pathExists(`${resolvedPath}${fileExt}`)) {
+      return `${source}${importExt}`;
+    }
+  }
+  for (const fileExt of fileExts) {
+    if (await fs.pathExists(path.join(resolvedPath, `index${fileExt}`))) {
+      return `${source.replace(/\/$/, "")}/index${importExt}`;
+    }
+  }
+  return undefined;
+}
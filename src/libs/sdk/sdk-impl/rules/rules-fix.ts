@@ -0,0 +1,44 @@
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+
+import type { CheckRule, CheckRuleContext, CheckRuleFix } from "~/libs/sdk/sdk-impl/config/types";
+import type { CheckResult } from "~/libs/sdk/sdk-impl/sdk-types";
+
+import { createUnifiedDiff } from "~/libs/sdk/sdk-impl/utils/utils-diff";
+
+// fix the issues a rule reported (after `checkRules` and the ignore comments were applied),
+// or print the fixes as a unified diff with `dryRun` (with `print`, e.g. to keep stdout for a
+// report). returns the fixes
+export async function fixCheckRuleIssues(
+  rule: CheckRule,
+  ctx: CheckRuleContext,
+  result: CheckResult,
+  dryRun: boolean,
+  print: (message: string) => void = (message) => relinka("log", message),
+): Promise<CheckRuleFix[]> {
+  if (!rule.fix || result.issues.length === 0) return [];
+
+  const fixes = await rule.fix(ctx, result.issues);
+  for (const fix of fixes) {
+    if (dryRun) {
+      print(await formatCheckRuleFix(fix));
+      continue;
+    }
+    if (fix.content !== undefined) {
+      await fs.writeFile(fix.file, fix.content, "utf8");
+    }
+    if (fix.renameTo) {
+      await fs.move(fix.file, fix.renameTo);
+    }
+  }
+  return fixes;
+}
+
+// a fix as a unified diff (renames without content changes get a `rename` line)
+export async function formatCheckRuleFix(fix: CheckRuleFix): Promise<string> {
+  const before = await fs.readFile(fix.file, "utf8");
+  const newFile = fix.renameTo ?? fix.file;
+  const diff = createUnifiedDiff(fix.file, newFile, before, fix.content ?? before);
+  if (!fix.renameTo) return diff;
+  return [`rename ${fix.file} → ${newFile}`, diff].filter(Boolean).join("\n");
+}
@@ -2,16 +2,30 @@ import { relinka } from "@reliverse/relinka";
 
 import type { CheckResult } from "~/libs/sdk/sdk-impl/sdk-types";
 
-// format check results
+const BUILTIN_ISSUE_TYPES = [
+  "file-extension",
+  "path-extension",
+  "missing-dependency",
+  "builtin-module",
+  "dler-config-health",
+  "self-include",
+  "no-index-files",
+];
+
+// format check results (issues with the "warn" severity don't fail the check)
 export function displayCheckResults(
   checkType: string,
   directory: string,
   result: CheckResult,
 ): void {
-  const { success, issues, stats } = result;
+  const { stats } = result;
+  const issues = result.issues.filter((i) => i.severity !== "warn");
+  const warnings = result.issues.filter((i) => i.severity === "warn");
 
-  if (success) {
-    relinka("success", `✓ ${checkType} check passed for ${directory}`);
+  if (issues.length === 0) {
+    const warningCount = warnings.length > 0 ? ` (${warnings.length} warnings)` : "";
+    relinka("success", `✓ ${checkType} check passed for ${directory}${warningCount}`);
+    displayWarnings(warnings);
     relinka(
       "info",
       `  files checked: ${stats.filesChecked}, imports: ${stats.importsChecked}, time: ${stats.timeElapsed}ms`,
@@ -98,9 +112,39 @@ export function displayCheckResults(
       }
     }
 
+    // issues of custom rules and other types, grouped by type
+    const otherIssues = issues.filter((i) => !BUILTIN_ISSUE_TYPES.includes(i.type));
+    for (const type of new Set(otherIssues.map((i) => i.type))) {
+      const typeIssues = otherIssues.filter((i) => i.type === type);
+      relinka("error", `  ${type} issues (${typeIssues.length}):`);
+      for (const issue of typeIssues.slice(0, 10)) {
+        relinka("error", `    ${formatIssueLocation(issue)}: ${issue.message}`);
+      }
+      if (typeIssues.length > 10) {
+        relinka("error", `    ... and ${typeIssues.length - 10} more`);
+      }
+    }
+
+    displayWarnings(warnings);
+
     relinka(
       "info",
       `  stats: ${stats.filesChecked} files, ${stats.importsChecked} imports, ${stats.timeElapsed}ms`,
     );
   }
 }
+
+function displayWarnings(warnings: CheckResult["issues"]): void {
+  if (warnings.length === 0) return;
+  relinka("warn", `  warnings (${warnings.length}):`);
+  for (const issue of warnings.slice(0, 10)) {
+    relinka("warn", `    ${formatIssueLocation(issue)}: ${issue.message}`);
+  }
+  if (warnings.length > 10) {
+    relinka("warn", `    ... and ${warnings.length - 10} more`);
+  }
+}
+
+function formatIssueLocation(issue: CheckResult["issues"][number]): string {
+  return issue.line ? `${issue.file}:${issue.line}` : issue.file;
+}
@@ -0,0 +1,164 @@
+import type {
+  CheckRule,
+  CheckRuleContext,
+  CheckRuleDirectory,
+  DlerConfig,
+} from "~/libs/sdk/sdk-impl/config/types";
+import type { CheckResult } from "~/libs/sdk/sdk-impl/sdk-types";
+
+import { checkDlerConfigHealth } from "~/libs/sdk/sdk-impl/rules/reliverse/dler-config-health/dler-config-health";
+import {
+  checkFileExtensions,
+  fixFileExtensions,
+} from "~/libs/sdk/sdk-impl/rules/reliverse/file-extensions/file-extensions";
+import { checkMissingDependencies } from "~/libs/sdk/sdk-impl/rules/reliverse/missing-deps/deps-mod";
+import { checkNoDynamicImports } from "~/libs/sdk/sdk-impl/rules/reliverse/no-dynamic-imports/no-dynamic-imports";
+import { checkNoIndexFiles } from "~/libs/sdk/sdk-impl/rules/reliverse/no-index-files/no-index-files";
+import { checkPackageJsonHealth } from "~/libs/sdk/sdk-impl/rules/reliverse/package-json-health/package-json-health";
+import {
+  checkPathExtensions,
+  fixPathExtensions,
+} from "~/libs/sdk/sdk-impl/rules/reliverse/path-extensions/path-extensions";
+import { checkSelfInclude } from "~/libs/sdk/sdk-impl/rules/reliverse/self-include/self-include";
+import { checkTsConfigHealth } from "~/libs/sdk/sdk-impl/rules/reliverse/tsconfig-health/tsconfig-health";
+import { applyCheckRuleSettings, isCheckRuleOff } from "~/libs/sdk/sdk-impl/rules/rules-severity";
+
+export const CHECK_DIRECTORIES: CheckRuleDirectory[] = [
+  "src",
+  "dist-npm",
+  "dist-jsr",
+  "dist-libs/npm",
+  "dist-libs/jsr",
+];
+
+const CHECK_RULE_ID_RE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// built-in rules, in the order `dler check` runs them
+const BUILTIN_CHECK_RULES: CheckRule[] = [
+  {
+    id: "package-json-health",
+    description: "package.json validation",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    run: () => checkPackageJsonHealth(),
+  },
+  {
+    id: "tsconfig-health",
+    description: "tsconfig.json validation",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    run: () => checkTsConfigHealth(),
+  },
+  {
+    id: "dler-config-health",
+    description: "dler configuration",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    run: () => checkDlerConfigHealth(),
+  },
+  {
+    id: "file-extensions",
+    description: "file extensions (.ts/.js files)",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    run: (ctx) => checkFileExtensions(ctx),
+    fix: (ctx, issues) => fixFileExtensions(ctx, issues),
+  },
+  {
+    id: "path-extensions",
+    description: "import path extensions (.ts/.js imports)",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    run: (ctx) => checkPathExtensions(ctx),
+    fix: (ctx, issues) => fixPathExtensions(ctx, issues),
+  },
+  {
+    id: "self-include",
+    description: "self-include (no self-imports)",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    run: (ctx) => checkSelfInclude(ctx),
+  },
+  {
+    id: "no-index-files",
+    description: "no index files",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    run: (ctx) => checkNoIndexFiles(ctx),
+  },
+  {
+    id: "no-dynamic-imports",
+    description: "no dynamic imports",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    // reports progress without the file name
+    run: ({ directory, onProgress }) =>
+      checkNoDynamicImports({
+        directory,
+        onProgress: onProgress && ((current, total) => onProgress(current, total, "")),
+      }),
+  },
+  {
+    id: "missing-deps",
+    description: "missing dependencies",
+    directories: CHECK_DIRECTORIES,
+    severity: "error",
+    // the check command adds its deps options (json, builtins, peer, etc) to the context
+    run: (ctx) => checkMissingDependencies(ctx),
+  },
+];
+
+const checkRules = new Map<string, CheckRule>(BUILTIN_CHECK_RULES.map((rule) => [rule.id, rule]));
+
+// type helper for rules defined outside of .config/dler.ts
+export function defineCheckRule(rule: CheckRule): CheckRule {
+  return rule;
+}
+
+// add a rule to the registry (ids are unique, built-in ones included)
+export function registerCheckRule(rule: CheckRule): void {
+  if (!CHECK_RULE_ID_RE.test(rule.id)) {
+    throw new Error(`invalid check rule id "${rule.id}": use kebab-case, e.g. "no-todo-comments"`);
+  }
+  if (checkRules.has(rule.id)) {
+    throw new Error(`check rule "${rule.id}" is already registered`);
+  }
+  const unknownDirectory = rule.directories.find((dir) => !CHECK_DIRECTORIES.includes(dir));
+  if (unknownDirectory) {
+    throw new Error(`check rule "${rule.id}" applies to an unknown directory: ${unknownDirectory}`);
+  }
+  checkRules.set(rule.id, rule);
+}
+
+// register the `checkCustomRules` of the config (a rule registered by an earlier call is kept)
+export function registerConfigCheckRules(config: DlerConfig): void {
+  for (const rule of config.checkCustomRules ?? []) {
+    if (checkRules.get(rule.id) === rule) continue;
+    registerCheckRule(rule);
+  }
+}
+
+export function getCheckRule(id: string): CheckRule | undefined {
+  return checkRules.get(id);
+}
+
+// all registered rules: built-in ones first, then custom ones in registration order
+export function getCheckRules(): CheckRule[] {
+  return [...checkRules.values()];
+}
+
+// run a rule for one directory with the `checkRules` severities and the ignore comments applied,
+// or return undefined when the rule doesn't apply to the directory or is off
+export async function runCheckRule(
+  rule: CheckRule,
+  ctx: CheckRuleContext,
+): Promise<CheckResult | undefined> {
+  if (!rule.directories.includes(ctx.directory) || isCheckRuleOff(ctx.config, rule)) {
+    return undefined;
+  }
+  const result = await rule.run(ctx);
+  return applyCheckRuleSettings(ctx.config, rule, {
+    ...result,
+    issues: result.issues.map((issue) => ({ ...issue, rule: rule.id })),
+  });
+}
@@ -0,0 +1,178 @@
+import type { CheckRule } from "~/libs/sdk/sdk-impl/config/types";
+import type { CheckIssue, CheckResult } from "~/libs/sdk/sdk-impl/sdk-types";
+
+export const CHECK_REPORT_FORMATS = ["pretty", "json", "sarif", "junit"] as const;
+
+export type CheckReportFormat = (typeof CHECK_REPORT_FORMATS)[number];
+
+// the result of one rule for one directory
+export interface CheckReportEntry {
+  rule: Pick<CheckRule, "id" | "description" | "severity">;
+  directory: string;
+  result: CheckResult;
+  // set when the rule threw: the result is a failure without issues
+  error?: string;
+}
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const DLER_URL = "https://github.com/reliverse/dler";
+
+export function isCheckReportFormat(format: string): format is CheckReportFormat {
+  return (CHECK_REPORT_FORMATS as readonly string[]).includes(format);
+}
+
+// format the results of `dler check` for code scanning (sarif), test dashboards (junit)
+// or scripts (json). "pretty" results are printed by displayCheckResults instead
+export function formatCheckReport(
+  format: Exclude<CheckReportFormat, "pretty">,
+  entries: CheckReportEntry[],
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        entries.map(({ rule, directory, result, error }) => ({
+          rule: rule.id,
+          directory,
+          ...result,
+          ...(error !== undefined && { error }),
+        })),
+        null,
+        2,
+      );
+    case "sarif":
+      return JSON.stringify(createSarifReport(entries), null, 2);
+    case "junit":
+      return createJUnitReport(entries);
+  }
+}
+
+// sarif 2.1.0: one run of dler with its rules, one result per issue.
+// rules that threw are reported as tool execution notifications of the invocation
+export function createSarifReport(entries: CheckReportEntry[]) {
+  const rules = [...new Map(entries.map(({ rule }) => [rule.id, rule])).values()];
+  const crashedEntries = entries.filter((entry) => entry.error !== undefined);
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "dler",
+            informationUri: DLER_URL,
+            rules: rules.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: toSarifLevel(rule.severity) },
+            })),
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: crashedEntries.length === 0,
+            toolExecutionNotifications: crashedEntries.map(({ rule, directory, error }) => ({
+              level: "error",
+              message: { text: `${rule.id} failed to check ${directory}: ${error}` },
+              associatedRule: { id: rule.id },
+            })),
+          },
+        ],
+        results: entries.flatMap(({ rule, result }) =>
+          result.issues.map((issue) => ({
+            ruleId: issue.rule ?? rule.id,
+            level: toSarifLevel(issue.severity ?? rule.severity),
+            message: { text: issue.message },
+            locations: [{ physicalLocation: toSarifLocation(issue) }],
+          })),
+        ),
+      },
+    ],
+  };
+}
+
+// junit: one test suite per directory, one test case per rule. a rule with "error" issues
+// fails, its "warn" issues are written to the test case's output. a rule that threw is an error
+export function createJUnitReport(entries: CheckReportEntry[]): string {
+  const directories = [...new Set(entries.map((entry) => entry.directory))];
+  const time = (entries: CheckReportEntry[]) =>
+    (entries.reduce((sum, entry) => sum + entry.result.stats.timeElapsed, 0) / 1000).toFixed(3);
+  const counts = (entries: CheckReportEntry[]) => {
+    const errors = entries.filter((entry) => entry.error !== undefined).length;
+    const failures = entries.filter((entry) => !entry.result.success).length - errors;
+    return `failures="${failures}" errors="${errors}"`;
+  };
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="dler check" tests="${entries.length}" ${counts(entries)} time="${time(entries)}">`,
+  ];
+  for (const directory of directories) {
+    const suiteEntries = entries.filter((entry) => entry.directory === directory);
+    lines.push(
+      `  <testsuite name="${escapeXml(directory)}" tests="${suiteEntries.length}" ${counts(suiteEntries)} time="${time(suiteEntries)}">`,
+    );
+
+    for (const { rule, result, error } of suiteEntries) {
+      const errors = result.issues.filter((issue) => issue.severity !== "warn");
+      const warnings = result.issues.filter((issue) => issue.severity === "warn");
+      const testCase = `    <testcase classname="${escapeXml(directory)}" name="${escapeXml(rule.id)}" time="${(result.stats.timeElapsed / 1000).toFixed(3)}"`;
+
+      if (result.success && warnings.length === 0) {
+        lines.push(`${testCase} />`);
+        continue;
+      }
+      lines.push(`${testCase}>`);
+      if (error !== undefined) {
+        lines.push(
+          `      <error message="${escapeXml(error)}" type="${escapeXml(rule.id)}">${escapeXml(error)}</error>`,
+        );
+      } else if (!result.success) {
+        lines.push(
+          `      <failure message="${errors.length} issue(s)" type="${escapeXml(rule.id)}">${escapeXml(formatIssues(errors))}</failure>`,
+        );
+      }
+      if (warnings.length > 0) {
+        lines.push(`      <system-out>${escapeXml(formatIssues(warnings))}</system-out>`);
+      }
+      lines.push("    </testcase>");
+    }
+    lines.push("  </testsuite>");
+  }
+  lines.push("</testsuites>");
+  return `${lines.join("\n")}\n`;
+}
+
+function toSarifLevel(severity: CheckRule["severity"] | undefined): "error" | "warning" {
+  return severity === "warn" ? "warning" : "error";
+}
+
+function toSarifLocation(issue: CheckIssue) {
+  return {
+    artifactLocation: { uri: issue.file.replaceAll("\\", "/") },
+    // sarif lines and columns start at 1
+    ...(issue.line && {
+      region: { startLine: issue.line, ...(issue.column && { startColumn: issue.column }) },
+    }),
+  };
+}
+
+function formatIssues(issues: CheckIssue[]): string {
+  return issues
+    .map((issue) => {
+      const location = issue.line
+        ? `${issue.file}:${issue.line}${issue.column ? `:${issue.column}` : ""}`
+        : issue.file;
+      return `${location}: ${issue.message}`;
+    })
+    .join("\n");
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
@@ -0,0 +1,149 @@
+import path from "@reliverse/pathkit";
+import fs from "@reliverse/relifso";
+
+import type { CheckRule, CheckRuleLevel, DlerConfig } from "~/libs/sdk/sdk-impl/config/types";
+import type { CheckIssue, CheckResult } from "~/libs/sdk/sdk-impl/sdk-types";
+
+import { PROJECT_ROOT } from "~/libs/sdk/sdk-impl/utils/utils-consts";
+
+export const CHECK_IGNORE_COMMENT = "dler-check-ignore";
+export const CHECK_IGNORE_FILE_COMMENT = "dler-check-ignore-file";
+
+// `// dler-check-ignore rule-a, rule-b -- reason`, `/* dler-check-ignore rule-a */`
+// or `// dler-check-ignore-file` (every rule)
+const IGNORE_COMMENT_RE = /(?:\/\/|\/\*)\s*dler-check-ignore(-file)?\b([^\n]*)/g;
+
+// rule ids ignored by the comments of a file ("all" without a rule id)
+export interface CheckIgnoreComments {
+  file: Set<string> | "all";
+  lines: Map<number, Set<string> | "all">;
+}
+
+// the severity of a rule for a file: the last matching override, then `checkRules.rules`,
+// then the rule's default
+export function getCheckRuleLevel(
+  config: DlerConfig,
+  rule: Pick<CheckRule, "id" | "severity">,
+  file?: string,
+): CheckRuleLevel {
+  let level: CheckRuleLevel = config.checkRules?.rules?.[rule.id] ?? rule.severity;
+  if (!file) return level;
+
+  const relativeFile = toProjectPath(file);
+  for (const override of config.checkRules?.overrides ?? []) {
+    const overrideLevel = override.rules[rule.id];
+    if (overrideLevel && override.files.some((glob) => new Bun.Glob(glob).match(relativeFile))) {
+      level = overrideLevel;
+    }
+  }
+  return level;
+}
+
+// a rule is skipped when it's off and no override turns it back on
+export function isCheckRuleOff(config: DlerConfig, rule: Pick<CheckRule, "id" | "severity">) {
+  if (getCheckRuleLevel(config, rule) !== "off") return false;
+  return !(config.checkRules?.overrides ?? []).some((override) => {
+    const level = override.rules[rule.id];
+    return level !== undefined && level !== "off";
+  });
+}
+
+// parse the ignore comments of a file's content
+export function parseIgnoreComments(content: string): CheckIgnoreComments {
+  const comments: CheckIgnoreComments = { file: new Set(), lines: new Map() };
+  const lines = content.split("\n");
+
+  for (const [index, line] of lines.entries()) {
+    for (const match of line.matchAll(IGNORE_COMMENT_RE)) {
+      const ruleIds = (match[2] ?? "")
+        .replace(/\*\/.*$|\s--\s.*$/, "")
+        .split(/[\s,]+/)
+        .filter(Boolean);
+      const ignored = ruleIds.length > 0 ? new Set(ruleIds) : "all";
+
+      if (match[1]) {
+        comments.file = mergeIgnored(comments.file, ignored);
+      } else {
+        // a comment covers its own line and, when it's alone on its line, the next one
+        const lineNumber = index + 1;
+        comments.lines.set(lineNumber, mergeIgnored(comments.lines.get(lineNumber), ignored));
+        const isAlone =
+          line.slice(0, match.index).trim() === "" && !/\*\/\s*\S/.test(match[2] ?? "");
+        if (isAlone) {
+          comments.lines.set(
+            lineNumber + 1,
+            mergeIgnored(comments.lines.get(lineNumber + 1), ignored),
+          );
+        }
+      }
+    }
+  }
+  return comments;
+}
+
+// check whether the ignore comments of a file suppress an issue of `ruleId`
+export function isIssueIgnored(
+  comments: CheckIgnoreComments,
+  ruleId: string,
+  line?: number,
+): boolean {
+  const matches = (ignored: Set<string> | "all" | undefined) =>
+    ignored === "all" || (ignored?.has(ruleId) ?? false);
+  return matches(comments.file) || (line !== undefined && matches(comments.lines.get(line)));
+}
+
+// apply `checkRules` and the ignore comments to a rule's result: issues get their severity,
+// ignored and "off" issues are dropped, and only "error" issues fail the result
+export async function applyCheckRuleSettings(
+  config: DlerConfig,
+  rule: CheckRule,
+  result: CheckResult,
+): Promise<CheckResult> {
+  const commentsByFile = new Map<string, CheckIgnoreComments | undefined>();
+  const issues: CheckIssue[] = [];
+
+  for (const issue of result.issues) {
+    const level = getCheckRuleLevel(config, rule, issue.file);
+    if (level === "off") continue;
+
+    if (issue.file) {
+      if (!commentsByFile.has(issue.file)) {
+        commentsByFile.set(issue.file, await readIgnoreComments(issue.file));
+      }
+      const comments = commentsByFile.get(issue.file);
+      if (comments && isIssueIgnored(comments, rule.id, issue.line)) continue;
+    }
+
+    issues.push({ ...issue, severity: level });
+  }
+
+  return {
+    ...result,
+    success: !issues.some((issue) => issue.severity === "error"),
+    issues,
+  };
+}
+
+async function readIgnoreComments(file: string): Promise<CheckIgnoreComments | undefined> {
+  const filePath = path.resolve(PROJECT_ROOT, file);
+  try {
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile()) return undefined;
+    const content = await fs.readFile(filePath, "utf8");
+    return content.includes(CHECK_IGNORE_COMMENT) ? parseIgnoreComments(content) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function mergeIgnored(
+  current: Set<string> | "all" | undefined,
+  ignored: Set<string> | "all",
+): Set<string> | "all" {
+  if (current === "all" || ignored === "all") return "all";
+  return new Set([...(current ?? []), ...ignored]);
+}
+
+function toProjectPath(file: string): string {
+  return path.relative(PROJECT_ROOT, path.resolve(PROJECT_ROOT, file));
+}
@@ -463,6 +463,7 @@ export interface RulesCheckOptions {
 }
 
 export interface CheckIssue {
+  // Custom rules (`checkCustomRules`) can report their own issue types
   type:
     | "file-extension"
     | "path-extension"
@@ -471,7 +472,10 @@ export interface CheckIssue {
     | "dler-config-health"
     | "self-include"
     | "tsconfig-health"
-    | "no-index-files";
+    | "no-index-files"
+    | (string & {});
+  rule?: string; // Id of the rule that reported the issue
+  severity?: "warn" | "error"; // Resolved from `checkRules` (defaults to the rule's severity)
   message: string;
   file: string;
   line?: number;
@@ -72,3 +72,43 @@ export async function finalizePub(
   // Report success
   relinka("success", `🎉 Build and publish completed successfully in ${formattedPerfTime}`);
 }
+
+/**
+ * Finalizes a `dler pub --dry-run`: cleans up like a publish,
+ * but leaves `bumpDisable` untouched since nothing was bumped.
+ */
+export async function finalizeDryRun(
+  timer: PerfTimer,
+  libsList: Record<string, LibConfig>,
+  distNpmDirName: string,
+  distJsrDirName: string,
+  libsDirDist: string,
+): Promise<void> {
+  const elapsedTime = getElapsedPerfTime(timer);
+  const formattedPerfTime = prettyMilliseconds(elapsedTime, { verbose: true });
+
+  // Delete dist folders
+  await removeDistFolders(distNpmDirName, distJsrDirName, libsDirDist, libsList);
+
+  relinka("success", `🎉 Dry run completed in ${formattedPerfTime}, nothing was published`);
+}
+
+/**
+ * Finalizes a `dler pub --local`: cleans up like a publish,
+ * but leaves `bumpDisable` untouched since nothing was bumped.
+ */
+export async function finalizeLocalPub(
+  timer: PerfTimer,
+  libsList: Record<string, LibConfig>,
+  distNpmDirName: string,
+  distJsrDirName: string,
+  libsDirDist: string,
+): Promise<void> {
+  const elapsedTime = getElapsedPerfTime(timer);
+  const formattedPerfTime = prettyMilliseconds(elapsedTime, { verbose: true });
+
+  // Delete dist folders
+  await removeDistFolders(distNpmDirName, distJsrDirName, libsDirDist, libsList);
+
+  relinka("success", `🎉 Local publish and smoke test completed in ${formattedPerfTime}`);
+}
@@ -0,0 +1,175 @@
+import { crc32, deflateRawSync, gunzipSync, gzipSync } from "node:zlib";
+
+/** A file to put into an archive */
+export interface ArchiveEntry {
+  name: string; // Path inside the archive
+  content: Buffer;
+  mode: number; // Unix permissions (e.g., 0o755 for executables)
+  mtime: Date;
+}
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Creates a gzipped ustar archive.
+ */
+export function createTarGz(entries: ArchiveEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    blocks.push(createTarHeader(entry), entry.content);
+    const padding = (TAR_BLOCK_SIZE - (entry.content.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+    if (padding > 0) blocks.push(Buffer.alloc(padding));
+  }
+  // Two empty blocks mark the end of the archive
+  blocks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(blocks), { level: 9 });
+}
+
+/**
+ * Creates a deflate-compressed zip archive. Unix permissions are kept in the
+ * external attributes, so executables stay executable when unpacked with `unzip`.
+ */
+export function createZip(entries: ArchiveEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data = deflateRawSync(entry.content, { level: 9 });
+    const checksum = crc32(entry.content);
+    const { dosTime, dosDate } = toDosDateTime(entry.mtime);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(entry.content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4); // Made by unix, so the external attributes hold the mode
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(entry.content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((0o100000 | entry.mode) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, data);
+    centralParts.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDir = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDir, end]);
+}
+
+/**
+ * Reads the regular files of a gzipped tar archive (e.g. an npm tarball).
+ * Long paths from pax extended headers are applied to the following entry.
+ */
+export function extractTarGz(archive: Buffer): ArchiveEntry[] {
+  const tar = gunzipSync(archive);
+  const entries: ArchiveEntry[] = [];
+  let paxPath: string | undefined;
+  let offset = 0;
+
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+    // An empty block marks the end of the archive
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readTarOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] ?? 0);
+    const content = tar.subarray(offset + TAR_BLOCK_SIZE, offset + TAR_BLOCK_SIZE + size);
+    offset += TAR_BLOCK_SIZE + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === "x") {
+      paxPath = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(content.toString("utf8"))?.[1];
+      continue;
+    }
+    if (type !== "0" && type !== "\0") {
+      paxPath = undefined;
+      continue;
+    }
+
+    const name = readTarString(header, 0, 100);
+    const prefix = readTarString(header, 345, 155);
+    entries.push({
+      name: paxPath ?? (prefix ? `${prefix}/${name}` : name),
+      content: Buffer.from(content),
+      mode: readTarOctal(header, 100, 8),
+      mtime: new Date(readTarOctal(header, 136, 12) * 1000),
+    });
+    paxPath = undefined;
+  }
+
+  return entries;
+}
+
+function createTarHeader(entry: ArchiveEntry): Buffer {
+  if (Buffer.byteLength(entry.name) > 100) {
+    throw new Error(`Archive entry name is too long (max 100 bytes): ${entry.name}`);
+  }
+
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  header.write(entry.name, 0, 100, "utf8");
+  writeTarOctal(header, entry.mode, 100, 8);
+  writeTarOctal(header, 0, 108, 8); // uid
+  writeTarOctal(header, 0, 116, 8); // gid
+  writeTarOctal(header, entry.content.length, 124, 12);
+  writeTarOctal(header, Math.floor(entry.mtime.getTime() / 1000), 136, 12);
+  header.write("0", 156, 1, "ascii"); // Regular file
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(" ", 148, 156);
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+
+  return header;
+}
+
+function writeTarOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function readTarString(header: Buffer, offset: number, length: number): string {
+  const value = header.subarray(offset, offset + length);
+  const end = value.indexOf(0);
+  return value.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readTarOctal(header: Buffer, offset: number, length: number): number {
+  return Number.parseInt(readTarString(header, offset, length).trim() || "0", 8);
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
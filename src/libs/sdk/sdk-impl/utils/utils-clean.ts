@@ -67,6 +67,8 @@ export async function removeLogInternalCalls(targetDir: string): Promise<boolean
     (file) =>
       file.endsWith(".ts") ||
       file.endsWith(".js") ||
+      file.endsWith(".mjs") ||
+      file.endsWith(".cjs") ||
       file.endsWith(".tsx") ||
       file.endsWith(".jsx"),
   );
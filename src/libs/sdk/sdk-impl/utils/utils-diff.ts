@@ -0,0 +1,123 @@
+// ============================
+// Unified Diff Functions
+// ============================
+
+// changed-lines limit of the LCS table (old lines × new lines)
+const MAX_LCS_CELLS = 4_000_000;
+
+interface DiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+/**
+ * Creates a unified diff (`diff -u` format) of two versions of a file.
+ * The changed lines between the common prefix and suffix are compared line by line (LCS),
+ * unless there are too many of them, then they're reported as one replaced block.
+ * Returns an empty string when the contents are equal.
+ */
+export function createUnifiedDiff(
+  oldFile: string,
+  newFile: string,
+  before: string,
+  after: string,
+  context = 3,
+): string {
+  if (before === after) return "";
+
+  const lines = diffLines(before.split("\n"), after.split("\n"));
+  const changed = lines.flatMap((line, index) => (line.op === " " ? [] : [index]));
+
+  const output = [`--- a/${oldFile}`, `+++ b/${newFile}`];
+  let hunkStart = 0;
+  while (hunkStart < changed.length) {
+    // changes closer than twice the context share a hunk
+    let hunkEnd = hunkStart;
+    while (
+      hunkEnd + 1 < changed.length &&
+      (changed[hunkEnd + 1] ?? 0) - (changed[hunkEnd] ?? 0) <= context * 2
+    ) {
+      hunkEnd++;
+    }
+    const from = Math.max(0, (changed[hunkStart] ?? 0) - context);
+    const to = Math.min(lines.length, (changed[hunkEnd] ?? 0) + context + 1);
+    output.push(formatHunk(lines, from, to));
+    hunkStart = hunkEnd + 1;
+  }
+  return output.join("\n");
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return [
+    ...a.slice(0, prefix).map((text): DiffLine => ({ op: " ", text })),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map((text): DiffLine => ({ op: " ", text })),
+  ];
+}
+
+// longest common subsequence of the changed lines, or a replaced block when they're too many
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ op: "-", text })),
+      ...b.map((text): DiffLine => ({ op: "+", text })),
+    ];
+  }
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        a[i] === b[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: " ", text: a[i++]! });
+      j++;
+    } else if (j >= b.length || (i < a.length && lengths[i + 1]![j]! >= lengths[i]![j + 1]!)) {
+      lines.push({ op: "-", text: a[i++]! });
+    } else {
+      lines.push({ op: "+", text: b[j++]! });
+    }
+  }
+  return lines;
+}
+
+function formatHunk(lines: DiffLine[], from: number, to: number): string {
+  // 1-based line numbers of the hunk's first line in both files
+  let oldStart = 1;
+  let newStart = 1;
+  for (const line of lines.slice(0, from)) {
+    if (line.op !== "+") oldStart++;
+    if (line.op !== "-") newStart++;
+  }
+
+  const hunk = lines.slice(from, to);
+  const oldCount = hunk.filter((line) => line.op !== "+").length;
+  const newCount = hunk.filter((line) => line.op !== "-").length;
+  return [
+    `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`,
+    ...hunk.map((line) => `${line.op}${line.text}`),
+  ].join("\n");
+}
@@ -0,0 +1,79 @@
+import fs from "@reliverse/relifso";
+import { relinka } from "@reliverse/relinka";
+import pMap from "p-map";
+import { glob } from "tinyglobby";
+
+import { CONCURRENCY_DEFAULT } from "./utils-consts";
+import { getDeclarationExt } from "./utils-exports";
+import { extractModuleSpecifiers } from "./utils-misc";
+
+/**
+ * A single output pass of a dual-format build.
+ */
+export interface DualFormatPass {
+  format: "cjs" | "esm";
+  ext: "cjs" | "mjs";
+}
+
+/**
+ * Output passes of a dual-format build, ESM first.
+ */
+export const DUAL_FORMAT_PASSES: DualFormatPass[] = [
+  { format: "esm", ext: "mjs" },
+  { format: "cjs", ext: "cjs" },
+];
+
+/**
+ * Rewrites relative `.js` specifiers to the given extension.
+ */
+function rewriteRelativeSpecifiers(content: string, fileName: string, ext: string): string {
+  // From the last specifier, so the positions of the previous ones stay valid
+  let updated = content;
+  for (const { specifier, start, end } of extractModuleSpecifiers(content, fileName).reverse()) {
+    if (!/^\.{1,2}\//.test(specifier) || !specifier.endsWith(".js")) continue;
+    updated = `${updated.slice(0, start)}${specifier.slice(0, -".js".length)}.${ext}${updated.slice(end)}`;
+  }
+  return updated;
+}
+
+/**
+ * Finalizes a dual-format output directory:
+ * - points relative `.js` specifiers of `.mjs`/`.cjs` files to their own tree
+ * - emits `.d.mts`/`.d.cts` declarations next to each `.d.ts` (if not emitted by the builder)
+ */
+export async function finalizeDualFormatOutput(outDirBin: string): Promise<void> {
+  relinka("verbose", `[dual-format] Finalizing ESM/CJS output in ${outDirBin}`);
+
+  const jsFiles = await glob("**/*.{mjs,cjs}", { absolute: true, cwd: outDirBin });
+  await pMap(
+    jsFiles,
+    async (file) => {
+      const ext = file.endsWith(".cjs") ? "cjs" : "mjs";
+      const content = await fs.readFile(file, "utf8");
+      const updated = rewriteRelativeSpecifiers(content, file, ext);
+      if (updated !== content) {
+        await fs.writeFile(file, updated, "utf8");
+      }
+    },
+    { concurrency: CONCURRENCY_DEFAULT },
+  );
+
+  const dtsFiles = await glob("**/*.d.ts", { absolute: true, cwd: outDirBin });
+  await pMap(
+    dtsFiles,
+    async (file) => {
+      const content = await fs.readFile(file, "utf8");
+      for (const { ext } of DUAL_FORMAT_PASSES) {
+        const target = file.replace(/\.d\.ts$/, `.${getDeclarationExt(ext)}`);
+        if (await fs.pathExists(target)) continue;
+        await fs.writeFile(target, rewriteRelativeSpecifiers(content, file, ext), "utf8");
+      }
+    },
+    { concurrency: CONCURRENCY_DEFAULT },
+  );
+
+  relinka(
+    "verbose",
+    `[dual-format] Processed ${jsFiles.length} module file(s) and ${dtsFiles.length} declaration file(s)`,
+  );
+}
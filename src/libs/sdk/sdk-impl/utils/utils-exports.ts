@@ -0,0 +1,163 @@
+import path from "@reliverse/pathkit";
+
+import type { NpmOutExt } from "~/libs/sdk/sdk-impl/config/types";
+
+/**
+ * Normalizes a subpath key to the `./name` form expected by `exports`.
+ */
+function normalizeSubpath(subpath: string): string {
+  const trimmed = subpath.trim().replace(/\/+$/, "");
+  if (trimmed === "" || trimmed === ".") return ".";
+  return trimmed.startsWith("./") ? trimmed : `./${trimmed.replace(/^\/+/, "")}`;
+}
+
+/**
+ * Merges the main entry file with additional subpath exports.
+ * The main entry file always owns the `"."` subpath.
+ *
+ * @example
+ * resolveExportEntries("mod.ts", { utils: "utils/mod.ts" });
+ * // { ".": "mod.ts", "./utils": "utils/mod.ts" }
+ */
+export function resolveExportEntries(
+  mainEntryFile: string,
+  extraExports: Record<string, string> | undefined,
+): Record<string, string> {
+  const entries: Record<string, string> = { ".": mainEntryFile.replace(/^\.\//, "") };
+
+  for (const [subpath, srcFile] of Object.entries(extraExports ?? {})) {
+    const key = normalizeSubpath(subpath);
+    if (key === ".") {
+      throw new Error(
+        `The "." export is reserved for the main entry file (${mainEntryFile}). Remove it from the exports config.`,
+      );
+    }
+    if (!srcFile) {
+      throw new Error(`Export "${key}" has no source entry file.`);
+    }
+    entries[key] = srcFile.replace(/^\.\//, "");
+  }
+
+  return entries;
+}
+
+/**
+ * Returns the source entry files of every subpath except `"."`.
+ */
+export function getAdditionalEntryFiles(entries: Record<string, string>): string[] {
+  return Object.entries(entries)
+    .filter(([subpath]) => subpath !== ".")
+    .map(([, srcFile]) => srcFile);
+}
+
+/**
+ * Gets the declaration extension that matches a given output extension.
+ */
+export function getDeclarationExt(outExt: NpmOutExt): string {
+  switch (outExt) {
+    case "mjs":
+    case "mts":
+      return "d.mts";
+    case "cjs":
+    case "cts":
+      return "d.cts";
+    default:
+      return "d.ts";
+  }
+}
+
+/**
+ * Replaces the `.ts`, `.tsx`, `.mts` or `.cts` extension of a source file.
+ */
+function replaceSourceExt(srcFile: string, ext: string): string {
+  return srcFile.replace(/\.(c|m)?tsx?$/, `.${ext}`);
+}
+
+/**
+ * Converts a source entry file path into its path inside the dist's output dir.
+ */
+export function toDistEntryPath(srcFile: string, outDir: string, outExt: NpmOutExt): string {
+  const withExt = outExt === "ts" ? srcFile : replaceSourceExt(srcFile, outExt);
+  return `./${path.join(outDir, withExt)}`;
+}
+
+/**
+ * Creates a conditional `exports` map (`types`, `import`, `default`) for a package.json.
+ * `types` is listed first because TypeScript resolves conditions in order.
+ */
+export function createPackageExportsMap(
+  entries: Record<string, string>,
+  outDir: string,
+  outExt: NpmOutExt,
+  declarations: boolean,
+): Record<string, Record<string, string>> {
+  const exportsMap: Record<string, Record<string, string>> = {};
+
+  for (const [subpath, srcFile] of Object.entries(entries)) {
+    const distPath = toDistEntryPath(srcFile, outDir, outExt);
+    const conditions: Record<string, string> = {};
+    if (declarations) {
+      conditions.types =
+        outExt === "ts"
+          ? distPath
+          : `./${path.join(outDir, replaceSourceExt(srcFile, getDeclarationExt(outExt)))}`;
+    }
+    conditions.import = distPath;
+    conditions.default = distPath;
+    exportsMap[subpath] = conditions;
+  }
+
+  return exportsMap;
+}
+
+/**
+ * Creates a dual-format `exports` map with nested `import` (`.mjs`) and
+ * `require` (`.cjs`) conditions, each with its own `types` when enabled.
+ */
+export function createDualPackageExportsMap(
+  entries: Record<string, string>,
+  outDir: string,
+  declarations: boolean,
+): Record<string, Record<string, Record<string, string>>> {
+  const exportsMap: Record<string, Record<string, Record<string, string>>> = {};
+
+  for (const [subpath, srcFile] of Object.entries(entries)) {
+    const conditions: Record<string, Record<string, string>> = {};
+    for (const [condition, outExt] of [
+      ["import", "mjs"],
+      ["require", "cjs"],
+    ] as const) {
+      const formatConditions: Record<string, string> = {};
+      if (declarations) {
+        formatConditions.types = `./${path.join(outDir, replaceSourceExt(srcFile, getDeclarationExt(outExt)))}`;
+      }
+      formatConditions.default = toDistEntryPath(srcFile, outDir, outExt);
+      conditions[condition] = formatConditions;
+    }
+    exportsMap[subpath] = conditions;
+  }
+
+  return exportsMap;
+}
+
+/**
+ * Creates the `exports` field for jsr.json.
+ * JSR only accepts plain paths, so a single entry stays a string
+ * and multiple entries become a subpath-to-path map.
+ */
+export function createJsrExportsMap(
+  entries: Record<string, string>,
+  outDir: string,
+): string | Record<string, string> {
+  const exportsMap = Object.fromEntries(
+    Object.entries(entries).map(([subpath, srcFile]) => [
+      subpath,
+      toDistEntryPath(srcFile, outDir, "ts"),
+    ]),
+  );
+  const subpaths = Object.keys(exportsMap);
+  if (subpaths.length === 1 && subpaths[0] === ".") {
+    return exportsMap["."] as string;
+  }
+  return exportsMap;
+}
@@ -8,6 +8,8 @@ import { glob } from "tinyglobby";
 import type { DlerConfig, LibConfig } from "~/libs/sdk/sdk-impl/config/types";
 
 import { cliDomainDocs, CONCURRENCY_DEFAULT } from "./utils-consts";
+import { createJsrExportsMap, resolveExportEntries } from "./utils-exports";
+import { library_getSiblingLibVersions } from "./utils-package-json-libraries";
 
 /**
  * Generates a jsr.json configuration file for JSR distributions.
@@ -19,29 +21,50 @@ export async function createJsrJSON(
   config: DlerConfig,
   libName = "unknown-lib-name",
   pkgDescription = "unknown-lib-description",
+  siblingLibs: string[] = [],
 ): Promise<void> {
   relinka("verbose", `Creating jsr.json configuration (isLib: ${isLib})`);
   const originalPkg = await readPackageJSON();
   let { description, name } = originalPkg;
-  const { author, license, version } = originalPkg;
+  let { version } = originalPkg;
+  const { author, license } = originalPkg;
+  let imports: Record<string, string> | undefined;
   if (isLib) {
     name = libName;
     description = pkgDescription;
+    version = libsList[libName]?.version || version;
 
     // Check if libMainFile is defined
     if (!libsList[libName]?.libMainFile) {
       throw new Error(`libsList.${libName}.libMainFile is not defined for library ${libName}`);
     }
+
+    // Pin the sibling libs imported by this lib to their exact versions
+    const siblingVersions = await library_getSiblingLibVersions(libName, siblingLibs, libsList);
+    if (Object.keys(siblingVersions).length > 0) {
+      imports = Object.fromEntries(
+        Object.entries(siblingVersions).map(([sibling, siblingVersion]) => {
+          const siblingRegistry = libsList[sibling]?.libPubRegistry || config.commonPubRegistry;
+          const prefix = siblingRegistry.includes("jsr") ? "jsr" : "npm";
+          return [sibling, `${prefix}:${sibling}@${siblingVersion}`];
+        }),
+      );
+    }
   }
   const pkgHomepage = cliDomainDocs;
+  const exportEntries =
+    isLib && libsList[libName]?.libMainFile
+      ? resolveExportEntries(
+          path.basename(libsList[libName].libMainFile),
+          libsList[libName].libExports,
+        )
+      : resolveExportEntries(config.coreEntryFile, config.coreExports);
   const jsrConfig = {
     author,
     description,
-    exports:
-      isLib && libsList[libName]?.libMainFile
-        ? `./bin/${path.basename(libsList[libName].libMainFile)}`
-        : `./bin/${config.coreEntryFile}`,
+    exports: createJsrExportsMap(exportEntries, "bin"),
     homepage: pkgHomepage,
+    ...(imports && { imports }),
     license: license || "MIT",
     name,
     publish: {
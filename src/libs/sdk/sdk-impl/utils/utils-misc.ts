@@ -1,3 +1,5 @@
+import ts from "typescript";
+
 /**
  * Extracts the package name (or scoped package name) from a potential bare import path.
  * Returns null if the path is relative, absolute, or empty.
@@ -12,3 +14,106 @@ export function extractPackageName(importPath: string | undefined): null | strin
   const match = /^(@[^/]+\/[^/]+|[^/]+)/.exec(importPath);
   return match ? match[0] : null;
 }
+
+/**
+ * A module specifier found in a file.
+ * `start` and `end` are the positions of the specifier text, without its quotes.
+ */
+export interface ModuleSpecifier {
+  specifier: string;
+  typeOnly: boolean;
+  start: number;
+  end: number;
+}
+
+/**
+ * Extracts the module specifiers of a file's content from its AST, so specifiers in comments
+ * and strings are never matched: import/export declarations, `import x = require()`,
+ * dynamic imports, `require()` calls, `new URL(..., import.meta.url)` and `import("x")` types.
+ * @param content - The file content.
+ * @param fileName - The file name, which sets the language (ts, tsx, js, jsx).
+ * @returns The specifiers in order of appearance, type-only ones flagged.
+ */
+export function extractModuleSpecifiers(content: string, fileName = "file.ts"): ModuleSpecifier[] {
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, false);
+  const specifiers: ModuleSpecifier[] = [];
+
+  const add = (node: ts.Node | undefined, typeOnly: boolean) => {
+    if (node && ts.isStringLiteralLike(node)) {
+      specifiers.push({
+        specifier: node.text,
+        typeOnly,
+        start: node.getStart(sourceFile) + 1,
+        end: node.end - 1,
+      });
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node)) {
+      add(node.moduleSpecifier, isTypeOnlyImport(node));
+    } else if (ts.isExportDeclaration(node)) {
+      add(node.moduleSpecifier, isTypeOnlyExport(node));
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference)
+    ) {
+      add(node.moduleReference.expression, node.isTypeOnly);
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node.argument.literal, true);
+    } else if (ts.isCallExpression(node)) {
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === "require";
+      if (isDynamicImport || isRequire) add(node.arguments[0], false);
+    } else if (
+      ts.isNewExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === "URL" &&
+      node.arguments?.[1] &&
+      isImportMetaUrl(node.arguments[1])
+    ) {
+      add(node.arguments[0], false);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return specifiers;
+}
+
+// `import type { a } from "x"` or `import { type a, type b } from "x"`
+// (a side-effect import `import "x"` always runs)
+function isTypeOnlyImport(node: ts.ImportDeclaration): boolean {
+  const clause = node.importClause;
+  if (!clause) return false;
+  if (clause.isTypeOnly) return true;
+  const bindings = clause.namedBindings;
+  return (
+    !clause.name &&
+    bindings !== undefined &&
+    ts.isNamedImports(bindings) &&
+    bindings.elements.length > 0 &&
+    bindings.elements.every((element) => element.isTypeOnly)
+  );
+}
+
+// `export type { a } from "x"` or `export { type a } from "x"`
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+  if (node.isTypeOnly) return true;
+  const clause = node.exportClause;
+  return (
+    clause !== undefined &&
+    ts.isNamedExports(clause) &&
+    clause.elements.length > 0 &&
+    clause.elements.every((element) => element.isTypeOnly)
+  );
+}
+
+function isImportMetaUrl(node: ts.Node): boolean {
+  return (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isMetaProperty(node.expression) &&
+    node.expression.keywordToken === ts.SyntaxKind.ImportKeyword &&
+    node.name.text === "url"
+  );
+}
@@ -6,6 +6,12 @@ import { definePackageJSON, type PackageJson, readPackageJSON } from "pkg-types"
 import type { NpmOutExt, DlerConfig, LibConfig } from "~/libs/sdk/sdk-impl/config/types";
 
 import { filterDeps } from "./utils-deps";
+import {
+  createJsrExportsMap,
+  createDualPackageExportsMap,
+  createPackageExportsMap,
+  resolveExportEntries,
+} from "./utils-exports";
 
 /**
  * Creates a package.json for a lib distribution.
@@ -18,12 +24,14 @@ export async function library_createPackageJSON(
   libsList: Record<string, LibConfig>,
   config: DlerConfig,
   unifiedBundlerOutExt: NpmOutExt,
+  siblingLibs: string[] = [],
 ): Promise<void> {
   relinka("verbose", `Creating package.json for library ${libName}`);
 
   // Read the original package.json
   const originalPkg = await readPackageJSON();
   const commonPkg = await library_createCommonPackageFields(libName, libsList);
+  const siblingVersions = await library_getSiblingLibVersions(libName, siblingLibs, libsList);
 
   // Create NPM package.json if needed
   if (effectivePubRegistry === "npm" || effectivePubRegistry === "npm-jsr") {
@@ -36,6 +44,7 @@ export async function library_createPackageJSON(
       libsList,
       config,
       unifiedBundlerOutExt,
+      siblingVersions,
     );
   }
 
@@ -49,10 +58,65 @@ export async function library_createPackageJSON(
       commonPkg,
       libsList,
       config,
+      siblingVersions,
     );
   }
 }
 
+/**
+ * Resolves the exact versions of the sibling libs (from libsList) that a lib imports:
+ * `LibConfig.version` or the (bumped) root version.
+ *
+ * @param siblingLibs - The libs this lib depends on, from `library_getDependencyGraph`
+ * @returns A record of sibling lib name to its exact version
+ */
+export async function library_getSiblingLibVersions(
+  libName: string,
+  siblingLibs: string[],
+  libsList: Record<string, LibConfig>,
+): Promise<Record<string, string>> {
+  const siblingVersions: Record<string, string> = {};
+  const importedLibs = siblingLibs.filter((sibling) => sibling !== libName && sibling in libsList);
+  if (importedLibs.length === 0) return siblingVersions;
+
+  const { version: rootVersion } = await readPackageJSON();
+  for (const sibling of [...importedLibs].sort()) {
+    const version = libsList[sibling]?.version || rootVersion;
+    if (!version) {
+      throw new Error(
+        `Cannot pin ${sibling} in ${libName}: neither libsList["${sibling}"].version nor the root package.json version is set`,
+      );
+    }
+    siblingVersions[sibling] = version;
+  }
+  relinka(
+    "verbose",
+    `Pinned sibling libs for ${libName}: ${Object.entries(siblingVersions)
+      .map(([name, version]) => `${name}@${version}`)
+      .join(", ")}`,
+  );
+  return siblingVersions;
+}
+
+/**
+ * Adds the pinned sibling libs to the dependencies,
+ * and removes them from the devDependencies.
+ */
+function library_withSiblingLibDeps(
+  dependencies: Record<string, string>,
+  devDependencies: Record<string, string>,
+  siblingVersions: Record<string, string>,
+): { dependencies: Record<string, string>; devDependencies: Record<string, string> } {
+  const devDeps = { ...devDependencies };
+  for (const sibling of Object.keys(siblingVersions)) {
+    delete devDeps[sibling];
+  }
+  return {
+    dependencies: { ...dependencies, ...siblingVersions },
+    devDependencies: devDeps,
+  };
+}
+
 /**
  * Creates common package.json fields based on the library name and config.
  */
@@ -79,7 +143,7 @@ async function library_createCommonPackageFields(
     license: license || "MIT",
     name: libName,
     type: "module",
-    version,
+    version: libsList?.[libName]?.version || version,
   };
 
   if (author) {
@@ -286,6 +350,7 @@ async function library_writeJsrPackageJSON(
   commonPkg: Partial<PackageJson>,
   libsList: Record<string, LibConfig>,
   config: DlerConfig,
+  siblingVersions: Record<string, string>,
 ): Promise<void> {
   relinka("verbose", `Writing package.json for JSR lib: ${libName}`);
 
@@ -313,9 +378,8 @@ async function library_writeJsrPackageJSON(
     relinka("verbose", `Updated bin entry for JSR: ${JSON.stringify(updatedBin)}`);
   }
 
-  const jsrPkg = definePackageJSON({
-    ...commonPkg,
-    dependencies: await library_getlibPkgKeepDeps(
+  const jsrDeps = library_withSiblingLibDeps(
+    await library_getlibPkgKeepDeps(
       libName,
       originalPkg.dependencies,
       outDirBin,
@@ -330,17 +394,23 @@ async function library_writeJsrPackageJSON(
       },
       config,
     ),
-    devDependencies: await filterDeps(
-      originalPkg.devDependencies,
-      true,
-      outDirBin,
-      true,
-      config,
-      libName,
+    await filterDeps(originalPkg.devDependencies, true, outDirBin, true, config, libName),
+    siblingVersions,
+  );
+
+  const jsrPkg = definePackageJSON({
+    ...commonPkg,
+    dependencies: jsrDeps.dependencies,
+    devDependencies: jsrDeps.devDependencies,
+    exports: createPackageExportsMap(
+      resolveExportEntries(
+        path.basename(libsList[libName].libMainFile),
+        libsList[libName].libExports,
+      ),
+      "bin",
+      "ts",
+      false,
     ),
-    exports: {
-      ".": `./bin/${path.basename(libsList[libName].libMainFile)}`,
-    },
     files: [
       ...new Set([
         "bin",
@@ -369,6 +439,7 @@ async function library_writeNpmLibPackageJSON(
   libsList: Record<string, LibConfig>,
   config: DlerConfig,
   unifiedBundlerOutExt: NpmOutExt,
+  siblingVersions: Record<string, string>,
 ): Promise<void> {
   relinka("verbose", `Writing package.json for NPM lib: ${libName}`);
 
@@ -382,9 +453,15 @@ async function library_writeNpmLibPackageJSON(
     throw new Error(`libsList.${libName}.libMainFile is not defined for library ${libName}`);
   }
 
-  const npmPkg = definePackageJSON({
-    ...commonPkg,
-    dependencies: await library_getlibPkgKeepDeps(
+  const dualFormat = config.distNpmDualFormat && config.distNpmBuilder !== "jsr";
+  const exportEntries = resolveExportEntries(
+    path.basename(libsList[libName].libMainFile),
+    libsList[libName].libExports,
+  );
+  const mainFile = path.basename(libsList[libName].libMainFile);
+
+  const npmDeps = library_withSiblingLibDeps(
+    await library_getlibPkgKeepDeps(
       libName,
       originalPkg.dependencies,
       outDirBin,
@@ -399,25 +476,30 @@ async function library_writeNpmLibPackageJSON(
       },
       config,
     ),
-    devDependencies: await filterDeps(
-      originalPkg.devDependencies,
-      true,
-      outDirBin,
-      false,
-      config,
-      libName,
-    ),
-    exports: {
-      ".": `./bin/${path.basename(libsList[libName].libMainFile).replace(/\.ts$/, `.${unifiedBundlerOutExt}`)}`,
-    },
+    await filterDeps(originalPkg.devDependencies, true, outDirBin, false, config, libName),
+    siblingVersions,
+  );
+
+  const npmPkg = definePackageJSON({
+    ...commonPkg,
+    dependencies: npmDeps.dependencies,
+    devDependencies: npmDeps.devDependencies,
+    exports: dualFormat
+      ? createDualPackageExportsMap(exportEntries, "bin", libsList[libName].libDeclarations)
+      : createPackageExportsMap(
+          exportEntries,
+          "bin",
+          unifiedBundlerOutExt,
+          libsList[libName].libDeclarations,
+        ),
     files: [
       ...new Set([
         "bin",
         ...(config.publishArtifacts?.global || ["package.json", "README.md", "LICENSE"]),
       ]),
     ],
-    main: `./bin/${path.basename(libsList[libName].libMainFile).replace(/\.ts$/, `.${unifiedBundlerOutExt}`)}`,
-    module: `./bin/${path.basename(libsList[libName].libMainFile).replace(/\.ts$/, `.${unifiedBundlerOutExt}`)}`,
+    main: `./bin/${mainFile.replace(/\.ts$/, `.${dualFormat ? "cjs" : unifiedBundlerOutExt}`)}`,
+    module: `./bin/${mainFile.replace(/\.ts$/, `.${dualFormat ? "mjs" : unifiedBundlerOutExt}`)}`,
     publishConfig: { access: "public" },
   });
 
@@ -454,7 +536,13 @@ async function library_createJsrConfig(
   const jsrConfig = {
     name: libName,
     version: libsList[libName]?.version || originalPkg.version || "0.0.0",
-    exports: `./bin/${path.basename(libsList[libName]?.libMainFile || "")}`,
+    exports: createJsrExportsMap(
+      resolveExportEntries(
+        path.basename(libsList[libName]?.libMainFile || ""),
+        libsList[libName]?.libExports,
+      ),
+      "bin",
+    ),
     files: config.publishArtifacts?.global || ["bin", "package.json", "README.md", "LICENSE"],
   };
 
@@ -8,6 +8,11 @@ import type { DlerConfig, NpmOutExt } from "~/libs/sdk/sdk-impl/config/types";
 import { cliDomainDocs } from "~/libs/sdk/sdk-impl/utils/utils-consts";
 
 import { filterDeps } from "./utils-deps";
+import {
+  createDualPackageExportsMap,
+  createPackageExportsMap,
+  resolveExportEntries,
+} from "./utils-exports";
 
 /**
  * Creates a package.json for the main distribution.
@@ -33,6 +38,7 @@ export async function regular_createPackageJSON(
 
   const outDirBin = path.join(outDirRoot, coreBuildOutDir);
   const outExt = unifiedBundlerOutExt || "js";
+  const exportEntries = resolveExportEntries(config.coreEntryFile, config.coreExports);
 
   if (isJsr) {
     // For JSR, we need to handle bin entries with .ts extension
@@ -54,9 +60,7 @@ export async function regular_createPackageJSON(
       bin: binEntry,
       dependencies: await regular_getPkgKeepDeps(originalPkg.dependencies, outDirBin, true, config),
       devDependencies: await filterDeps(originalPkg.devDependencies, true, outDirBin, true, config),
-      exports: {
-        ".": `./${coreBuildOutDir}/${config.coreEntryFile}`,
-      },
+      exports: createPackageExportsMap(exportEntries, coreBuildOutDir, "ts", false),
       files: [
         ...new Set([
           coreBuildOutDir,
@@ -75,11 +79,14 @@ export async function regular_createPackageJSON(
       );
     }
   } else {
+    // Dual-format builds run CLI bins from the ESM output
+    const dualFormat = config.distNpmDualFormat && config.distNpmBuilder !== "jsr";
+    const binExt = dualFormat ? "mjs" : outExt;
     const binEntry = coreIsCLI.enabled
       ? Object.fromEntries(
           Object.entries(coreIsCLI.scripts).map(([name, script]) => [
             name,
-            `${coreBuildOutDir}/${path.basename(script).replace(/\.ts$/, `.${outExt}`)}`,
+            `${coreBuildOutDir}/${path.basename(script).replace(/\.ts$/, `.${binExt}`)}`,
           ]),
         )
       : undefined;
@@ -104,17 +111,17 @@ export async function regular_createPackageJSON(
         false,
         config,
       ),
-      exports: {
-        ".": `./${coreBuildOutDir}/${config.coreEntryFile.replace(/\.ts$/, `.${outExt}`)}`,
-      },
+      exports: dualFormat
+        ? createDualPackageExportsMap(exportEntries, coreBuildOutDir, config.coreDeclarations)
+        : createPackageExportsMap(exportEntries, coreBuildOutDir, outExt, config.coreDeclarations),
       files: [
         ...new Set([
           coreBuildOutDir,
           ...(config.publishArtifacts?.global || ["package.json", "README.md", "LICENSE"]),
         ]),
       ],
-      main: `./${coreBuildOutDir}/${config.coreEntryFile.replace(/\.ts$/, `.${outExt}`)}`,
-      module: `./${coreBuildOutDir}/${config.coreEntryFile.replace(/\.ts$/, `.${outExt}`)}`,
+      main: `./${coreBuildOutDir}/${config.coreEntryFile.replace(/\.ts$/, `.${dualFormat ? "cjs" : outExt}`)}`,
+      module: `./${coreBuildOutDir}/${config.coreEntryFile.replace(/\.ts$/, `.${dualFormat ? "mjs" : outExt}`)}`,
       publishConfig: { access: "public" },
     });
     await fs.writeJSON(path.join(outDirRoot, "package.json"), npmPkg, {
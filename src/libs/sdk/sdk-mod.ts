@@ -1,4 +1,20 @@
 // AUTO-GENERATED AGGREGATOR START (via `dler agg`)
+export type {
+  BundleAnalysisModule,
+  BundleAnalysisOutput,
+  BundleAnalysis,
+} from "./sdk-impl/build/build-analyze.js";
+export {
+  recordBunMetafile,
+  bundleAnalyzerPlugin,
+  writeBundleAnalysisReport,
+} from "./sdk-impl/build/build-analyze.js";
+export type { BuildCacheTarget } from "./sdk-impl/build/build-cache.js";
+export {
+  isBuildCacheEnabled,
+  withBuildCache,
+  computeBuildCacheHash,
+} from "./sdk-impl/build/build-cache.js";
 export type { LibraryBuildOptions } from "./sdk-impl/build/build-library.js";
 export { library_buildLibrary } from "./sdk-impl/build/build-library.js";
 export { regular_buildJsrDist, regular_buildNpmDist } from "./sdk-impl/build/build-regular.js";
@@ -127,7 +143,7 @@ export {
   compose,
 } from "./sdk-impl/cmds/transform/transform-impl-mod.js";
 export { DEFAULT_CONFIG_DLER, defineConfigDler } from "./sdk-impl/config/default.js";
-export { showStartPrompt, showEndPrompt } from "./sdk-impl/config/info.js";
+export { dlerVersion, showStartPrompt, showEndPrompt } from "./sdk-impl/config/info.js";
 export { ensureDlerConfig } from "./sdk-impl/config/init.js";
 export { getConfigDler } from "./sdk-impl/config/load.js";
 export type {
@@ -136,6 +152,20 @@ export type {
   BundlerName,
   NpmOutExt,
   LibConfig,
+  SizeBudget,
+  SizeBudgetsConfig,
+  ChangelogConfig,
+  PubGitConfig,
+  CheckRuleSeverity,
+  CheckRuleDirectory,
+  CheckRuleContext,
+  CheckRuleIssue,
+  CheckRuleResult,
+  CheckRule,
+  CheckRuleFix,
+  CheckRuleLevel,
+  CheckRulesConfig,
+  CheckRulesOverride,
   Esbuild,
   transpileFormat,
   Sourcemap,
@@ -144,6 +174,9 @@ export type {
 export { IGNORE_PATTERNS } from "./sdk-impl/constants.js";
 export {
   library_buildFlow,
+  library_getBuildLevels,
+  library_getDependencyGraph,
+  library_getLibsImportPrefixes,
   library_pubFlow,
   libraries_build,
   libraries_publish,
@@ -166,11 +199,99 @@ export type {
   SpellInfo,
 } from "./sdk-impl/magic/magic-spells.js";
 export { getAvailableSpells, evaluateMagicDirective } from "./sdk-impl/magic/magic-spells.js";
+export type { ReleaseLevel, DeclarationSurfaceDiff } from "./sdk-impl/pub/pub-bump-auto.js";
+export {
+  maxReleaseLevel,
+  getCommitReleaseLevel,
+  getDeclarationSurface,
+  diffDeclarationSurfaces,
+  getApiReleaseLevel,
+} from "./sdk-impl/pub/pub-bump-auto.js";
+export type { ConventionalCommit, ChangelogRelease } from "./sdk-impl/pub/pub-changelog.js";
+export {
+  getReleaseTagName,
+  getChangelogPath,
+  getLastReleaseTag,
+  getCommitsSince,
+  parseConventionalCommit,
+  renderChangelogNotes,
+  writeChangelogs,
+  getReleaseNotes,
+} from "./sdk-impl/pub/pub-changelog.js";
+export type { DryRunTarget } from "./sdk-impl/pub/pub-dry-run.js";
+export {
+  getBumpedVersion,
+  applyDryRunVersion,
+  getDryRunTargets,
+  printDryRunSummary,
+} from "./sdk-impl/pub/pub-dry-run.js";
+export type { GitReleaseTag } from "./sdk-impl/pub/pub-git.js";
+export { getGitReleaseTags, createGitRelease } from "./sdk-impl/pub/pub-git.js";
+export type {
+  TarballFile,
+  StrayFile,
+  TarballDiff,
+  TarballInspection,
+} from "./sdk-impl/pub/pub-inspect.js";
+export {
+  inspectTarballs,
+  findStrayFiles,
+  diffTarballs,
+  packTarball,
+} from "./sdk-impl/pub/pub-inspect.js";
 export { library_publishLibrary } from "./sdk-impl/pub/pub-library.js";
+export type { LocalRegistry, LocalPackage, SmokeCheck } from "./sdk-impl/pub/pub-local.js";
+export {
+  publishLocal,
+  startLocalRegistry,
+  publishToLocalRegistry,
+  runSmokeTest,
+  getExportSpecifiers,
+  getBinEntries,
+} from "./sdk-impl/pub/pub-local.js";
+export type {
+  NpmPublishClient,
+  NpmPubConfig,
+  NpmPublishOptions,
+  NpmPublishCommand,
+} from "./sdk-impl/pub/pub-npm-client.js";
+export {
+  resolveNpmPublishClient,
+  getNpmPublishCommand,
+} from "./sdk-impl/pub/pub-npm-client.js";
 export { regular_pubToJsr, regular_pubToNpm } from "./sdk-impl/pub/pub-regular.js";
+export type {
+  PubRegistry,
+  PubTargetStatus,
+  PubStateTarget,
+  PubState,
+} from "./sdk-impl/pub/pub-state.js";
+export {
+  PUB_STATE_PATH,
+  PUB_STATE_MAIN_TARGET,
+  createPubState,
+  readPubState,
+  resumePubState,
+  startPubState,
+  finishPubState,
+  formatPubTarget,
+  runPubTarget,
+} from "./sdk-impl/pub/pub-state.js";
+export { getPrereleaseVersion, resolveDistTag } from "./sdk-impl/pub/pub-tag.js";
+export type {
+  RegistryPackument,
+  RegistryMetadataFetcher,
+  PubVerifyField,
+  PubVerifyMismatch,
+  PubVerifyResult,
+} from "./sdk-impl/pub/pub-verify.js";
+export { verifyPublishedPackages, comparePackument } from "./sdk-impl/pub/pub-verify.js";
 export { regular_buildFlow, regular_pubFlow } from "./sdk-impl/regular-flow.js";
 export { checkDlerConfigHealth } from "./sdk-impl/rules/reliverse/dler-config-health/dler-config-health.js";
-export { checkFileExtensions } from "./sdk-impl/rules/reliverse/file-extensions/file-extensions.js";
+export {
+  checkFileExtensions,
+  fixFileExtensions,
+} from "./sdk-impl/rules/reliverse/file-extensions/file-extensions.js";
 export { analyzeDependencies } from "./sdk-impl/rules/reliverse/missing-deps/analyzer.js";
 export { checkMissingDependencies } from "./sdk-impl/rules/reliverse/missing-deps/deps-mod.js";
 export type {
@@ -185,7 +306,9 @@ export {
   readPackageJson,
 } from "./sdk-impl/rules/reliverse/missing-deps/filesystem.js";
 export { formatOutput } from "./sdk-impl/rules/reliverse/missing-deps/formatter.js";
+export type { ImportedPackages } from "./sdk-impl/rules/reliverse/missing-deps/parser.js";
 export {
+  extractImportedPackages,
   extractPackageNames,
   normalizePackageName,
   getListedDependencies,
@@ -194,7 +317,10 @@ export {
 export { checkNoDynamicImports } from "./sdk-impl/rules/reliverse/no-dynamic-imports/no-dynamic-imports.js";
 export { checkNoIndexFiles } from "./sdk-impl/rules/reliverse/no-index-files/no-index-files.js";
 export { checkPackageJsonHealth } from "./sdk-impl/rules/reliverse/package-json-health/package-json-health.js";
-export { checkPathExtensions } from "./sdk-impl/rules/reliverse/path-extensions/path-extensions.js";
+export {
+  checkPathExtensions,
+  fixPathExtensions,
+} from "./sdk-impl/rules/reliverse/path-extensions/path-extensions.js";
 export { checkSelfInclude } from "./sdk-impl/rules/reliverse/self-include/self-include.js";
 export { checkTsConfigHealth } from "./sdk-impl/rules/reliverse/tsconfig-health/tsconfig-health.js";
 export type { AllowedFileExtensionsType } from "./sdk-impl/rules/rules-consts.js";
@@ -204,7 +330,35 @@ export {
   ALLOWED_IMPORT_EXTENSIONS,
   STRICT_IMPORT_EXTENSIONS,
 } from "./sdk-impl/rules/rules-consts.js";
+export { fixCheckRuleIssues, formatCheckRuleFix } from "./sdk-impl/rules/rules-fix.js";
 export { displayCheckResults } from "./sdk-impl/rules/rules-mod.js";
+export type { CheckReportFormat, CheckReportEntry } from "./sdk-impl/rules/rules-report.js";
+export {
+  CHECK_REPORT_FORMATS,
+  isCheckReportFormat,
+  formatCheckReport,
+  createSarifReport,
+  createJUnitReport,
+} from "./sdk-impl/rules/rules-report.js";
+export {
+  CHECK_DIRECTORIES,
+  defineCheckRule,
+  registerCheckRule,
+  registerConfigCheckRules,
+  getCheckRule,
+  getCheckRules,
+  runCheckRule,
+} from "./sdk-impl/rules/rules-registry.js";
+export type { CheckIgnoreComments } from "./sdk-impl/rules/rules-severity.js";
+export {
+  CHECK_IGNORE_COMMENT,
+  CHECK_IGNORE_FILE_COMMENT,
+  getCheckRuleLevel,
+  isCheckRuleOff,
+  parseIgnoreComments,
+  isIssueIgnored,
+  applyCheckRuleSettings,
+} from "./sdk-impl/rules/rules-severity.js";
 export { shouldIgnoreFile, getAllFiles, getLineNumber } from "./sdk-impl/rules/rules-utils.js";
 export type {
   DistDirs,
@@ -281,7 +435,12 @@ export {
   isBinary,
   getMimeType,
 } from "./sdk-impl/utils/file-type.js";
-export { finalizeBuild, finalizePub } from "./sdk-impl/utils/finalize.js";
+export {
+  finalizeBuild,
+  finalizePub,
+  finalizeDryRun,
+  finalizeLocalPub,
+} from "./sdk-impl/utils/finalize.js";
 export { safeRename, prepareCLIFiles } from "./sdk-impl/utils/fs-rename.js";
 export {
   FILE_TYPES,
@@ -337,6 +496,8 @@ export {
 export { resolveCrossLibs, resolveAllCrossLibs } from "./sdk-impl/utils/resolve-cross-libs.js";
 export { useAggregator } from "./sdk-impl/utils/tools-agg.js";
 export { printUsage } from "./sdk-impl/utils/tools-impl.js";
+export type { ArchiveEntry } from "./sdk-impl/utils/utils-archive.js";
+export { createTarGz, createZip, extractTarGz } from "./sdk-impl/utils/utils-archive.js";
 export {
   getBunSourcemapOption,
   getUnifiedSourcemapOption,
@@ -353,12 +514,27 @@ export {
 } from "./sdk-impl/utils/utils-consts.js";
 export { filterDeps } from "./sdk-impl/utils/utils-deps.js";
 export { determineDistName } from "./sdk-impl/utils/utils-determine.js";
+export { createUnifiedDiff } from "./sdk-impl/utils/utils-diff.js";
+export type { DualFormatPass } from "./sdk-impl/utils/utils-dual-format.js";
+export {
+  DUAL_FORMAT_PASSES,
+  finalizeDualFormatOutput,
+} from "./sdk-impl/utils/utils-dual-format.js";
 export {
   handleDlerError,
   withWorkingDirectory,
   validateDevCwd,
   formatError,
 } from "./sdk-impl/utils/utils-error-cwd.js";
+export {
+  resolveExportEntries,
+  getAdditionalEntryFiles,
+  getDeclarationExt,
+  toDistEntryPath,
+  createPackageExportsMap,
+  createDualPackageExportsMap,
+  createJsrExportsMap,
+} from "./sdk-impl/utils/utils-exports.js";
 export {
   copyRootFile,
   getDirectorySize,
@@ -369,10 +545,12 @@ export {
   validateDirectory,
 } from "./sdk-impl/utils/utils-fs.js";
 export { createJsrJSON, renameTsxFiles } from "./sdk-impl/utils/utils-jsr-json.js";
-export { extractPackageName } from "./sdk-impl/utils/utils-misc.js";
+export type { ModuleSpecifier } from "./sdk-impl/utils/utils-misc.js";
+export { extractModuleSpecifiers, extractPackageName } from "./sdk-impl/utils/utils-misc.js";
 export {
   library_createPackageJSON,
   library_createJsrConfig,
+  library_getSiblingLibVersions,
 } from "./sdk-impl/utils/utils-package-json-libraries.js";
 export { regular_createPackageJSON } from "./sdk-impl/utils/utils-package-json-regular.js";
 export {